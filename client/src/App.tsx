@@ -25,7 +25,11 @@ import Policies from "@/pages/policies";
 import Alerts from "@/pages/alerts";
 import Users from "@/pages/users";
 import Settings from "@/pages/settings";
+import AuditLog from "@/pages/audit-log";
 import RequestDetail from "@/pages/request-detail";
+import ResetPassword from "@/pages/reset-password";
+import Account from "@/pages/account";
+import TwoFactorEnrollment from "@/pages/two-factor-enrollment";
 
 
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
@@ -57,7 +61,7 @@ function Router() {
 
   // Pre-fetch ALL app data on init for instant page loads
   useEffect(() => {
-    if (user) {
+    if (user && !user.twoFactorEnrollmentRequired) {
       // Prefetch all critical data immediately
       const prefetch = async () => {
         try {
@@ -118,11 +122,16 @@ function Router() {
     return (
       <Switch>
         <Route path="/sign-in" component={SignIn} />
+        <Route path="/reset-password" component={ResetPassword} />
         <Route component={Landing} />
       </Switch>
     );
   }
 
+  if (user.twoFactorEnrollmentRequired) {
+    return <TwoFactorEnrollment />;
+  }
+
   // Authenticated routes
   return (
     <AuthenticatedLayout>
@@ -138,7 +147,10 @@ function Router() {
         <Route path="/alerts" component={Alerts} />
         <Route path="/users" component={Users} />
         <Route path="/settings" component={Settings} />
+        <Route path="/audit-log" component={AuditLog} />
         <Route path="/requests/:id" component={RequestDetail} />
+        <Route path="/account" component={Account} />
+        <Route path="/reset-password" component={ResetPassword} />
         <Route component={NotFound} />
       </Switch>
     </AuthenticatedLayout>
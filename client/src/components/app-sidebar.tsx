@@ -10,6 +10,8 @@ import {
   Users,
   LogOut,
   ChevronDown,
+  UserCircle,
+  ScrollText,
 } from "lucide-react";
 import {
   Sidebar,
@@ -82,6 +84,11 @@ const adminNavItems = [
     url: "/users",
     icon: Users,
   },
+  {
+    title: "Audit Log",
+    url: "/audit-log",
+    icon: ScrollText,
+  },
   {
     title: "Settings",
     url: "/settings",
@@ -228,6 +235,12 @@ export function AppSidebar() {
             </button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuItem asChild>
+              <Link href="/account" className="cursor-pointer" data-testid="link-account">
+                <UserCircle className="mr-2 h-4 w-4" />
+                Account
+              </Link>
+            </DropdownMenuItem>
             <DropdownMenuItem asChild>
               <Link href="/settings" className="cursor-pointer" data-testid="link-settings">
                 <Settings className="mr-2 h-4 w-4" />
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { passwordPolicyErrors, type PasswordPolicy } from "@shared/schema";
+
+export function usePasswordPolicy() {
+  return useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+}
+
+// Lists every requirement of the policy and ticks off the ones the password meets
+export function PasswordRequirements({ policy, password }: { policy: PasswordPolicy; password: string }) {
+  const all = passwordPolicyErrors("", policy);
+  const unmet = new Set(passwordPolicyErrors(password, policy));
+
+  return (
+    <ul className="space-y-1 text-xs" data-testid="list-password-requirements">
+      {all.map((requirement) => {
+        const met = !unmet.has(requirement);
+        return (
+          <li
+            key={requirement}
+            className={`flex items-center gap-2 ${met ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}
+          >
+            {met ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+            {requirement}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
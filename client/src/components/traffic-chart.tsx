@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Activity, AlertTriangle } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { AggregatePeriodType, AnalyticsRange, AnalyticsTimeseries } from "@shared/schema";
+
+export const analyticsRangeLabels: Record<AnalyticsRange, string> = {
+  "1h": "Last hour",
+  "6h": "Last 6 hours",
+  "24h": "Last 24 hours",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+};
+
+// Traffic per time bucket from the analytics aggregates; without a tenant it covers every visible tenant
+export function useTrafficTimeseries(range: AnalyticsRange, tenantId?: string, granularity?: AggregatePeriodType) {
+  const params = new URLSearchParams({ range });
+  if (tenantId) params.set("tenantId", tenantId);
+  if (granularity) params.set("granularity", granularity);
+  return useQuery<AnalyticsTimeseries>({
+    queryKey: [`/api/analytics/timeseries?${params.toString()}`],
+    // Aggregates gain a bucket every minute
+    staleTime: 60 * 1000,
+  });
+}
+
+const TICK_FORMATS: Record<AggregatePeriodType, string> = { minute: "HH:mm", hour: "HH:mm", day: "MMM d" };
+const TOOLTIP_FORMATS: Record<AggregatePeriodType, string> = { minute: "MMM d, HH:mm", hour: "MMM d, HH:00", day: "MMM d, yyyy" };
+
+export function TrafficChartError({ height = 280 }: { height?: number }) {
+  return (
+    <div
+      className="flex flex-col items-center justify-center text-center text-muted-foreground"
+      style={{ height }}
+      data-testid="chart-traffic-error"
+    >
+      <AlertTriangle className="h-12 w-12 mb-4 opacity-50" />
+      <p>Traffic data could not be loaded</p>
+      <p className="text-sm mt-1">Try again in a moment</p>
+    </div>
+  );
+}
+
+export function TrafficChart({ series, height = 280 }: { series: AnalyticsTimeseries; height?: number }) {
+  if (series.totals.totalRequests === 0) {
+    return (
+      <div
+        className="flex flex-col items-center justify-center text-center text-muted-foreground"
+        style={{ height }}
+        data-testid="chart-traffic-empty"
+      >
+        <Activity className="h-12 w-12 mb-4 opacity-50" />
+        <p>No traffic in this period</p>
+        <p className="text-sm mt-1">Requests appear here within a minute of arriving</p>
+      </div>
+    );
+  }
+
+  const points = series.points.map((point) => ({ ...point, time: new Date(point.periodStart).getTime() }));
+  return (
+    <div style={{ height }} data-testid="chart-traffic">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) => format(time, TICK_FORMATS[series.granularity])}
+            tick={{ fontSize: 12 }}
+            className="fill-muted-foreground"
+          />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={40} className="fill-muted-foreground" />
+          <Tooltip
+            labelFormatter={(time) => format(Number(time), TOOLTIP_FORMATS[series.granularity])}
+            contentStyle={{
+              backgroundColor: "hsl(var(--popover))",
+              borderColor: "hsl(var(--border))",
+              color: "hsl(var(--popover-foreground))",
+              fontSize: 12,
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line type="monotone" dataKey="totalRequests" name="Total" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="blockedRequests" name="Blocked" stroke="hsl(var(--chart-4))" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="monitoredRequests" name="Monitored" stroke="hsl(var(--chart-3))" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
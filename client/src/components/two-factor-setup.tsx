@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, Download, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+
+interface SetupDetails {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export function OtpCodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus data-testid="input-otp">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once after enrolling or regenerating; the server only keeps hashes
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`WAF Admin recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "waf-admin-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/40 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            navigator.clipboard.writeText(text);
+            toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+          }}
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Enrollment: scan the QR code, confirm with a code, then save the recovery codes
+export function TwoFactorSetup({ onComplete }: { onComplete: () => void }) {
+  const [details, setDetails] = useState<SetupDetails | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<SetupDetails>;
+    },
+    onSuccess: (data) => {
+      setDetails(data);
+      setCode("");
+      setError(null);
+    },
+    onError: (err: Error) => setError(parseApiError(err).message),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+    onError: (err: Error) => {
+      setCode("");
+      setError(parseApiError(err).message);
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button onClick={onComplete} className="w-full" data-testid="button-2fa-done">
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 text-sm text-muted-foreground">
+          <Smartphone className="h-5 w-5 mt-0.5 flex-shrink-0 text-primary" />
+          <p>
+            You will need an authenticator app such as Google Authenticator, 1Password or Authy.
+            After setup, signing in asks for a 6-digit code from the app.
+          </p>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          className="w-full"
+          data-testid="button-2fa-begin"
+        >
+          {setupMutation.isPending ? "Preparing..." : "Set up authenticator"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        enableMutation.mutate();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img
+          src={details.qrCodeDataUrl}
+          alt="Authenticator QR code"
+          className="h-44 w-44 rounded-md border bg-white p-1"
+          data-testid="img-2fa-qr"
+        />
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <code className="block break-all font-mono text-sm" data-testid="text-2fa-secret">
+          {details.secret.match(/.{1,4}/g)?.join(" ")}
+        </code>
+      </div>
+      <div className="flex justify-center">
+        <OtpCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} />
+      </div>
+      {error && <p className="text-sm text-destructive text-center" data-testid="text-2fa-error">{error}</p>}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={code.length !== 6 || enableMutation.isPending}
+        data-testid="button-2fa-enable"
+      >
+        {enableMutation.isPending ? "Verifying..." : "Verify and enable"}
+      </Button>
+    </form>
+  );
+}
@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
 
+// Set when the user's role requires 2FA and they have not enrolled yet
+export type AuthUser = User & { twoFactorEnrollmentRequired?: boolean };
+
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User>({
+  const { data: user, isLoading, error } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -0,0 +1,62 @@
+import { useCallback, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import type { RequestPage } from "@shared/schema";
+
+export type RequestFilters = Record<string, string | undefined>;
+
+export interface RequestQueryError {
+  message: string;
+  // Character offset of a query syntax error
+  position?: number;
+}
+
+// The API answers bad queries with { message, position }
+function toQueryError(error: Error): RequestQueryError {
+  const { message, position } = parseApiError(error);
+  return { message, position: typeof position === "number" ? position : undefined };
+}
+
+// Pages through /api/requests with server-side filters. Attach sentinelRef to an element
+// below the table; the next page loads when it scrolls into view.
+export function useRequestPages(filters: RequestFilters) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/requests", filters],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/requests?${params}`);
+      return res.json() as Promise<RequestPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  const sentinelRef = useCallback((node: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    if (!node) return;
+
+    observerRef.current = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+    observerRef.current.observe(node);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    requests: query.data?.pages.flatMap((page) => page.items) ?? [],
+    isLoading: query.isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    error: query.error ? toQueryError(query.error) : null,
+    refetch: query.refetch,
+    sentinelRef,
+  };
+}
@@ -7,6 +7,23 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export interface ApiErrorBody {
+  message: string;
+  [key: string]: any;
+}
+
+// apiRequest errors read "<status>: <body>"; recover the JSON body the API sent
+export function parseApiError(error: Error): ApiErrorBody {
+  const body = error.message.match(/^\d+: ([\s\S]*)$/)?.[1];
+  try {
+    const parsed = JSON.parse(body ?? "");
+    if (typeof parsed?.message === "string") return parsed;
+  } catch {
+    // Not a JSON error body
+  }
+  return { message: body || error.message };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
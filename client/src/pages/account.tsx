@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { KeyRound, UserCircle, ShieldCheck, MonitorSmartphone } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PasswordRequirements, usePasswordPolicy } from "@/components/password-requirements";
+import { RecoveryCodesList, TwoFactorSetup } from "@/components/two-factor-setup";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { getUserDisplayName } from "@/lib/authUtils";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import { passwordPolicyErrors, type SessionInfo } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+export default function Account() {
+  const { user } = useAuth();
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">
+          Account
+        </h1>
+        <p className="text-muted-foreground text-sm mt-1">
+          Manage your sign-in details
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserCircle className="h-5 w-5" />
+            Profile
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2 text-sm">
+          <div>
+            <p className="text-muted-foreground">Name</p>
+            <p className="font-medium">{getUserDisplayName(user)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Email</p>
+            <p className="font-medium">{user?.email}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Role</p>
+            <Badge variant="outline" className="mt-1">{user?.role}</Badge>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ChangePasswordCard />
+      <TwoFactorCard />
+      <SessionsCard />
+    </div>
+  );
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type PasswordAction = "disable" | "recovery-codes";
+
+function TwoFactorCard() {
+  const { toast } = useToast();
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const closePasswordDialog = () => {
+    setPasswordAction(null);
+    setPassword("");
+    setError(null);
+  };
+
+  const passwordMutation = useMutation({
+    mutationFn: async (action: PasswordAction) => {
+      const res = await apiRequest("POST", `/api/auth/2fa/${action}`, { password });
+      return res.json() as Promise<{ recoveryCodes?: string[] }>;
+    },
+    onSuccess: (data, action) => {
+      refresh();
+      closePasswordDialog();
+      if (action === "disable") {
+        toast({
+          title: "Two-factor authentication disabled",
+          description: "Signing in now only needs your password.",
+        });
+      } else if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+      }
+    },
+    onError: (err: Error) => setError(parseApiError(err).message),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="outline" className="ml-1">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status?.enabled
+            ? `Enabled ${status.enabledAt ? formatDistanceToNow(new Date(status.enabledAt), { addSuffix: true }) : ""}. ${status.recoveryCodesRemaining} recovery codes left.`
+            : "Require a code from an authenticator app in addition to your password."}
+          {status?.required && " Required for your role."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {isLoading ? null : status?.enabled ? (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => setPasswordAction("recovery-codes")}
+              data-testid="button-regenerate-recovery-codes"
+            >
+              New recovery codes
+            </Button>
+            {!status.required && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => setPasswordAction("disable")}
+                data-testid="button-disable-2fa"
+              >
+                Disable
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button onClick={() => setSetupOpen(true)} data-testid="button-setup-2fa">
+            Set up two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={setupOpen} onOpenChange={setSetupOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set up two-factor authentication</DialogTitle>
+          </DialogHeader>
+          {setupOpen && (
+            <TwoFactorSetup
+              onComplete={() => {
+                setSetupOpen(false);
+                refresh();
+                toast({
+                  title: "Two-factor authentication enabled",
+                  description: "You will be asked for a code the next time you sign in.",
+                });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordAction} onOpenChange={(open) => !open && closePasswordDialog()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {passwordAction === "disable" ? "Disable two-factor authentication" : "Generate new recovery codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {passwordAction === "disable"
+                ? "Enter your password to turn off two-factor authentication."
+                : "Enter your password. Your current recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (passwordAction) passwordMutation.mutate(passwordAction);
+            }}
+            className="space-y-4"
+          >
+            <Input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              data-testid="input-confirm-2fa-password"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closePasswordDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={passwordAction === "disable" ? "destructive" : "default"}
+                disabled={!password || passwordMutation.isPending}
+                data-testid="button-confirm-2fa-password"
+              >
+                {passwordAction === "disable" ? "Disable" : "Generate"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New recovery codes</DialogTitle>
+          </DialogHeader>
+          {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+          <DialogFooter>
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function ChangePasswordCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: policy } = usePasswordPolicy();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPassword = !!user?.passwordSetAt;
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/password", {
+        currentPassword: hasPassword ? currentPassword : undefined,
+        newPassword,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirm("");
+      setError(null);
+      toast({
+        title: "Password changed",
+        description: "Your other sessions have been signed out.",
+      });
+    },
+    onError: (err: Error) => {
+      const body = parseApiError(err);
+      setError(err.message.startsWith("429:") ? "Too many attempts. Please wait a minute and try again." : body.message);
+    },
+  });
+
+  const unmet = policy ? passwordPolicyErrors(newPassword, policy) : [];
+  const canSubmit = !!policy &&
+    (!hasPassword || currentPassword.length > 0) &&
+    newPassword.length > 0 &&
+    unmet.length === 0 &&
+    confirm === newPassword;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password
+        </CardTitle>
+        <CardDescription>
+          {user?.passwordSetAt
+            ? `Last changed ${formatDistanceToNow(new Date(user.passwordSetAt), { addSuffix: true })}.`
+            : "You have not set a password yet."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            changeMutation.mutate();
+          }}
+          className="space-y-4 max-w-sm"
+        >
+          <input type="email" value={user?.email ?? ""} autoComplete="username" readOnly hidden />
+          {hasPassword && (
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                data-testid="input-current-password"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              data-testid="input-new-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              data-testid="input-confirm-password"
+            />
+            {confirm.length > 0 && confirm !== newPassword && (
+              <p className="text-xs text-destructive">Passwords do not match</p>
+            )}
+          </div>
+
+          {policy && <PasswordRequirements policy={policy} password={newPassword} />}
+          {error && <p className="text-sm text-destructive" data-testid="text-password-error">{error}</p>}
+
+          <Button type="submit" disabled={!canSubmit || changeMutation.isPending} data-testid="button-change-password">
+            {changeMutation.isPending ? "Saving..." : "Change password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// "Chrome on macOS" from a user agent string; good enough to tell your own devices apart
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    /curl\//.test(userAgent) ? "curl" :
+    "Unknown browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: parseApiError(err).message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/sessions/revoke-others");
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Other sessions signed out",
+        description: `${data.revoked} session${data.revoked === 1 ? "" : "s"} ended.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: parseApiError(err).message, variant: "destructive" });
+    },
+  });
+
+  const others = sessions?.filter((s) => !s.current) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Sign out any you do not recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <>
+            <div className="divide-y rounded-md border">
+              {sessions?.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4 p-3"
+                  data-testid={`session-${session.id}`}
+                >
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium flex items-center gap-2">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && <Badge variant="outline">This device</Badge>}
+                    </p>
+                    <p className="text-muted-foreground truncate">
+                      {session.ipAddress ?? "Unknown IP"}
+                      {" · "}
+                      {session.current
+                        ? "Active now"
+                        : session.lastSeenAt
+                          ? `Last seen ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`
+                          : "Never used"}
+                      {session.createdAt &&
+                        ` · Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {others.length > 0 && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => revokeOthersMutation.mutate()}
+                disabled={revokeOthersMutation.isPending}
+                data-testid="button-revoke-other-sessions"
+              >
+                Sign out all other sessions
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
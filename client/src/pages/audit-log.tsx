@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ScrollText,
+  Search,
+  ShieldCheck,
+  ShieldAlert,
+  Download,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { parseApiError } from "@/lib/queryClient";
+import { auditTargetTypes, type AuditChainStatus, type AuditLog, type AuditLogPage } from "@shared/schema";
+import { format } from "date-fns";
+
+const PAGE_SIZE = 50;
+
+function targetTypeLabel(type: string): string {
+  return type.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (value === null) return "null";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function AuditLogPage() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [targetFilter, setTargetFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLog | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    setOffset(0);
+  }, [debouncedSearch, targetFilter, fromDate, toDate]);
+
+  // Shared by the page query and the export links; dates cover whole days in local time
+  const filterParams = new URLSearchParams();
+  if (debouncedSearch) filterParams.set("search", debouncedSearch);
+  if (targetFilter !== "all") filterParams.set("targetType", targetFilter);
+  if (fromDate) filterParams.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) filterParams.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+  const pageParams = new URLSearchParams(filterParams);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(offset));
+
+  const { data, isLoading } = useQuery<AuditLogPage>({
+    queryKey: [`/api/audit-log?${pageParams.toString()}`],
+    staleTime: 0,
+  });
+
+  const {
+    data: chainStatus,
+    isFetching: isVerifying,
+    refetch: verifyChain,
+  } = useQuery<AuditChainStatus>({
+    queryKey: ["/api/audit-log/verify"],
+    enabled: false,
+    staleTime: 0,
+  });
+
+  const handleVerify = async () => {
+    const result = await verifyChain();
+    if (result.error) {
+      toast({ title: "Error", description: parseApiError(result.error).message, variant: "destructive" });
+    }
+  };
+
+  const exportUrl = (fileFormat: "csv" | "json") => {
+    const params = new URLSearchParams(filterParams);
+    params.set("format", fileFormat);
+    return `/api/audit-log/export?${params.toString()}`;
+  };
+
+  const total = data?.total ?? 0;
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">
+            Audit Log
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Every administrative change, who made it and from where
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild data-testid="button-export-csv">
+            <a href={exportUrl("csv")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-export-json">
+            <a href={exportUrl("json")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Chain Integrity */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              {chainStatus && !chainStatus.valid ? (
+                <ShieldAlert className="h-5 w-5 text-destructive" />
+              ) : (
+                <ShieldCheck className="h-5 w-5" />
+              )}
+              Chain Integrity
+            </CardTitle>
+            <CardDescription>
+              Each entry includes a hash of the one before it, so any edited or removed entry breaks the chain.
+            </CardDescription>
+          </div>
+          <Button onClick={handleVerify} disabled={isVerifying} data-testid="button-verify-chain">
+            {isVerifying ? "Verifying..." : "Verify Chain"}
+          </Button>
+        </CardHeader>
+        {chainStatus && (
+          <CardContent className="space-y-2 text-sm" data-testid="chain-status">
+            {chainStatus.valid ? (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="bg-green-500/20 text-green-600 dark:text-green-400 border-green-500/30">
+                  Intact
+                </Badge>
+                <span className="text-muted-foreground">
+                  All {chainStatus.checked} entries match their hashes.
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Badge variant="destructive">Broken</Badge>
+                <span>
+                  {chainStatus.reason}. The {chainStatus.checked} entries before it are intact.
+                </span>
+              </div>
+            )}
+            {chainStatus.headHash && (
+              <p className="text-xs text-muted-foreground">
+                Last verified entry #{chainStatus.headSequence}:{" "}
+                <span className="font-mono break-all">{chainStatus.headHash}</span>
+                . Compare with the same entry in an earlier export to confirm nothing was removed from the end.
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by actor email, action or target ID..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+            data-testid="input-search"
+          />
+        </div>
+        <Select value={targetFilter} onValueChange={setTargetFilter}>
+          <SelectTrigger className="w-full lg:w-[170px]" data-testid="select-target-type">
+            <SelectValue placeholder="All Targets" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Targets</SelectItem>
+            {auditTargetTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {targetTypeLabel(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="w-full lg:w-[160px]"
+          aria-label="From date"
+          data-testid="input-from-date"
+        />
+        <Input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          className="w-full lg:w-[160px]"
+          aria-label="To date"
+          data-testid="input-to-date"
+        />
+      </div>
+
+      {/* Entries */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[70px]">#</TableHead>
+                  <TableHead className="w-[170px]">Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead className="w-[140px]">IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody data-testid="table-audit-log">
+                {isLoading ? (
+                  Array(8)
+                    .fill(0)
+                    .map((_, i) => (
+                      <TableRow key={i}>
+                        {Array(6)
+                          .fill(0)
+                          .map((_, j) => (
+                            <TableCell key={j}>
+                              <Skeleton className="h-4 w-full" />
+                            </TableCell>
+                          ))}
+                      </TableRow>
+                    ))
+                ) : entries.length > 0 ? (
+                  entries.map((entry) => (
+                    <TableRow
+                      key={entry.id}
+                      className="cursor-pointer hover-elevate"
+                      onClick={() => setSelectedEntry(entry)}
+                      data-testid={`audit-row-${entry.sequence}`}
+                    >
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {entry.sequence}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.actorEmail || <span className="text-muted-foreground">System</span>}
+                        {entry.apiTokenId && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            API token
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="font-mono text-xs">
+                          {entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-muted-foreground">{targetTypeLabel(entry.targetType)}</span>
+                        {entry.targetId && (
+                          <span className="font-mono text-xs ml-2">{entry.targetId}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {entry.ipAddress || "N/A"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-48 text-center">
+                      <div className="flex flex-col items-center justify-center text-muted-foreground">
+                        <ScrollText className="h-12 w-12 mb-4 opacity-50" />
+                        <p className="text-lg font-medium">No audit entries found</p>
+                        <p className="text-sm mt-1">Adjust your search or filters</p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 0 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Showing {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              data-testid="button-previous-page"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Newer
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              data-testid="button-next-page"
+            >
+              Older
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Entry Detail Dialog */}
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selectedEntry?.action}</DialogTitle>
+            <DialogDescription>
+              Entry #{selectedEntry?.sequence} by {selectedEntry?.actorEmail || "System"}
+              {selectedEntry && ` on ${format(new Date(selectedEntry.createdAt), "MMM d, yyyy HH:mm:ss")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-4 text-sm">
+                <div className="grid grid-cols-[120px_1fr] gap-y-1">
+                  <span className="text-muted-foreground">Target</span>
+                  <span>
+                    {targetTypeLabel(selectedEntry.targetType)}
+                    {selectedEntry.targetId && <span className="font-mono text-xs ml-2">{selectedEntry.targetId}</span>}
+                  </span>
+                  <span className="text-muted-foreground">IP Address</span>
+                  <span className="font-mono text-xs">{selectedEntry.ipAddress || "N/A"}</span>
+                  <span className="text-muted-foreground">User Agent</span>
+                  <span className="text-xs break-all">{selectedEntry.userAgent || "N/A"}</span>
+                  {selectedEntry.apiTokenId && (
+                    <>
+                      <span className="text-muted-foreground">API Token</span>
+                      <span className="font-mono text-xs">{selectedEntry.apiTokenId}</span>
+                    </>
+                  )}
+                  <span className="text-muted-foreground">Hash</span>
+                  <span className="font-mono text-xs break-all">{selectedEntry.hash}</span>
+                </div>
+
+                {selectedEntry.changes && Object.keys(selectedEntry.changes).length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(selectedEntry.changes).map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-mono text-xs">{field}</TableCell>
+                          <TableCell className="font-mono text-xs break-all text-red-600 dark:text-red-400">
+                            {formatValue(change.before)}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs break-all text-green-600 dark:text-green-400">
+                            {formatValue(change.after)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-muted-foreground">No field changes were recorded for this action.</p>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
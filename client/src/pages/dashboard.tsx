@@ -7,6 +7,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
+import { TrafficChart, TrafficChartError, useTrafficTimeseries } from "@/components/traffic-chart";
 import type { Tenant, Alert, DashboardStats } from "@shared/schema";
 import {
   LineChart,
@@ -30,6 +31,8 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: traffic, isLoading: trafficLoading, isError: trafficError } = useTrafficTimeseries("24h");
+
   const { data: tenants, isLoading: tenantsLoading } = useQuery<Tenant[]>({
     queryKey: ["/api/tenants"],
   });
@@ -116,16 +119,12 @@ export default function Dashboard() {
             </div>
           </CardHeader>
           <CardContent>
-            {statsLoading ? (
+            {trafficLoading ? (
               <Skeleton className="h-[280px] w-full" />
+            ) : trafficError || !traffic ? (
+              <TrafficChartError />
             ) : (
-              <div className="h-[280px]" data-testid="chart-traffic">
-                <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
-                  <Activity className="h-12 w-12 mb-4 opacity-50" />
-                  <p>Real-time traffic data</p>
-                  <p className="text-sm mt-1">Aggregate metrics shown above</p>
-                </div>
-              </div>
+              <TrafficChart series={traffic} />
             )}
           </CardContent>
         </Card>
@@ -49,7 +49,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { EnforcementBadge } from "@/components/ui/status-badge";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Policy, Tenant } from "@shared/schema";
+import { defaultScoreWeights, type Policy, type ScoreWeights, type Tenant } from "@shared/schema";
 
 export default function Policies() {
   const { toast } = useToast();
@@ -240,7 +240,9 @@ export default function Policies() {
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Rate Limit</span>
                   <span className="font-medium">
-                    {policy.rateLimit} req/{policy.rateLimitWindow}s
+                    {policy.rateLimit
+                      ? `${policy.rateLimit} req/${policy.rateLimitWindow}s · ${policy.rateLimitAction === "block" ? "block" : "challenge"}`
+                      : "Off"}
                   </span>
                 </div>
 
@@ -274,7 +276,7 @@ export default function Policies() {
 
       {/* Edit Policy Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Policy</DialogTitle>
             <DialogDescription>
@@ -297,6 +299,15 @@ export default function Policies() {
   );
 }
 
+const scoreWeightLabels: { key: keyof ScoreWeights; label: string }[] = [
+  { key: "rules", label: "Rule Matches" },
+  { key: "ipReputation", label: "IP Reputation" },
+  { key: "rate", label: "Rate Anomaly" },
+  { key: "header", label: "Header Anomaly" },
+  { key: "path", label: "Path Anomaly" },
+  { key: "body", label: "Body Anomaly" },
+];
+
 interface PolicyEditFormProps {
   policy: Policy;
   onSave: (data: Partial<Policy>) => void;
@@ -310,8 +321,10 @@ function PolicyEditForm({ policy, onSave, isPending, onClose }: PolicyEditFormPr
     blockThreshold: policy.blockThreshold || 70,
     challengeThreshold: policy.challengeThreshold || 50,
     monitorThreshold: policy.monitorThreshold || 30,
-    rateLimit: policy.rateLimit || 100,
+    rateLimit: policy.rateLimit ?? 100,
     rateLimitWindow: policy.rateLimitWindow || 60,
+    rateLimitAction: policy.rateLimitAction || "challenge",
+    scoreWeights: { ...defaultScoreWeights, ...policy.scoreWeights },
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -397,9 +410,12 @@ function PolicyEditForm({ policy, onSave, isPending, onClose }: PolicyEditFormPr
               onChange={(e) =>
                 setFormData({ ...formData, rateLimit: parseInt(e.target.value) })
               }
-              min={1}
+              min={0}
               data-testid="input-rate-limit"
             />
+            <p className="text-xs text-muted-foreground">
+              Requests per client IP; 0 disables rate limiting
+            </p>
           </div>
           <div className="space-y-2">
             <label className="text-sm font-medium">Window (seconds)</label>
@@ -417,6 +433,55 @@ function PolicyEditForm({ policy, onSave, isPending, onClose }: PolicyEditFormPr
             />
           </div>
         </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Over-limit Action</label>
+          <Select
+            value={formData.rateLimitAction}
+            onValueChange={(value) =>
+              setFormData({ ...formData, rateLimitAction: value as "challenge" | "block" })
+            }
+          >
+            <SelectTrigger data-testid="select-rate-limit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="challenge">Challenge</SelectItem>
+              <SelectItem value="block">Block</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Applied to clients that exceed the rate limit within the window
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="text-sm font-medium">Score Weights</label>
+            <p className="text-xs text-muted-foreground">
+              The total score is the rule score and each anomaly score (0-100) multiplied by its weight, capped at 100.
+              A weight of 0 turns that signal off.
+            </p>
+          </div>
+          {scoreWeightLabels.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm">{label}</span>
+                <span className="text-sm text-muted-foreground">×{formData.scoreWeights[key].toFixed(1)}</span>
+              </div>
+              <Slider
+                value={[formData.scoreWeights[key]]}
+                onValueChange={([value]) =>
+                  setFormData({ ...formData, scoreWeights: { ...formData.scoreWeights, [key]: value } })
+                }
+                min={0}
+                max={2}
+                step={0.1}
+                data-testid={`slider-weight-${key}`}
+              />
+            </div>
+          ))}
+        </div>
       </div>
 
       <DialogFooter>
@@ -37,7 +37,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { canOperateActions } from "@/lib/authUtils";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { RequestWithAnalysis, Tenant, Override } from "@shared/schema";
+import type { RequestWithAnalysis, ScoreWeights, Tenant, Override } from "@shared/schema";
 
 export default function RequestDetail() {
   const params = useParams<{ id: string }>();
@@ -47,6 +47,8 @@ export default function RequestDetail() {
   const [overrideDialogOpen, setOverrideDialogOpen] = useState(false);
   const [overrideAction, setOverrideAction] = useState<"allow" | "deny">("allow");
   const [overrideReason, setOverrideReason] = useState("");
+  const [overrideScope, setOverrideScope] = useState<Override["overrideType"]>("request");
+  const [overrideRuleId, setOverrideRuleId] = useState("");
   const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
   const [ruleName, setRuleName] = useState("");
   const [ruleCategory, setRuleCategory] = useState("custom");
@@ -64,17 +66,23 @@ export default function RequestDetail() {
   });
 
   const overrideMutation = useMutation({
-    mutationFn: async (data: { action: string; reason: string }) => {
+    mutationFn: async (data: { overrideType: string; action: string; reason: string; ruleId?: string }) => {
       await apiRequest("POST", `/api/requests/${params.id}/override`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/requests", params.id] });
       toast({
         title: "Override applied",
-        description: `Request has been marked as ${overrideAction}.`,
+        description: overrideScope === "ip"
+          ? `Future requests from ${request?.clientIp} will be handled as ${overrideAction}.`
+          : overrideScope === "rule"
+          ? `Future matches of this rule will be handled as ${overrideAction}.`
+          : `Request has been marked as ${overrideAction}.`,
       });
       setOverrideDialogOpen(false);
       setOverrideReason("");
+      setOverrideScope("request");
+      setOverrideRuleId("");
     },
     onError: () => {
       toast({
@@ -148,7 +156,12 @@ export default function RequestDetail() {
   });
 
   const handleOverride = () => {
-    overrideMutation.mutate({ action: overrideAction, reason: overrideReason });
+    overrideMutation.mutate({
+      overrideType: overrideScope,
+      action: overrideAction,
+      reason: overrideReason,
+      ...(overrideScope === "rule" && { ruleId: overrideRuleId }),
+    });
   };
 
   const copyToClipboard = (text: string) => {
@@ -183,14 +196,34 @@ export default function RequestDetail() {
     );
   }
 
+  // Requests scored before the anomaly detectors existed have no weights or findings
+  const breakdownDetails: any = request.analysis?.breakdownJson ?? {};
+  const weights: Partial<ScoreWeights> = breakdownDetails.scoreWeights ?? {};
+  const weighted = (name: string, weight?: number) =>
+    weight === undefined ? name : `${name} (×${weight.toFixed(1)})`;
+  const anomalyFindings: { component: string; score: number; detail: string }[] =
+    Array.isArray(breakdownDetails.anomalies) ? breakdownDetails.anomalies : [];
+
   const analysisBreakdown = [
-    { name: "IP Reputation", score: request.analysis?.ipReputationScore || 0 },
-    { name: "Rate Anomaly", score: request.analysis?.rateAnomalyScore || 0 },
-    { name: "Header Anomaly", score: request.analysis?.headerAnomalyScore || 0 },
-    { name: "Path Anomaly", score: request.analysis?.pathAnomalyScore || 0 },
-    { name: "Body Anomaly", score: request.analysis?.bodyAnomalyScore || 0 },
+    ...(breakdownDetails.ruleScore !== undefined
+      ? [{ name: weighted("Rule Matches", weights.rules), score: Math.min(100, breakdownDetails.ruleScore) }]
+      : []),
+    { name: weighted("IP Reputation", weights.ipReputation), score: request.analysis?.ipReputationScore || 0 },
+    { name: weighted("Rate Anomaly", weights.rate), score: request.analysis?.rateAnomalyScore || 0 },
+    { name: weighted("Header Anomaly", weights.header), score: request.analysis?.headerAnomalyScore || 0 },
+    { name: weighted("Path Anomaly", weights.path), score: request.analysis?.pathAnomalyScore || 0 },
+    { name: weighted("Body Anomaly", weights.body), score: request.analysis?.bodyAnomalyScore || 0 },
   ];
 
+  const wafHits: any[] = Array.isArray(request.wafHitsJson) ? request.wafHitsJson : [];
+
+  const overrideTargetLabel = (override: Override) =>
+    override.overrideType === "ip"
+      ? `Client IP ${override.targetId}`
+      : override.overrideType === "rule"
+      ? `Rule ${wafHits.find((hit) => hit.ruleId === override.targetId)?.ruleName || override.targetId}`
+      : "This request";
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -341,7 +374,7 @@ export default function RequestDetail() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {(Array.isArray(request.wafHitsJson) ? request.wafHitsJson : []).map((hit: any, index: number) => (
+                      {wafHits.map((hit: any, index: number) => (
                         <div
                           key={index}
                           className="flex items-center justify-between p-3 rounded-lg bg-muted"
@@ -354,7 +387,11 @@ export default function RequestDetail() {
                           </div>
                           <div className="flex items-center gap-2">
                             <SeverityBadge severity={hit.severity || "medium"} />
-                            <Badge variant="outline">+{hit.score}</Badge>
+                            {hit.forcedAction ? (
+                              <Badge variant="outline">Overridden: {hit.forcedAction}</Badge>
+                            ) : (
+                              <Badge variant="outline">+{hit.score}</Badge>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -466,6 +503,23 @@ export default function RequestDetail() {
 
                   <ScoreBreakdown breakdown={analysisBreakdown} />
 
+                  {anomalyFindings.length > 0 && (
+                    <>
+                      <Separator className="my-6" />
+                      <div>
+                        <h4 className="text-sm font-medium mb-2">Anomalies Detected</h4>
+                        <ul className="space-y-1" data-testid="list-anomaly-findings">
+                          {anomalyFindings.map((finding, index) => (
+                            <li key={index} className="flex items-center justify-between gap-4 text-sm">
+                              <span className="text-muted-foreground">{finding.detail}</span>
+                              <Badge variant="outline" className="shrink-0">+{finding.score}</Badge>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </>
+                  )}
+
                   {request.analysis?.explanationText && (
                     <>
                       <Separator className="my-6" />
@@ -494,7 +548,7 @@ export default function RequestDetail() {
                 variant="outline" 
                 className="w-full justify-start" 
                 data-testid="button-whitelist-ip"
-                onClick={() => whitelistMutation.mutate()}
+                onClick={() => whitelistMutation.mutate(undefined)}
                 disabled={whitelistMutation.isPending}
               >
                 <CheckCircle className="h-4 w-4 mr-2" />
@@ -504,7 +558,7 @@ export default function RequestDetail() {
                 variant="outline" 
                 className="w-full justify-start" 
                 data-testid="button-blacklist-ip"
-                onClick={() => blacklistMutation.mutate()}
+                onClick={() => blacklistMutation.mutate(undefined)}
                 disabled={blacklistMutation.isPending}
               >
                 <XCircle className="h-4 w-4 mr-2" />
@@ -541,6 +595,36 @@ export default function RequestDetail() {
               </div>
             </CardContent>
           </Card>
+
+          {request.overrides && request.overrides.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Applied Overrides</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {request.overrides.map((override) => (
+                  <div
+                    key={override.id}
+                    className="p-3 rounded-lg bg-muted space-y-1"
+                    data-testid={`override-${override.id}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{overrideTargetLabel(override)}</span>
+                      <StatusBadge status={override.action} />
+                    </div>
+                    {override.reason && (
+                      <p className="text-xs text-muted-foreground">{override.reason}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {override.createdAt ? new Date(override.createdAt).toLocaleString() : ""}
+                      {override.expiresAt && ` · expires ${new Date(override.expiresAt).toLocaleString()}`}
+                      {!override.isActive && " · inactive"}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
@@ -552,10 +636,50 @@ export default function RequestDetail() {
               {overrideAction === "allow" ? "Allow Request" : "Block Request"}
             </DialogTitle>
             <DialogDescription>
-              This will create a manual override for this request and similar future requests.
+              Override this request's decision, or apply the decision to future traffic.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="override-scope">Apply To</Label>
+              <select
+                id="override-scope"
+                className="w-full px-3 py-2 border border-input rounded-md text-sm"
+                value={overrideScope}
+                onChange={(e) => setOverrideScope(e.target.value as Override["overrideType"])}
+                data-testid="select-override-scope"
+              >
+                <option value="request">This request only</option>
+                {request.clientIp && (
+                  <option value="ip">All requests from {request.clientIp}</option>
+                )}
+                {wafHits.length > 0 && <option value="rule">A matched rule</option>}
+              </select>
+            </div>
+            {overrideScope === "rule" && (
+              <div className="space-y-2">
+                <Label htmlFor="override-rule">Rule</Label>
+                <select
+                  id="override-rule"
+                  className="w-full px-3 py-2 border border-input rounded-md text-sm"
+                  value={overrideRuleId}
+                  onChange={(e) => setOverrideRuleId(e.target.value)}
+                  data-testid="select-override-rule"
+                >
+                  <option value="">Select a rule</option>
+                  {wafHits.map((hit: any) => (
+                    <option key={hit.ruleId} value={hit.ruleId}>
+                      {hit.ruleName}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  {overrideAction === "allow"
+                    ? "The rule will be disabled for this tenant."
+                    : "Matches of this rule will be denied for this tenant."}
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               <Label>Reason (optional)</Label>
               <Textarea
@@ -572,7 +696,7 @@ export default function RequestDetail() {
             </Button>
             <Button
               onClick={handleOverride}
-              disabled={overrideMutation.isPending}
+              disabled={overrideMutation.isPending || (overrideScope === "rule" && !overrideRuleId)}
               variant={overrideAction === "deny" ? "destructive" : "default"}
               data-testid="button-confirm-override"
             >
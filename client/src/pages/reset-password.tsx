@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Shield, AlertCircle, CheckCircle, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasswordRequirements, usePasswordPolicy } from "@/components/password-requirements";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { passwordPolicyErrors } from "@shared/schema";
+
+interface ResetLinkInfo {
+  email: string;
+  firstName: string | null;
+  mode: "set" | "reset";
+}
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<{ message: string; errors?: string[] } | null>(null);
+
+  const { data: policy } = usePasswordPolicy();
+
+  const { data: link, isLoading, error: linkError } = useQuery<ResetLinkInfo>({
+    queryKey: ["/api/auth/reset-password", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password });
+    },
+    onError: (err: Error) => {
+      const body = parseApiError(err);
+      setError({
+        message: body.message,
+        errors: Array.isArray(body.errors) && body.errors.every((e: unknown) => typeof e === "string") ? body.errors : undefined,
+      });
+    },
+  });
+
+  const unmet = policy ? passwordPolicyErrors(password, policy) : [];
+  const mismatch = confirm.length > 0 && confirm !== password;
+  const canSubmit = !!policy && password.length > 0 && unmet.length === 0 && confirm === password;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    resetMutation.mutate();
+  };
+
+  const title = link?.mode === "reset" ? "Reset your password" : "Set your password";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="mb-8 flex flex-col items-center text-center">
+          <div className="flex h-14 w-14 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-primary/80 shadow-lg mb-4">
+            <Shield className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold">WAF Admin</h1>
+        </div>
+
+        <Card className="shadow-2xl border-0">
+          {!token || linkError ? (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <AlertCircle className="h-5 w-5 text-destructive" />
+                  Link not valid
+                </CardTitle>
+                <CardDescription>
+                  This password link is invalid or has expired. Ask an administrator for a new one.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button asChild variant="outline" className="w-full">
+                  <Link href="/sign-in">Back to sign in</Link>
+                </Button>
+              </CardContent>
+            </>
+          ) : isLoading || !link ? (
+            <CardContent className="space-y-4 p-6">
+              <Skeleton className="h-6 w-48" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </CardContent>
+          ) : resetMutation.isSuccess ? (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <CheckCircle className="h-5 w-5 text-green-500" />
+                  Password saved
+                </CardTitle>
+                <CardDescription>
+                  You can now sign in as {link.email} with your new password.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button asChild className="w-full" data-testid="button-go-sign-in">
+                  <Link href="/sign-in">Sign in</Link>
+                </Button>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  <KeyRound className="h-5 w-5 text-primary" />
+                  {title}
+                </CardTitle>
+                <CardDescription>
+                  Choose a password for {link.email}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {error && (
+                    <div className="flex items-start gap-3 p-3 bg-destructive/10 text-destructive rounded-lg text-sm border border-destructive/20">
+                      <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium">{error.message}</p>
+                        {error.errors && (
+                          <ul className="list-disc pl-4 mt-1 text-destructive/80">
+                            {error.errors.map((e) => <li key={e}>{e}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  <input type="email" value={link.email} autoComplete="username" readOnly hidden />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password">New password</Label>
+                    <Input
+                      id="new-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      data-testid="input-new-password"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="confirm-password">Confirm password</Label>
+                    <Input
+                      id="confirm-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={confirm}
+                      onChange={(e) => setConfirm(e.target.value)}
+                      data-testid="input-confirm-password"
+                    />
+                    {mismatch && <p className="text-xs text-destructive">Passwords do not match</p>}
+                  </div>
+
+                  {policy && <PasswordRequirements policy={policy} password={password} />}
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!canSubmit || resetMutation.isPending}
+                    data-testid="button-save-password"
+                  >
+                    {resetMutation.isPending ? "Saving..." : "Save password"}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ import {
   Download,
   Power,
   PowerOff,
+  ArrowUpDown,
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -55,6 +57,17 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { WafRule, Tenant } from "@shared/schema";
 
+const patternTypes = [
+  { value: "regex", label: "Regex", placeholder: "(?i)(union|select|insert|update|delete|drop)" },
+  { value: "exact", label: "Exact Match", placeholder: "/wp-login.php" },
+  { value: "contains", label: "Contains", placeholder: "sqlmap" },
+  { value: "prefix", label: "Starts With", placeholder: "/admin" },
+  { value: "suffix", label: "Ends With", placeholder: ".env" },
+  { value: "glob", label: "Glob", placeholder: "/api/*/debug" },
+  { value: "sqli", label: "SQL Injection Detector", placeholder: "" },
+  { value: "xss", label: "XSS Detector", placeholder: "" },
+];
+
 const ruleCategories = [
   { value: "all", label: "All Categories" },
   { value: "sql-injection", label: "SQL Injection" },
@@ -71,9 +84,18 @@ export default function Rules() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [tenantFilter, setTenantFilter] = useState("all");
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [sortBy, setSortBy] = useState<"name" | "hitCount" | "lastHitAt">("name");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("asc");
+
+  // Hit counts are per tenant when a single site is selected, totals otherwise
+  const hitsTenantId = tenantFilter !== "all" && tenantFilter !== "global" ? tenantFilter : undefined;
 
   const { data: rules, isLoading } = useQuery<WafRule[]>({
-    queryKey: ["/api/rules"],
+    queryKey: ["/api/rules", { tenantId: hitsTenantId }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", hitsTenantId ? `/api/rules?tenantId=${hitsTenantId}` : "/api/rules");
+      return res.json();
+    },
   });
 
   const { data: tenants } = useQuery<Tenant[]>({
@@ -131,8 +153,29 @@ export default function Rules() {
       rule.tenantId === tenantFilter ||
       rule.tenantId === null;
     return matchesSearch && matchesCategory && matchesTenant;
+  }).sort((a, b) => {
+    const direction = sortDir === "asc" ? 1 : -1;
+    if (sortBy === "hitCount") {
+      return ((a.hitCount || 0) - (b.hitCount || 0)) * direction;
+    }
+    if (sortBy === "lastHitAt") {
+      const aTime = a.lastHitAt ? new Date(a.lastHitAt).getTime() : 0;
+      const bTime = b.lastHitAt ? new Date(b.lastHitAt).getTime() : 0;
+      return (aTime - bTime) * direction;
+    }
+    return a.name.localeCompare(b.name) * direction;
   });
 
+  const toggleSort = (column: typeof sortBy) => {
+    if (sortBy === column) {
+      setSortDir(sortDir === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(column);
+      // Busiest and most recently hit rules first
+      setSortDir(column === "name" ? "asc" : "desc");
+    }
+  };
+
   const getTenantName = (tenantId: string | null) => {
     if (!tenantId) return "Global";
     const tenant = tenants?.find((t) => t.id === tenantId);
@@ -274,7 +317,30 @@ export default function Rules() {
                   <TableHead className="w-[120px]">Category</TableHead>
                   <TableHead className="w-[100px]">Severity</TableHead>
                   <TableHead className="w-[100px]">Score</TableHead>
-                  <TableHead className="w-[100px]">Hits</TableHead>
+                  <TableHead className="w-[100px]">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="-ml-3"
+                      onClick={() => toggleSort("hitCount")}
+                      data-testid="button-sort-hits"
+                    >
+                      Hits
+                      <ArrowUpDown className="h-3 w-3 ml-1" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="w-[120px]">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="-ml-3"
+                      onClick={() => toggleSort("lastHitAt")}
+                      data-testid="button-sort-last-hit"
+                    >
+                      Last Hit
+                      <ArrowUpDown className="h-3 w-3 ml-1" />
+                    </Button>
+                  </TableHead>
                   <TableHead className="w-[100px]">Scope</TableHead>
                   <TableHead className="w-[60px]">Actions</TableHead>
                 </TableRow>
@@ -285,7 +351,7 @@ export default function Rules() {
                     .fill(0)
                     .map((_, i) => (
                       <TableRow key={i}>
-                        {Array(8)
+                        {Array(9)
                           .fill(0)
                           .map((_, j) => (
                             <TableCell key={j}>
@@ -333,11 +399,22 @@ export default function Rules() {
                         <SeverityBadge severity={rule.severity || "medium"} />
                       </TableCell>
                       <TableCell className="font-mono text-sm">
-                        +{rule.score}
+                        {rule.forceAction ? (
+                          <Badge variant="outline" className="capitalize">
+                            {rule.action}
+                          </Badge>
+                        ) : (
+                          `+${rule.score}`
+                        )}
                       </TableCell>
                       <TableCell className="font-mono text-sm">
                         {rule.hitCount?.toLocaleString() || 0}
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {rule.lastHitAt
+                          ? formatDistanceToNow(new Date(rule.lastHitAt), { addSuffix: true })
+                          : "Never"}
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline">
                           {getTenantName(rule.tenantId)}
@@ -372,7 +449,7 @@ export default function Rules() {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="h-48 text-center">
+                    <TableCell colSpan={9} className="h-48 text-center">
                       <div className="flex flex-col items-center justify-center text-muted-foreground">
                         <Shield className="h-12 w-12 mb-4 opacity-50" />
                         <p className="text-lg font-medium">No rules found</p>
@@ -400,10 +477,16 @@ function CreateRuleForm({ onClose }: { onClose: () => void }) {
     category: "custom",
     severity: "medium",
     pattern: "",
+    patternType: "regex",
     targetField: "path",
     score: 10,
+    action: "deny",
+    forceAction: false,
   });
 
+  const selectedPatternType = patternTypes.find((t) => t.value === formData.patternType);
+  const isDetector = formData.patternType === "sqli" || formData.patternType === "xss";
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       await apiRequest("POST", "/api/rules", data);
@@ -427,7 +510,7 @@ function CreateRuleForm({ onClose }: { onClose: () => void }) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    createMutation.mutate(formData);
+    createMutation.mutate(isDetector ? { ...formData, pattern: "" } : formData);
   };
 
   return (
@@ -478,19 +561,44 @@ function CreateRuleForm({ onClose }: { onClose: () => void }) {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="pattern">Pattern (Regex)</Label>
-        <Textarea
-          id="pattern"
-          value={formData.pattern}
-          onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
-          placeholder="(?i)(union|select|insert|update|delete|drop)"
-          className="font-mono text-sm"
-          rows={3}
-          required
-          data-testid="input-rule-pattern"
-        />
+        <Label htmlFor="patternType">Pattern Type</Label>
+        <Select
+          value={formData.patternType}
+          onValueChange={(v) => setFormData({ ...formData, patternType: v })}
+        >
+          <SelectTrigger id="patternType" data-testid="select-rule-pattern-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {patternTypes.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
+      {isDetector ? (
+        <p className="text-sm text-muted-foreground">
+          The built-in detector inspects the target field; no pattern is needed.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="pattern">Pattern ({selectedPatternType?.label})</Label>
+          <Textarea
+            id="pattern"
+            value={formData.pattern}
+            onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+            placeholder={selectedPatternType?.placeholder}
+            className="font-mono text-sm"
+            rows={3}
+            required
+            data-testid="input-rule-pattern"
+          />
+        </div>
+      )}
+
       <div className="grid gap-4 sm:grid-cols-3">
         <div className="space-y-2">
           <Label htmlFor="targetField">Target Field</Label>
@@ -538,11 +646,41 @@ function CreateRuleForm({ onClose }: { onClose: () => void }) {
             onChange={(e) =>
               setFormData({ ...formData, score: parseInt(e.target.value) })
             }
+            disabled={formData.forceAction}
             data-testid="input-rule-score"
           />
         </div>
       </div>
 
+      <div className="flex items-center gap-4 p-4 rounded-lg border">
+        <div className="flex-1">
+          <p className="font-medium text-sm">Force Action</p>
+          <p className="text-sm text-muted-foreground">
+            Apply the selected action on match regardless of the total score
+          </p>
+        </div>
+        <Select
+          value={formData.action}
+          onValueChange={(v) => setFormData({ ...formData, action: v })}
+          disabled={!formData.forceAction}
+        >
+          <SelectTrigger className="w-[130px]" data-testid="select-rule-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="allow">Allow</SelectItem>
+            <SelectItem value="monitor">Monitor</SelectItem>
+            <SelectItem value="challenge">Challenge</SelectItem>
+            <SelectItem value="deny">Deny</SelectItem>
+          </SelectContent>
+        </Select>
+        <Switch
+          checked={formData.forceAction}
+          onCheckedChange={(checked) => setFormData({ ...formData, forceAction: checked })}
+          data-testid="switch-rule-force-action"
+        />
+      </div>
+
       <DialogFooter>
         <Button type="button" variant="outline" onClick={onClose}>
           Cancel
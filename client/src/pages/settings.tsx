@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Settings as SettingsIcon,
   Bell,
@@ -8,6 +8,14 @@ import {
   Globe,
   Webhook,
   Save,
+  Plus,
+  Trash2,
+  History,
+  Send,
+  RotateCcw,
+  KeyRound,
+  Copy,
+  LogIn,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,10 +33,45 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { canManagePolicies } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import {
+  apiTokenScopes,
+  webhookEvents,
+  webhookFormats,
+  defaultSettings,
+  type ApiTokenInfo,
+  type ApiTokenKind,
+  type ApiTokenScope,
+  type OidcRoleMapping,
+  type OidcTenantMapping,
+  type Settings as SettingsValues,
+  type SettingsVersion,
+  type Tenant,
+  type Webhook as WebhookType,
+  type WebhookDelivery,
+} from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
 
 export default function Settings() {
   const { toast } = useToast();
@@ -36,33 +79,33 @@ export default function Settings() {
   const [activeTab, setActiveTab] = useState("general");
   const canManage = canManagePolicies(user);
 
-  const [settings, setSettings] = useState({
-    defaultEnforcementMode: "monitor",
-    defaultBlockThreshold: 70,
-    defaultRetentionDays: 30,
-    anonymizeIpAfterDays: 7,
-    alertThreshold: "high",
-    enforceHttps: true,
-    blockBadIps: true,
-    rateLimiting: true,
-    enableWebhooks: false,
-    webhookUrl: "",
+  const [settings, setSettings] = useState<SettingsValues>(defaultSettings);
+
+  const { data: savedSettings, isLoading } = useQuery<SettingsValues>({
+    queryKey: ["/api/settings"],
   });
 
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
   const saveMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("PUT", "/api/settings", settings);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      // Requiring 2FA for your own role sends you to enrollment
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       toast({
         title: "Settings saved",
         description: "Your settings have been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (err) => {
       toast({
         title: "Error",
-        description: "Failed to save settings. Please try again.",
+        description: parseApiError(err).message || "Failed to save settings. Please try again.",
         variant: "destructive",
       });
     },
@@ -83,7 +126,7 @@ export default function Settings() {
         {canManage && (
           <Button
             onClick={() => saveMutation.mutate()}
-            disabled={saveMutation.isPending}
+            disabled={saveMutation.isPending || isLoading}
             data-testid="button-save-settings"
           >
             <Save className="h-4 w-4 mr-2" />
@@ -126,7 +169,7 @@ export default function Settings() {
                 <Select
                   value={settings.defaultEnforcementMode}
                   onValueChange={(v) =>
-                    setSettings({ ...settings, defaultEnforcementMode: v })
+                    setSettings({ ...settings, defaultEnforcementMode: v as SettingsValues["defaultEnforcementMode"] })
                   }
                   disabled={!canManage}
                 >
@@ -157,7 +200,7 @@ export default function Settings() {
                   onValueChange={([v]) =>
                     setSettings({ ...settings, defaultBlockThreshold: v })
                   }
-                  min={0}
+                  min={1}
                   max={100}
                   disabled={!canManage}
                   data-testid="slider-threshold"
@@ -189,7 +232,7 @@ export default function Settings() {
                     onChange={(e) =>
                       setSettings({
                         ...settings,
-                        defaultRetentionDays: parseInt(e.target.value),
+                        defaultRetentionDays: parseInt(e.target.value) || 1,
                       })
                     }
                     min={1}
@@ -206,7 +249,7 @@ export default function Settings() {
                     onChange={(e) =>
                       setSettings({
                         ...settings,
-                        anonymizeIpAfterDays: parseInt(e.target.value),
+                        anonymizeIpAfterDays: parseInt(e.target.value) || 1,
                       })
                     }
                     min={1}
@@ -218,6 +261,8 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          {canManage && <SettingsHistoryCard />}
         </TabsContent>
 
         <TabsContent value="security" className="mt-6 space-y-6">
@@ -283,6 +328,148 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Passwords & Sign-in
+              </CardTitle>
+              <CardDescription>
+                Requirements for new passwords and lockout after failed sign-ins.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Minimum Length</Label>
+                  <Input
+                    type="number"
+                    value={settings.passwordMinLength}
+                    onChange={(e) =>
+                      setSettings({ ...settings, passwordMinLength: parseInt(e.target.value) || 8 })
+                    }
+                    min={8}
+                    max={128}
+                    disabled={!canManage}
+                    data-testid="input-password-min-length"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Failed Sign-ins Before Lockout</Label>
+                  <Input
+                    type="number"
+                    value={settings.maxFailedLogins}
+                    onChange={(e) =>
+                      setSettings({ ...settings, maxFailedLogins: parseInt(e.target.value) || 1 })
+                    }
+                    min={1}
+                    max={50}
+                    disabled={!canManage}
+                    data-testid="input-max-failed-logins"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Lockout Duration (minutes)</Label>
+                  <Input
+                    type="number"
+                    value={settings.lockoutMinutes}
+                    onChange={(e) =>
+                      setSettings({ ...settings, lockoutMinutes: parseInt(e.target.value) || 1 })
+                    }
+                    min={1}
+                    max={1440}
+                    disabled={!canManage}
+                    data-testid="input-lockout-minutes"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Invite Link Expiry (days)</Label>
+                  <Input
+                    type="number"
+                    value={settings.inviteExpiryDays}
+                    onChange={(e) =>
+                      setSettings({ ...settings, inviteExpiryDays: parseInt(e.target.value) || 1 })
+                    }
+                    min={1}
+                    max={30}
+                    disabled={!canManage}
+                    data-testid="input-invite-expiry-days"
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password-mixed-case">Require upper and lower case letters</Label>
+                  <Switch
+                    id="password-mixed-case"
+                    checked={settings.passwordRequireMixedCase}
+                    onCheckedChange={(v) => setSettings({ ...settings, passwordRequireMixedCase: v })}
+                    disabled={!canManage}
+                    data-testid="switch-password-mixed-case"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password-number">Require a number</Label>
+                  <Switch
+                    id="password-number"
+                    checked={settings.passwordRequireNumber}
+                    onCheckedChange={(v) => setSettings({ ...settings, passwordRequireNumber: v })}
+                    disabled={!canManage}
+                    data-testid="switch-password-number"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password-symbol">Require a symbol</Label>
+                  <Switch
+                    id="password-symbol"
+                    checked={settings.passwordRequireSymbol}
+                    onCheckedChange={(v) => setSettings({ ...settings, passwordRequireSymbol: v })}
+                    disabled={!canManage}
+                    data-testid="switch-password-symbol"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Existing passwords keep working; the policy applies when a password is next set.
+              </p>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div>
+                  <p className="font-medium">Require Two-Factor Authentication</p>
+                  <p className="text-sm text-muted-foreground">
+                    Users with these roles must set up an authenticator app before they can use the dashboard.
+                  </p>
+                </div>
+                {(["admin", "operator", "viewer"] as const).map((role) => (
+                  <div key={role} className="flex items-center justify-between">
+                    <Label htmlFor={`require-2fa-${role}`} className="capitalize">{role}s</Label>
+                    <Switch
+                      id={`require-2fa-${role}`}
+                      checked={settings.twoFactorRequiredRoles.includes(role)}
+                      onCheckedChange={(v) =>
+                        setSettings({
+                          ...settings,
+                          twoFactorRequiredRoles: v
+                            ? [...settings.twoFactorRequiredRoles, role]
+                            : settings.twoFactorRequiredRoles.filter((r) => r !== role),
+                        })
+                      }
+                      disabled={!canManage}
+                      data-testid={`switch-require-2fa-${role}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <SingleSignOnCard settings={settings} onChange={setSettings} canManage={canManage} />
         </TabsContent>
 
         <TabsContent value="notifications" className="mt-6 space-y-6">
@@ -290,7 +477,7 @@ export default function Settings() {
             <CardHeader>
               <CardTitle className="text-lg">Alert Settings</CardTitle>
               <CardDescription>
-                Configure alert severity thresholds.
+                Configure alert severity thresholds and traffic anomaly detection.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -299,7 +486,7 @@ export default function Settings() {
                 <Select
                   value={settings.alertThreshold}
                   onValueChange={(v) =>
-                    setSettings({ ...settings, alertThreshold: v })
+                    setSettings({ ...settings, alertThreshold: v as SettingsValues["alertThreshold"] })
                   }
                   disabled={!canManage}
                 >
@@ -314,77 +501,1174 @@ export default function Settings() {
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
-                  Only alerts at or above this severity will be triggered and logged.
+                  Only requests at or above this risk level raise an alert.
                 </p>
               </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
 
-        <TabsContent value="integrations" className="mt-6 space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Webhooks</CardTitle>
-              <CardDescription>
-                Send real-time events to external services.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="flex items-center justify-between rounded-lg border p-4">
+              <Separator />
+
+              <div className="flex items-center justify-between">
                 <div>
-                  <p className="font-medium">Enable Webhooks</p>
+                  <p className="font-medium">Traffic Anomaly Alerts</p>
                   <p className="text-sm text-muted-foreground">
-                    Forward security events to external endpoints.
+                    Alert when a site's traffic departs from its learned baseline, such as a spike in 404s or blocked requests.
                   </p>
                 </div>
                 <Switch
-                  checked={settings.enableWebhooks}
-                  onCheckedChange={(v) =>
-                    setSettings({ ...settings, enableWebhooks: v })
+                  checked={settings.trafficAnomalyAlerts}
+                  onCheckedChange={(v) => setSettings({ ...settings, trafficAnomalyAlerts: v })}
+                  disabled={!canManage}
+                  data-testid="switch-traffic-anomaly-alerts"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Anomaly Sensitivity</Label>
+                <Select
+                  value={settings.trafficAnomalySensitivity}
+                  onValueChange={(v) =>
+                    setSettings({ ...settings, trafficAnomalySensitivity: v as SettingsValues["trafficAnomalySensitivity"] })
                   }
+                  disabled={!canManage || !settings.trafficAnomalyAlerts}
+                >
+                  <SelectTrigger data-testid="select-traffic-anomaly-sensitivity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low (large deviations only)</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High (smaller deviations)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Each site's baseline is learned from its own traffic over the previous hours.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="integrations" className="mt-6 space-y-6">
+          {canManage ? (
+            <WebhooksCard />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Webhooks</CardTitle>
+                <CardDescription>
+                  Only administrators can manage webhooks.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+
+          <ApiTokensCard />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+type SettingsHistoryEntry = SettingsVersion & { changedByName: string | null };
+
+// OpenID Connect sign-in. Changes are saved with the rest of the settings; claim values map onto
+// roles and tenants each time a user signs in through the provider.
+function SingleSignOnCard({
+  settings,
+  onChange,
+  canManage,
+}: {
+  settings: SettingsValues;
+  onChange: (settings: SettingsValues) => void;
+  canManage: boolean;
+}) {
+  const { toast } = useToast();
+  const { data: tenants } = useQuery<Tenant[]>({
+    queryKey: ["/api/tenants"],
+  });
+  const redirectUri = `${window.location.origin}/api/auth/oidc/callback`;
+
+  const update = (changes: Partial<SettingsValues>) => onChange({ ...settings, ...changes });
+
+  const updateRoleMapping = (index: number, changes: Partial<OidcRoleMapping>) =>
+    update({
+      oidcRoleMappings: settings.oidcRoleMappings.map((m, i) => (i === index ? { ...m, ...changes } : m)),
+    });
+
+  const updateTenantMapping = (index: number, changes: Partial<OidcTenantMapping>) =>
+    update({
+      oidcTenantMappings: settings.oidcTenantMappings.map((m, i) => (i === index ? { ...m, ...changes } : m)),
+    });
+
+  const copyRedirectUri = async () => {
+    await navigator.clipboard.writeText(redirectUri);
+    toast({ title: "Copied", description: "Redirect URI copied to clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <LogIn className="h-5 w-5" />
+            Single Sign-On
+          </CardTitle>
+          <CardDescription>
+            Let users sign in through an OpenID Connect identity provider alongside local accounts.
+          </CardDescription>
+        </div>
+        <Switch
+          checked={settings.oidcEnabled}
+          onCheckedChange={(v) => update({ oidcEnabled: v })}
+          disabled={!canManage}
+          data-testid="switch-oidc-enabled"
+        />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Issuer URL</Label>
+            <Input
+              value={settings.oidcIssuerUrl}
+              onChange={(e) => update({ oidcIssuerUrl: e.target.value })}
+              placeholder="https://login.example.com/realms/waf"
+              disabled={!canManage}
+              data-testid="input-oidc-issuer"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Client ID</Label>
+            <Input
+              value={settings.oidcClientId}
+              onChange={(e) => update({ oidcClientId: e.target.value })}
+              placeholder="waf-admin-portal"
+              disabled={!canManage}
+              data-testid="input-oidc-client-id"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Button Label</Label>
+            <Input
+              value={settings.oidcDisplayName}
+              onChange={(e) => update({ oidcDisplayName: e.target.value })}
+              disabled={!canManage}
+              data-testid="input-oidc-display-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <Input
+              value={settings.oidcScopes}
+              onChange={(e) => update({ oidcScopes: e.target.value })}
+              disabled={!canManage}
+              data-testid="input-oidc-scopes"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Redirect URI</Label>
+          <div className="flex gap-2">
+            <Input value={redirectUri} readOnly className="font-mono text-xs" data-testid="input-oidc-redirect-uri" />
+            <Button variant="outline" size="icon" onClick={copyRedirectUri} data-testid="button-copy-oidc-redirect-uri">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Register this with the provider. A client secret, if the provider issues one, is read from the{" "}
+            <code className="font-mono">OIDC_CLIENT_SECRET</code> environment variable; without one the portal
+            signs in as a public client using PKCE.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="oidc-auto-create">Create accounts on first sign-in</Label>
+            <p className="text-sm text-muted-foreground">
+              Otherwise only users who already have an account with the same email can sign in.
+            </p>
+          </div>
+          <Switch
+            id="oidc-auto-create"
+            checked={settings.oidcAutoCreateUsers}
+            onCheckedChange={(v) => update({ oidcAutoCreateUsers: v })}
+            disabled={!canManage}
+            data-testid="switch-oidc-auto-create"
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Role Claim</Label>
+              <Input
+                value={settings.oidcRoleClaim}
+                onChange={(e) => update({ oidcRoleClaim: e.target.value })}
+                placeholder="groups"
+                disabled={!canManage}
+                data-testid="input-oidc-role-claim"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role When Nothing Matches</Label>
+              <Select
+                value={settings.oidcDefaultRole}
+                onValueChange={(v) => update({ oidcDefaultRole: v as SettingsValues["oidcDefaultRole"] })}
+                disabled={!canManage}
+              >
+                <SelectTrigger data-testid="select-oidc-default-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="operator">Operator</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="none">No access</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {settings.oidcRoleMappings.map((mapping, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={mapping.value}
+                onChange={(e) => updateRoleMapping(index, { value: e.target.value })}
+                placeholder="Claim value, e.g. waf-admins"
+                disabled={!canManage}
+                data-testid={`input-oidc-role-mapping-${index}`}
+              />
+              <Select
+                value={mapping.role}
+                onValueChange={(v) => updateRoleMapping(index, { role: v as OidcRoleMapping["role"] })}
+                disabled={!canManage}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="operator">Operator</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ oidcRoleMappings: settings.oidcRoleMappings.filter((_, i) => i !== index) })}
+                disabled={!canManage}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ oidcRoleMappings: [...settings.oidcRoleMappings, { value: "", role: "viewer" }] })}
+              data-testid="button-add-oidc-role-mapping"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Role Mapping
+            </Button>
+          )}
+          <p className="text-xs text-muted-foreground">
+            The highest role any matching value grants wins. Without role mappings, existing accounts keep
+            their role and new ones get the role above.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Tenant Claim</Label>
+            <Input
+              value={settings.oidcTenantClaim}
+              onChange={(e) => update({ oidcTenantClaim: e.target.value })}
+              placeholder="groups"
+              disabled={!canManage}
+              data-testid="input-oidc-tenant-claim"
+            />
+          </div>
+          {settings.oidcTenantMappings.map((mapping, index) => (
+            <div key={index} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={mapping.value}
+                  onChange={(e) => updateTenantMapping(index, { value: e.target.value })}
+                  placeholder="Claim value, e.g. team-payments"
                   disabled={!canManage}
-                  data-testid="switch-webhooks"
+                  data-testid={`input-oidc-tenant-mapping-${index}`}
                 />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => update({ oidcTenantMappings: settings.oidcTenantMappings.filter((_, i) => i !== index) })}
+                  disabled={!canManage}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {tenants?.map((tenant) => (
+                  <div key={tenant.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`oidc-tenant-${index}-${tenant.id}`}
+                      checked={mapping.tenantIds.includes(tenant.id)}
+                      onCheckedChange={(checked) =>
+                        updateTenantMapping(index, {
+                          tenantIds: checked === true
+                            ? [...mapping.tenantIds, tenant.id]
+                            : mapping.tenantIds.filter((id) => id !== tenant.id),
+                        })
+                      }
+                      disabled={!canManage}
+                    />
+                    <Label htmlFor={`oidc-tenant-${index}-${tenant.id}`} className="font-normal">
+                      {tenant.name}
+                    </Label>
+                  </div>
+                ))}
               </div>
+            </div>
+          ))}
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ oidcTenantMappings: [...settings.oidcTenantMappings, { value: "", tenantIds: [] }] })}
+              data-testid="button-add-oidc-tenant-mapping"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tenant Mapping
+            </Button>
+          )}
+          <p className="text-xs text-muted-foreground">
+            With tenant mappings, a user's tenant access is replaced on every sign-in by the tenants their
+            matching values grant. Without any, tenant access is managed on the Users page.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
-              {settings.enableWebhooks && (
-                <div className="space-y-2">
-                  <Label>Webhook URL</Label>
-                  <Input
-                    value={settings.webhookUrl}
-                    onChange={(e) =>
-                      setSettings({ ...settings, webhookUrl: e.target.value })
-                    }
-                    placeholder="https://your-service.com/webhook"
-                    disabled={!canManage}
-                    data-testid="input-webhook-url"
-                  />
+function SettingsHistoryCard() {
+  const { toast } = useToast();
+
+  const { data: history, isLoading } = useQuery<SettingsHistoryEntry[]>({
+    queryKey: ["/api/settings/history"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `/api/settings/history/${version}/restore`);
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Settings restored",
+        description: `Version ${version} is now the current settings.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+        <CardDescription>
+          Every save is kept as a version. Restoring a version saves its values as a new one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : !history || history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Settings have not been changed yet; the defaults are in use.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Changed By</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((entry, index) => (
+                <TableRow key={entry.id} data-testid={`row-settings-version-${entry.version}`}>
+                  <TableCell className="font-mono">
+                    v{entry.version}
+                    {index === 0 && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                  </TableCell>
+                  <TableCell>{entry.changedByName ?? "Unknown"}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {entry.createdAt
+                      ? formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(entry.version)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-settings-${entry.version}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const webhookEventLabels: Record<string, string> = {
+  "alert.created": "Alert created",
+  "request.blocked": "Request blocked",
+  "webhook.test": "Test event",
+};
+
+const webhookFormatLabels: Record<string, string> = {
+  generic: "Generic JSON",
+  slack: "Slack",
+  teams: "Microsoft Teams",
+  pagerduty: "PagerDuty",
+};
+
+const webhookUrlPlaceholders: Record<string, string> = {
+  generic: "https://your-service.com/webhook",
+  slack: "https://hooks.slack.com/services/...",
+  teams: "https://prod-00.westus.logic.azure.com/workflows/...",
+  pagerduty: "https://events.pagerduty.com/v2/enqueue",
+};
+
+const emptyWebhookForm = {
+  name: "",
+  url: "",
+  tenantId: "all",
+  events: ["alert.created"] as string[],
+  format: "generic",
+  routingKey: "",
+};
+
+interface WebhookTestResult {
+  ok: boolean;
+  responseCode?: number;
+  error?: string;
+  payload: unknown;
+}
+
+function WebhooksCard() {
+  const { toast } = useToast();
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyWebhookForm);
+  const [logWebhook, setLogWebhook] = useState<WebhookType | null>(null);
+  const [testResult, setTestResult] = useState<WebhookTestResult | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<WebhookType[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const { data: tenants } = useQuery<Tenant[]>({
+    queryKey: ["/api/tenants"],
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks", logWebhook?.id, "deliveries"],
+    enabled: !!logWebhook,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/webhooks", {
+        name: form.name,
+        url: form.url,
+        tenantId: form.tenantId === "all" ? null : form.tenantId,
+        events: form.events,
+        format: form.format,
+        routingKey: form.format === "pagerduty" ? form.routingKey : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setCreateDialogOpen(false);
+      setForm(emptyWebhookForm);
+      toast({
+        title: "Webhook created",
+        description: "Deliveries are signed with the webhook's secret.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create webhook. Check the URL and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/${id}/test`);
+      return res.json() as Promise<WebhookTestResult>;
+    },
+    onSuccess: (result, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", id, "deliveries"] });
+      setTestResult(result);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to send test event. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/webhooks/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({
+        title: "Webhook deleted",
+        description: "The webhook and its delivery log have been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm({
+      ...form,
+      events: checked ? [...form.events, event] : form.events.filter((e) => e !== event),
+    });
+  };
+
+  const getTenantName = (tenantId: string | null) =>
+    tenantId ? tenants?.find((t) => t.id === tenantId)?.name || "Unknown" : "All sites";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Webhooks</CardTitle>
+          <CardDescription>
+            Send security events to external services. Payloads are signed with HMAC-SHA256
+            in the X-Webhook-Signature header.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateDialogOpen(true)} data-testid="button-add-webhook">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : webhooks && webhooks.length > 0 ? (
+          webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className="flex items-start justify-between gap-4 rounded-lg border p-4"
+              data-testid={`webhook-${webhook.id}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{webhook.name}</p>
+                  {!webhook.isActive && (webhook.failureCount ?? 0) > 0 && (
+                    <Badge variant="destructive">Disabled after {webhook.failureCount} failures</Badge>
+                  )}
+                </div>
+                <p className="text-xs font-mono text-muted-foreground truncate">{webhook.url}</p>
+                <div className="flex flex-wrap items-center gap-1">
+                  <Badge variant="outline">{webhookFormatLabels[webhook.format || "generic"]}</Badge>
+                  <Badge variant="outline">{getTenantName(webhook.tenantId)}</Badge>
+                  {(webhook.events?.length ? webhook.events : ["alert.created"]).map((event) => (
+                    <Badge key={event} variant="secondary">
+                      {webhookEventLabels[event] || event}
+                    </Badge>
+                  ))}
+                </div>
+                {webhook.secret && (
                   <p className="text-xs text-muted-foreground">
-                    Events will be sent as POST requests with JSON payload.
+                    Secret: <span className="font-mono select-all">{webhook.secret}</span>
                   </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {webhook.lastTriggeredAt
+                    ? `Last delivered ${formatDistanceToNow(new Date(webhook.lastTriggeredAt), { addSuffix: true })}`
+                    : "No successful deliveries yet"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={!!webhook.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: webhook.id, isActive })}
+                  data-testid={`switch-webhook-${webhook.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Send test event"
+                  onClick={() => testMutation.mutate(webhook.id)}
+                  disabled={testMutation.isPending}
+                  data-testid={`button-test-webhook-${webhook.id}`}
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLogWebhook(webhook)}
+                  data-testid={`button-webhook-log-${webhook.id}`}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(webhook.id)}
+                  data-testid={`button-delete-webhook-${webhook.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <Webhook className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">No webhooks configured.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+            <DialogDescription>
+              A signing secret is generated when the webhook is created.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="On-call alerts"
+                data-testid="input-webhook-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Payload Format</Label>
+              <Select value={form.format} onValueChange={(format) => setForm({ ...form, format })}>
+                <SelectTrigger data-testid="select-webhook-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {webhookFormats.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {webhookFormatLabels[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>URL</Label>
+              <Input
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder={webhookUrlPlaceholders[form.format]}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            {form.format === "pagerduty" && (
+              <div className="space-y-2">
+                <Label>Routing Key</Label>
+                <Input
+                  value={form.routingKey}
+                  onChange={(e) => setForm({ ...form, routingKey: e.target.value })}
+                  placeholder="Events API v2 integration key"
+                  data-testid="input-webhook-routing-key"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Site</Label>
+              <Select value={form.tenantId} onValueChange={(tenantId) => setForm({ ...form, tenantId })}>
+                <SelectTrigger data-testid="select-webhook-tenant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sites</SelectItem>
+                  {tenants?.map((tenant) => (
+                    <SelectItem key={tenant.id} value={tenant.id}>
+                      {tenant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {webhookEvents.map((event) => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                    {webhookEventLabels[event] || event}
+                  </Label>
                 </div>
-              )}
-            </CardContent>
-          </Card>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={
+                !form.name.trim() ||
+                !form.url.trim() ||
+                form.events.length === 0 ||
+                (form.format === "pagerduty" && !form.routingKey.trim()) ||
+                createMutation.isPending
+              }
+              data-testid="button-create-webhook"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">API Access</CardTitle>
-              <CardDescription>
-                Manage API keys for programmatic access.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-col items-center justify-center py-8 text-center">
-                <Globe className="h-12 w-12 text-muted-foreground/50 mb-4" />
-                <p className="text-muted-foreground">
-                  API access configuration coming soon.
+      <Dialog open={!!testResult} onOpenChange={(open) => !open && setTestResult(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Test Event {testResult?.ok ? "Delivered" : "Failed"}</DialogTitle>
+            <DialogDescription>
+              {testResult?.ok
+                ? `The endpoint responded with ${testResult.responseCode}.`
+                : testResult?.error || "The endpoint did not accept the test event."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Rendered payload</Label>
+            <pre className="max-h-[400px] overflow-auto rounded-md bg-muted p-3 text-xs font-mono" data-testid="text-test-payload">
+              {JSON.stringify(testResult?.payload, null, 2)}
+            </pre>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!logWebhook} onOpenChange={(open) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Log</DialogTitle>
+            <DialogDescription>
+              Most recent deliveries for {logWebhook?.name}. Failed attempts are retried with exponential backoff.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveriesLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Loading deliveries...
+                    </TableCell>
+                  </TableRow>
+                ) : deliveries && deliveries.length > 0 ? (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id} data-testid={`delivery-${delivery.id}`}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {delivery.createdAt
+                          ? formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">{webhookEventLabels[delivery.event] || delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            delivery.status === "success"
+                              ? "outline"
+                              : delivery.status === "failed"
+                              ? "destructive"
+                              : "secondary"
+                          }
+                        >
+                          {delivery.status === "pending" && delivery.attempts ? "retrying" : delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{delivery.attempts ?? 0}</TableCell>
+                      <TableCell className="text-xs max-w-[240px] truncate" title={delivery.error || undefined}>
+                        {delivery.error || delivery.responseCode || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No deliveries yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+const apiTokenScopeLabels: Record<ApiTokenScope, string> = {
+  "traffic:read": "Read traffic",
+  "rules:write": "Manage rules",
+  "tenants:write": "Manage sites",
+  "ingress": "Ingress only",
+};
+
+const apiTokenScopeDescriptions: Record<ApiTokenScope, string> = {
+  "traffic:read": "Requests, alerts, dashboard stats and exports",
+  "rules:write": "WAF rules, IP lists and request overrides",
+  "tenants:write": "Sites and their policies",
+  "ingress": "Submit requests for analysis",
+};
+
+// Roles that can grant each scope, mirroring the server check
+const apiTokenScopeRoles: Record<ApiTokenScope, string[]> = {
+  "traffic:read": ["admin", "operator", "viewer"],
+  "rules:write": ["admin"],
+  "tenants:write": ["admin"],
+  "ingress": ["admin", "operator"],
+};
+
+const emptyApiTokenForm = {
+  name: "",
+  kind: "personal" as ApiTokenKind,
+  scopes: ["traffic:read"] as ApiTokenScope[],
+  expiresInDays: "90",
+};
+
+function ApiTokensCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = canManagePolicies(user);
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyApiTokenForm);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  const grantableScopes = apiTokenScopes.filter((scope) => apiTokenScopeRoles[scope].includes(user?.role ?? "viewer"));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name: form.name,
+        kind: form.kind,
+        scopes: form.scopes,
+        expiresInDays: form.expiresInDays === "never" ? null : parseInt(form.expiresInDays),
+      });
+      return res.json() as Promise<ApiTokenInfo & { token: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setCreateDialogOpen(false);
+      setForm(emptyApiTokenForm);
+      setNewToken(created.token);
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(err).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Requests using this token are now rejected.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setForm({
+      ...form,
+      scopes: checked ? [...form.scopes, scope] : form.scopes.filter((s) => s !== scope),
+    });
+  };
+
+  const tokenStatus = (token: ApiTokenInfo) => {
+    if (token.revokedAt) return <Badge variant="secondary">Revoked</Badge>;
+    if (token.expiresAt && new Date(token.expiresAt) < new Date()) return <Badge variant="secondary">Expired</Badge>;
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">API Access</CardTitle>
+          <CardDescription>
+            Tokens for scripts and CI pipelines. Send them as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>;
+            they act with your role, limited to their scopes.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateDialogOpen(true)} data-testid="button-add-api-token">
+          <Plus className="h-4 w-4 mr-2" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tokens...</p>
+        ) : tokens && tokens.length > 0 ? (
+          tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex items-start justify-between gap-4 rounded-lg border p-4"
+              data-testid={`api-token-${token.id}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{token.name}</p>
+                  <span className="text-xs font-mono text-muted-foreground">{token.tokenPrefix}...</span>
+                  {token.kind === "service" && <Badge variant="outline">Service</Badge>}
+                  {tokenStatus(token)}
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  {token.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary">
+                      {apiTokenScopeLabels[scope] || scope}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {token.kind === "service" && token.ownerName && `Created by ${token.ownerName} · `}
+                  {token.lastUsedAt
+                    ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                    : "Never used"}
+                  {" · "}
+                  {token.expiresAt
+                    ? `Expires ${formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}`
+                    : "Never expires"}
                 </p>
               </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
-    </div>
+              {!token.revokedAt && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Revoke token"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-api-token-${token.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <Globe className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">No API tokens yet.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>
+              The token is shown once after it is created.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="CI rule sync"
+                data-testid="input-api-token-name"
+              />
+            </div>
+            {isAdmin && (
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as ApiTokenKind })}>
+                  <SelectTrigger data-testid="select-api-token-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">Personal - only you can see and revoke it</SelectItem>
+                    <SelectItem value="service">Service - shared with all admins</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {grantableScopes.map((scope) => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${scope}`}
+                    checked={form.scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`api-token-scope-${scope}`} className="font-normal">
+                    {apiTokenScopeLabels[scope]}
+                    <span className="block text-xs text-muted-foreground">{apiTokenScopeDescriptions[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={form.expiresInDays} onValueChange={(expiresInDays) => setForm({ ...form, expiresInDays })}>
+                <SelectTrigger data-testid="select-api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">In 7 days</SelectItem>
+                  <SelectItem value="30">In 30 days</SelectItem>
+                  <SelectItem value="90">In 90 days</SelectItem>
+                  <SelectItem value="365">In 1 year</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!form.name.trim() || form.scopes.length === 0 || createMutation.isPending}
+              data-testid="button-create-api-token"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Token"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Token Created</DialogTitle>
+            <DialogDescription>
+              Copy the token now. It cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={newToken ?? ""} readOnly className="font-mono text-xs" data-testid="input-new-api-token" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(newToken ?? "");
+                toast({ title: "Copied", description: "Token copied to clipboard." });
+              }}
+              data-testid="button-copy-api-token"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
   );
 }
@@ -1,54 +1,200 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, AlertCircle, Lock, Zap, CheckCircle, Home } from "lucide-react";
+import { Shield, AlertCircle, Lock, Zap, CheckCircle, Home, Mail, KeyRound, ShieldCheck, LogIn } from "lucide-react";
+import { OtpCodeInput } from "@/components/two-factor-setup";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 
+interface SignInError {
+  title: string;
+  message: string;
+}
+
+// Map the login endpoint's error responses to what the user can do about them
+function signInError(status: number, data: any): SignInError {
+  if (status === 423) {
+    const until = data?.lockedUntil ? new Date(data.lockedUntil) : null;
+    return {
+      title: "Account Locked",
+      message: until
+        ? `Too many failed sign-in attempts. Try again after ${until.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} or ask an administrator to unlock your account.`
+        : "Too many failed sign-in attempts. Try again later or ask an administrator to unlock your account.",
+    };
+  }
+  if (data?.code === "deactivated") {
+    return {
+      title: "Account Deactivated",
+      message: "This account has been deactivated. Contact an administrator if you need access again.",
+    };
+  }
+  if (data?.code === "invalid_2fa_code") {
+    return {
+      title: "Incorrect Code",
+      message: "Check the code in your authenticator app, or use a recovery code.",
+    };
+  }
+  if (data?.code === "2fa_session_expired" || data?.code === "2fa_too_many_attempts") {
+    return {
+      title: "Please Sign In Again",
+      message: data.message,
+    };
+  }
+  if (status === 429) {
+    return {
+      title: "Too Many Attempts",
+      message: "Please wait a minute before trying again.",
+    };
+  }
+  if (status === 401) {
+    return {
+      title: "Authentication Failed",
+      message: "Invalid email or password. If you have not set a password yet, ask an administrator for a setup link.",
+    };
+  }
+  return {
+    title: "Sign-in Unavailable",
+    message: data?.message || "An error occurred during login",
+  };
+}
+
+// Single sign-on failures come back from the callback as ?sso_error=<code>
+function ssoSignInError(code: string): SignInError {
+  switch (code) {
+    case "denied":
+      return { title: "Single Sign-On Cancelled", message: "The identity provider did not complete the sign-in." };
+    case "expired":
+      return { title: "Please Sign In Again", message: "Single sign-on took too long. Start again from this page." };
+    case "deactivated":
+      return {
+        title: "Account Deactivated",
+        message: "This account has been deactivated. Contact an administrator if you need access again.",
+      };
+    case "not_provisioned":
+    case "no_role":
+      return {
+        title: "No Access",
+        message: "Your single sign-on identity does not grant access to this portal. Ask an administrator to add you.",
+      };
+    case "account_conflict":
+      return {
+        title: "Account Already Linked",
+        message: "An account with this email is linked to a different single sign-on identity. Contact an administrator.",
+      };
+    case "email_missing":
+    case "email_unverified":
+      return {
+        title: "Email Not Verified",
+        message: "The identity provider did not share a verified email address for your account.",
+      };
+    case "disabled":
+      return { title: "Single Sign-On Unavailable", message: "Single sign-on is not enabled. Sign in with your password." };
+    default:
+      return { title: "Single Sign-On Unavailable", message: "The identity provider could not be reached. Try again later." };
+  }
+}
+
 export default function SignIn() {
   const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
+  const [error, setError] = useState<SignInError | null>(() => {
+    const code = new URLSearchParams(window.location.search).get("sso_error");
+    return code ? ssoSignInError(code) : null;
+  });
+  const { data: sso } = useQuery<{ enabled: boolean; displayName: string }>({
+    queryKey: ["/api/auth/oidc"],
+    retry: false,
+  });
+  // After a correct password, users with 2FA enter an authenticator or recovery code
+  const [step, setStep] = useState<"password" | "2fa">("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
+  const completeSignIn = (user: unknown) => {
+    // Immediately set user in cache so Router sees the user
+    queryClient.setQueryData(["/api/auth/user"], user);
+
+    toast({
+      title: "Welcome back!",
+      description: "Redirecting to dashboard...",
+    });
+
+    // Redirect to dashboard
+    navigate("/");
+  };
+
+  const handleSecondFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/login/2fa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(useRecoveryCode ? { recoveryCode: code } : { code }),
+        credentials: "include",
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        setError(signInError(response.status, data));
+        setCode("");
+        if (data?.code === "2fa_session_expired" || data?.code === "2fa_too_many_attempts") {
+          setStep("password");
+          setPassword("");
+        }
+        setLoading(false);
+        return;
+      }
+
+      completeSignIn(data);
+    } catch (err) {
+      setError({ title: "Sign-in Unavailable", message: "An error occurred during login" });
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    setError("");
+    setError(null);
 
     try {
       const response = await fetch("/api/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, password }),
         credentials: "include",
       });
 
       if (!response.ok) {
-        const data = await response.json();
-        setError(data.message || "Invalid credentials or user not found");
+        const data = await response.json().catch(() => null);
+        setError(signInError(response.status, data));
+        setPassword("");
         setLoading(false);
         return;
       }
 
       const data = await response.json();
+      if (data?.twoFactorRequired) {
+        setStep("2fa");
+        setCode("");
+        setUseRecoveryCode(false);
+        setLoading(false);
+        return;
+      }
       if (data) {
-        // Immediately set user in cache so Router sees the user
-        queryClient.setQueryData(["/api/auth/user"], data);
-        
-        toast({
-          title: "Welcome back!",
-          description: "Redirecting to dashboard...",
-        });
-        
-        // Redirect to dashboard
-        navigate("/");
+        completeSignIn(data);
       }
     } catch (err) {
-      setError("An error occurred during login");
+      setError({ title: "Sign-in Unavailable", message: "An error occurred during login" });
       setLoading(false);
     }
   };
@@ -84,71 +230,178 @@ export default function SignIn() {
           <CardHeader className="space-y-3 pb-4">
             <CardTitle className="text-2xl">Sign In</CardTitle>
             <CardDescription className="text-base">
-              Enter your email to access the WAF admin dashboard
+              Enter your email and password to access the WAF admin dashboard
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-5">
-              {error && (
-                <div className="flex items-start gap-3 p-4 bg-destructive/10 text-destructive rounded-lg text-sm border border-destructive/20 animate-in fade-in">
-                  <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
-                  <div className="flex-1">
-                    <p className="font-medium">Authentication Failed</p>
-                    <p className="text-destructive/80 mt-1">{error}</p>
+            {step === "2fa" ? (
+              <form onSubmit={handleSecondFactor} className="space-y-5">
+                {error && (
+                  <div className="flex items-start gap-3 p-4 bg-destructive/10 text-destructive rounded-lg text-sm border border-destructive/20 animate-in fade-in">
+                    <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium" data-testid="text-error-title">{error.title}</p>
+                      <p className="text-destructive/80 mt-1">{error.message}</p>
+                    </div>
                   </div>
+                )}
+
+                <div className="flex items-start gap-3 text-sm text-muted-foreground">
+                  <ShieldCheck className="h-5 w-5 flex-shrink-0 text-primary" />
+                  <p>
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
                 </div>
-              )}
 
-              <div className="space-y-2">
-                <label className="text-sm font-semibold text-foreground">Email Address</label>
-                <div className="relative group">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                {useRecoveryCode ? (
                   <Input
-                    type="email"
-                    placeholder="admin@waf.local"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
                     disabled={loading}
-                    data-testid="input-email"
-                    required
-                    className="pl-10 h-11 border-2 border-border focus:border-primary transition-all placeholder:text-muted-foreground/50"
+                    className="h-11 font-mono"
+                    data-testid="input-recovery-code"
                   />
+              ) : (
+                  <div className="flex justify-center">
+                    <OtpCodeInput value={code} onChange={setCode} disabled={loading} />
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 font-semibold text-base"
+                  disabled={loading || (useRecoveryCode ? code.trim().length === 0 : code.length !== 6)}
+                  data-testid="button-submit-2fa"
+                >
+                  {loading ? "Verifying..." : "Verify"}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode("");
+                      setError(null);
+                    }}
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setStep("password");
+                      setPassword("");
+                      setError(null);
+                    }}
+                  >
+                    Start over
+                  </button>
                 </div>
-              </div>
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                {error && (
+                  <div className="flex items-start gap-3 p-4 bg-destructive/10 text-destructive rounded-lg text-sm border border-destructive/20 animate-in fade-in">
+                    <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium" data-testid="text-error-title">{error.title}</p>
+                      <p className="text-destructive/80 mt-1">{error.message}</p>
+                    </div>
+                  </div>
+                )}
 
-              <Button
-                type="submit"
-                className="w-full h-11 font-semibold text-base shadow-lg hover:shadow-xl transition-all duration-200 relative overflow-hidden group"
-                disabled={loading}
-                data-testid="button-submit"
-              >
-                {loading ? (
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded-full border-2 border-primary-foreground/30 border-t-primary-foreground animate-spin" />
-                    Signing in...
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-foreground">Email Address</label>
+                  <div className="relative group">
+                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                    <Input
+                      type="email"
+                      autoComplete="username"
+                      placeholder="admin@waf.local"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      disabled={loading}
+                      data-testid="input-email"
+                      required
+                      className="pl-10 h-11 border-2 border-border focus:border-primary transition-all placeholder:text-muted-foreground/50"
+                    />
                   </div>
-                ) : (
-                  <div className="flex items-center gap-2">
-                    <CheckCircle className="h-5 w-5" />
-                    Sign In
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-foreground">Password</label>
+                  <div className="relative group">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                    <Input
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      disabled={loading}
+                      data-testid="input-password"
+                      required
+                      className="pl-10 h-11 border-2 border-border focus:border-primary transition-all placeholder:text-muted-foreground/50"
+                    />
                   </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 font-semibold text-base shadow-lg hover:shadow-xl transition-all duration-200 relative overflow-hidden group"
+                  disabled={loading}
+                  data-testid="button-submit"
+                >
+                  {loading ? (
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 rounded-full border-2 border-primary-foreground/30 border-t-primary-foreground animate-spin" />
+                      Signing in...
+                    </div>
+                ) : (
+                    <div className="flex items-center gap-2">
+                      <CheckCircle className="h-5 w-5" />
+                      Sign In
+                    </div>
+                  )}
+                </Button>
+
+                {sso?.enabled && (
+                  <>
+                    <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+                      <div className="h-px flex-1 bg-border" />
+                      or
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    <Button asChild type="button" variant="outline" className="w-full h-11 font-semibold" data-testid="button-sso">
+                      <a href="/api/auth/oidc/login" className="gap-2">
+                        <LogIn className="h-5 w-5" />
+                        Continue with {sso.displayName}
+                      </a>
+                    </Button>
+                  </>
                 )}
-              </Button>
-            </form>
+              </form>
+            )}
 
-            {/* Demo Info Card */}
-            <div className="mt-6 p-4 bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg border border-primary/20 space-y-3">
+            {/* First sign-in info */}
+            <div className="mt-6 p-4 bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg border border-primary/20 space-y-2">
               <div className="flex items-center gap-2">
-                <Zap className="h-4 w-4 text-primary" />
-                <p className="font-semibold text-sm">Demo Credentials</p>
-              </div>
-              <div className="space-y-2 text-sm">
-                <div className="flex items-center justify-between p-2.5 bg-card/50 rounded border border-border">
-                  <span className="text-muted-foreground">Email:</span>
-                  <code className="font-mono font-medium text-foreground">admin@waf.local</code>
-                </div>
-                <p className="text-xs text-muted-foreground mt-2">Email-only authentication for demo purposes</p>
+                <KeyRound className="h-4 w-4 text-primary" />
+                <p className="font-semibold text-sm">First time signing in?</p>
               </div>
+              <p className="text-xs text-muted-foreground">
+                Passwords are set from a one-time link created by an administrator. On first start the
+                link for <code className="font-mono text-foreground">admin@waf.local</code> is printed in the
+                server log, or the password is taken from <code className="font-mono text-foreground">ADMIN_PASSWORD</code>.
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -12,8 +12,11 @@ import {
   Filter,
   Search,
   Eye,
+  KeyRound,
+  Copy,
+  Trash2,
 } from "lucide-react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -35,6 +38,15 @@ import {
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { MetricCard } from "@/components/ui/metric-card";
 import { StatusBadge, EnforcementBadge } from "@/components/ui/status-badge";
 import { ScoreIndicator } from "@/components/ui/score-indicator";
@@ -43,17 +55,20 @@ import { LiveIndicator } from "@/components/ui/live-indicator";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import type { Tenant, Policy, Request as WAFRequest, RequestWithAnalysis } from "@shared/schema";
-import { formatDistanceToNow } from "date-fns";
+import { canManagePolicies } from "@/lib/authUtils";
+import { useRequestPages } from "@/hooks/useRequestPages";
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-} from "recharts";
+  analyticsRanges,
+  type Tenant,
+  type Policy,
+  type Request as WAFRequest,
+  type RequestWithAnalysis,
+  type IngressKeyInfo,
+  type AnalyticsRange,
+  type AggregateTopEntry,
+} from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import { TrafficChart, TrafficChartError, analyticsRangeLabels, useTrafficTimeseries } from "@/components/traffic-chart";
 
 // Real analytics data fetched from backend
 
@@ -64,6 +79,7 @@ export default function TenantDetail() {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("traffic");
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [liveRequests, setLiveRequests] = useState<RequestWithAnalysis[]>([]);
 
@@ -75,8 +91,22 @@ export default function TenantDetail() {
     queryKey: ["/api/tenants", tenantId, "policy"],
   });
 
-  const { data: requests, isLoading: requestsLoading } = useQuery<RequestWithAnalysis[]>({
-    queryKey: ["/api/tenants", tenantId, "requests"],
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const {
+    requests,
+    isLoading: requestsLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch: refetchRequests,
+    sentinelRef,
+  } = useRequestPages({
+    tenantId,
+    action: statusFilter !== "all" ? statusFilter : undefined,
+    search: debouncedSearch || undefined,
   });
 
   const toggleEnforcementMutation = useMutation({
@@ -102,17 +132,7 @@ export default function TenantDetail() {
   // Note: Real-time WebSocket support for individual tenants can be added later
   // For now, we rely on periodic API polling via React Query
 
-  const displayRequests = liveRequests.length > 0 ? liveRequests : requests || [];
-
-  const filteredRequests = displayRequests.filter((req) => {
-    const matchesSearch =
-      req.path?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      req.clientIp?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus =
-      statusFilter === "all" ||
-      req.actionTaken === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  const displayRequests = liveRequests.length > 0 ? liveRequests : requests;
 
   if (tenantLoading) {
     return (
@@ -227,6 +247,9 @@ export default function TenantDetail() {
           <TabsTrigger value="traffic" data-testid="tab-traffic">Live Traffic</TabsTrigger>
           <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
           <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
+          {canManagePolicies(user) && (
+            <TabsTrigger value="ingress" data-testid="tab-ingress">Ingress Keys</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="traffic" className="mt-6">
@@ -253,7 +276,7 @@ export default function TenantDetail() {
                 <SelectItem value="deny">Blocked</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" size="icon" data-testid="button-refresh">
+            <Button variant="outline" size="icon" onClick={() => refetchRequests()} data-testid="button-refresh">
               <RefreshCw className="h-4 w-4" />
             </Button>
             <Button variant="outline" data-testid="button-export">
@@ -294,8 +317,8 @@ export default function TenantDetail() {
                               ))}
                           </TableRow>
                         ))
-                    ) : filteredRequests.length > 0 ? (
-                      filteredRequests.slice(0, 50).map((request, index) => (
+                    ) : displayRequests.length > 0 ? (
+                      displayRequests.map((request, index) => (
                         <TableRow
                           key={request.id || index}
                           className={index === 0 && liveRequests.length > 0 ? "animate-fade-in-row" : ""}
@@ -363,41 +386,17 @@ export default function TenantDetail() {
                   </TableBody>
                 </Table>
               </div>
+              {hasNextPage && (
+                <div ref={sentinelRef} className="p-4 text-center text-sm text-muted-foreground">
+                  {isFetchingNextPage ? "Loading more requests..." : "Scroll to load more"}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
 
         <TabsContent value="analytics" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base font-medium">Traffic Summary</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="h-[300px]" data-testid="chart-analytics">
-                <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground space-y-4">
-                  <Activity className="h-12 w-12 opacity-50" />
-                  <div>
-                    <p className="font-medium">Request Analytics</p>
-                    <p className="text-sm mt-1">Real-time metrics displayed above</p>
-                    <div className="mt-4 grid grid-cols-3 gap-4">
-                      <div>
-                        <p className="text-xs text-muted-foreground">Total</p>
-                        <p className="text-lg font-semibold">{displayRequests.length}</p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-muted-foreground">Blocked</p>
-                        <p className="text-lg font-semibold text-destructive">{displayRequests.filter(r => r.actionTaken === "deny").length}</p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-muted-foreground">Monitored</p>
-                        <p className="text-lg font-semibold text-yellow-600">{displayRequests.filter(r => r.actionTaken === "monitor").length}</p>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <TenantAnalytics tenantId={tenantId} />
         </TabsContent>
 
         <TabsContent value="rules" className="mt-6">
@@ -415,7 +414,343 @@ export default function TenantDetail() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {canManagePolicies(user) && (
+          <TabsContent value="ingress" className="mt-6">
+            <IngressKeysCard tenantId={tenantId} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
 }
+
+function TopEntriesCard({ title, entries, testId }: { title: string; entries: AggregateTopEntry[]; testId: string }) {
+  const max = entries[0]?.count ?? 0;
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No data for this period</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.key} className="space-y-1">
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <span className="font-mono truncate" title={entry.key}>{entry.label || entry.key}</span>
+                  <span className="text-muted-foreground shrink-0">{entry.count.toLocaleString()}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div className="h-1.5 rounded-full bg-primary" style={{ width: `${max > 0 ? (entry.count / max) * 100 : 0}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TenantAnalytics({ tenantId }: { tenantId: string }) {
+  const [range, setRange] = useState<AnalyticsRange>("24h");
+  const { data: series, isLoading, isError } = useTrafficTimeseries(range, tenantId);
+
+  const toEntries = (counts: Record<string, number>) =>
+    Object.entries(counts)
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-base font-medium">Traffic Summary</CardTitle>
+          <Select value={range} onValueChange={(value) => setRange(value as AnalyticsRange)}>
+            <SelectTrigger className="w-[160px]" data-testid="select-analytics-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analyticsRanges.map((r) => (
+                <SelectItem key={r} value={r}>{analyticsRangeLabels[r]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <Skeleton className="h-[300px] w-full" />
+          ) : isError || !series ? (
+            <TrafficChartError height={300} />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="analytics-totals">
+                <div>
+                  <p className="text-xs text-muted-foreground">Total</p>
+                  <p className="text-lg font-semibold">{series.totals.totalRequests.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Blocked</p>
+                  <p className="text-lg font-semibold text-destructive">{series.totals.blockedRequests.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Monitored</p>
+                  <p className="text-lg font-semibold text-yellow-600">{series.totals.monitoredRequests.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Average Score</p>
+                  <p className="text-lg font-semibold">{series.totals.avgScore}</p>
+                </div>
+              </div>
+              <TrafficChart series={series} height={300} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {series && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <TopEntriesCard title="Top Paths" entries={series.topPaths} testId="card-top-paths" />
+          <TopEntriesCard title="Top Client IPs" entries={series.topIps} testId="card-top-ips" />
+          <TopEntriesCard title="Top Rules" entries={series.topRules} testId="card-top-rules" />
+          <TopEntriesCard title="Response Codes" entries={toEntries(series.statusCodes)} testId="card-status-codes" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ingressKeyStatus(key: IngressKeyInfo) {
+  if (key.revokedAt) return <Badge variant="secondary">Revoked</Badge>;
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return <Badge variant="secondary">Expired</Badge>;
+  if (key.expiresAt) {
+    return <Badge variant="outline">Expires {formatDistanceToNow(new Date(key.expiresAt), { addSuffix: true })}</Badge>;
+  }
+  return <Badge variant="outline">Active</Badge>;
+}
+
+// Example sender: signs the exact body bytes it posts
+function ingressSigningExample(tenantId: string, keyId: string) {
+  return [
+    `BODY='{"tenantId":"${tenantId}","request":{...}}'`,
+    `TS=$(date +%s)`,
+    `SIG=$(printf '%s.%s' "$TS" "$BODY" | openssl dgst -sha256 -hmac "$INGRESS_SECRET" -hex | sed 's/^.* //')`,
+    `curl -X POST ${window.location.origin}/api/waf/ingress \\`,
+    `  -H 'Content-Type: application/json' \\`,
+    `  -H 'X-WAF-Key-Id: ${keyId}' \\`,
+    `  -H "X-WAF-Signature: t=$TS,v1=$SIG" \\`,
+    `  -d "$BODY"`,
+  ].join("\n");
+}
+
+function IngressKeysCard({ tenantId }: { tenantId: string }) {
+  const { toast } = useToast();
+  const [rotateOpen, setRotateOpen] = useState(false);
+  const [graceHours, setGraceHours] = useState("24");
+  const [newKey, setNewKey] = useState<(IngressKeyInfo & { secret: string }) | null>(null);
+
+  const { data: keys, isLoading } = useQuery<IngressKeyInfo[]>({
+    queryKey: ["/api/tenants", tenantId, "ingress-keys"],
+  });
+
+  const hasActiveKey = keys?.some((k) => !k.revokedAt && (!k.expiresAt || new Date(k.expiresAt) > new Date()));
+
+  const createMutation = useMutation({
+    mutationFn: async (rotateGraceHours?: number) => {
+      const res = await apiRequest("POST", `/api/tenants/${tenantId}/ingress-keys`, { rotateGraceHours });
+      return res.json() as Promise<IngressKeyInfo & { secret: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", tenantId, "ingress-keys"] });
+      setRotateOpen(false);
+      setNewKey(created);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create ingress key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${tenantId}/ingress-keys/${keyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", tenantId, "ingress-keys"] });
+      toast({
+        title: "Ingress key revoked",
+        description: "Requests signed with this key are now rejected.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke ingress key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base font-medium">Ingress Keys</CardTitle>
+          <CardDescription>
+            Requests to /api/waf/ingress for this site must be signed with an active key
+            (X-WAF-Key-Id and X-WAF-Signature headers). Signatures older than five minutes or
+            seen before are rejected.
+          </CardDescription>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => (hasActiveKey ? setRotateOpen(true) : createMutation.mutate(undefined))}
+          disabled={createMutation.isPending}
+          data-testid="button-new-ingress-key"
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          {hasActiveKey ? "Rotate Key" : "Create Key"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : keys && keys.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Key ID</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((key) => (
+                <TableRow key={key.id} data-testid={`ingress-key-${key.id}`}>
+                  <TableCell className="font-mono text-xs">{key.id}</TableCell>
+                  <TableCell>{ingressKeyStatus(key)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {key.createdAt ? formatDistanceToNow(new Date(key.createdAt), { addSuffix: true }) : "-"}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {key.lastUsedAt ? formatDistanceToNow(new Date(key.lastUsedAt), { addSuffix: true }) : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    {!key.revokedAt && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Revoke key"
+                        onClick={() => revokeMutation.mutate(key.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-ingress-key-${key.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <KeyRound className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">
+              No ingress keys. Ingress requests for this site are rejected until a key is created.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={rotateOpen} onOpenChange={setRotateOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rotate Ingress Key</DialogTitle>
+            <DialogDescription>
+              A new key is created now. Current keys keep working for the grace period so senders
+              can switch over.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Current keys stop working</Label>
+            <Select value={graceHours} onValueChange={setGraceHours}>
+              <SelectTrigger data-testid="select-ingress-grace">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">In 1 hour</SelectItem>
+                <SelectItem value="24">In 24 hours</SelectItem>
+                <SelectItem value="168">In 7 days</SelectItem>
+                <SelectItem value="0">Immediately</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(parseInt(graceHours))}
+              disabled={createMutation.isPending}
+              data-testid="button-confirm-rotate-ingress-key"
+            >
+              Rotate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newKey} onOpenChange={(open) => !open && setNewKey(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Ingress Key Created</DialogTitle>
+            <DialogDescription>
+              Copy the secret now. It cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Key ID</Label>
+              <Input value={newKey?.id ?? ""} readOnly className="font-mono text-xs" />
+            </div>
+            <div className="space-y-2">
+              <Label>Secret</Label>
+              <div className="flex items-center gap-2">
+                <Input value={newKey?.secret ?? ""} readOnly className="font-mono text-xs" data-testid="input-ingress-secret" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    navigator.clipboard.writeText(newKey?.secret ?? "");
+                    toast({ title: "Copied", description: "Secret copied to clipboard." });
+                  }}
+                  data-testid="button-copy-ingress-secret"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Signing example</Label>
+              <pre className="max-h-[240px] overflow-auto rounded-md bg-muted p-3 text-xs font-mono">
+                {newKey ? ingressSigningExample(tenantId, newKey.id) : ""}
+              </pre>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import {
   Activity,
@@ -8,6 +8,8 @@ import {
   Download,
   RefreshCw,
   Globe,
+  Bookmark,
+  Trash2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -28,6 +30,23 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { ScoreIndicator } from "@/components/ui/score-indicator";
@@ -35,16 +54,25 @@ import { MethodBadge } from "@/components/ui/method-badge";
 import { LiveIndicator } from "@/components/ui/live-indicator";
 import { useSSE } from "@/hooks/useSSE";
 import { useAuth } from "@/hooks/useAuth";
-import type { RequestWithAnalysis, Tenant } from "@shared/schema";
+import { useRequestPages } from "@/hooks/useRequestPages";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { RequestWithAnalysis, SavedSearch, Tenant } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 
 export default function Traffic() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [tenantFilter, setTenantFilter] = useState("all");
+  const [codeFilter, setCodeFilter] = useState("all");
+  const [sort, setSort] = useState("timestamp:desc");
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [searchName, setSearchName] = useState("");
   const [liveRequests, setLiveRequests] = useState<RequestWithAnalysis[]>([]);
   
   const { user } = useAuth();
+  const { toast } = useToast();
 
   // Only connect SSE when user is authenticated
   const { isConnected, subscribe } = useSSE(user ? "/api/traffic/stream" : "");
@@ -53,19 +81,88 @@ export default function Traffic() {
     queryKey: ["/api/tenants"],
   });
 
-  const { data: requests, isLoading } = useQuery<RequestWithAnalysis[]>({
-    queryKey: ["/api/requests", tenantFilter !== "all" ? tenantFilter : undefined],
-    queryFn: async () => {
-      const url = new URL(`${import.meta.env.VITE_API_URL || ''}/api/requests`, window.location.origin);
-      if (tenantFilter !== "all") {
-        url.searchParams.set("tenantId", tenantFilter);
-      }
-      const res = await fetch(url.toString());
-      if (!res.ok) throw new Error("Failed to fetch requests");
-      return res.json();
+  const { data: savedSearches } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const saveSearchMutation = useMutation({
+    mutationFn: async (data: { name: string; query: string }) => {
+      await apiRequest("POST", "/api/saved-searches", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      setSaveDialogOpen(false);
+      setSearchName("");
+      toast({
+        title: "Search saved",
+        description: "The query is now available under Saved searches.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save search. Check the query and try again.",
+        variant: "destructive",
+      });
     },
   });
 
+  const deleteSearchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete saved search. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const [sortField, sortOrder] = sort.split(":");
+  const {
+    requests,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    error: queryError,
+    refetch,
+    sentinelRef,
+  } = useRequestPages({
+    tenantId: tenantFilter !== "all" ? tenantFilter : undefined,
+    action: statusFilter !== "all" ? statusFilter : undefined,
+    status: codeFilter !== "all" ? codeFilter : undefined,
+    q: debouncedSearch || undefined,
+    sort: sortField,
+    order: sortOrder,
+  });
+
+  // Live rows are shown above the loaded pages when they fit the filters and newest-first order;
+  // search queries are only evaluated by the server, so live rows are paused while one is active
+  const showLive = sort === "timestamp:desc" && !debouncedSearch;
+  const matchesFilters = (req: RequestWithAnalysis) =>
+    (statusFilter === "all" || req.actionTaken === statusFilter) &&
+    (tenantFilter === "all" || req.tenantId === tenantFilter) &&
+    (codeFilter === "all" || String(req.responseCode ?? "").startsWith(codeFilter[0]));
+
+  const applySearch = (query: string) => {
+    setSearchQuery(query);
+    setDebouncedSearch(query);
+  };
+
+  useEffect(() => {
+    setLiveRequests([]);
+  }, [tenantFilter, statusFilter, codeFilter, debouncedSearch, sort]);
+
   useEffect(() => {
     if (!user) return; // Don't subscribe if user not authenticated
     
@@ -76,18 +173,16 @@ export default function Traffic() {
     return unsubscribe;
   }, [user, subscribe]);
 
-  const displayRequests = liveRequests.length > 0 ? liveRequests : requests || [];
+  const loadedIds = new Set(requests.map((r) => r.id));
+  const newLiveRequests = showLive
+    ? liveRequests.filter((r) => matchesFilters(r) && !loadedIds.has(r.id))
+    : [];
+  const filteredRequests = [...newLiveRequests, ...requests];
 
-  const filteredRequests = displayRequests.filter((req) => {
-    const matchesSearch =
-      req.path?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      req.clientIp?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus =
-      statusFilter === "all" || req.actionTaken === statusFilter;
-    const matchesTenant =
-      tenantFilter === "all" || req.tenantId === tenantFilter;
-    return matchesSearch && matchesStatus && matchesTenant;
-  });
+  const handleRefresh = () => {
+    setLiveRequests([]);
+    refetch();
+  };
 
   const getTenantName = (tenantId: string) => {
     const tenant = tenants?.find((t) => t.id === tenantId);
@@ -122,13 +217,62 @@ export default function Traffic() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search by path, IP address..."
+            placeholder="Search, e.g. action:deny AND path:/admin* AND score>=80 AND NOT ip:10.0.0.0/8"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9"
+            className={`pl-9 font-mono text-sm ${queryError?.position !== undefined ? "border-destructive" : ""}`}
             data-testid="input-search"
           />
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-saved-searches">
+              <Bookmark className="h-4 w-4 mr-2" />
+              Saved
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-72">
+            <DropdownMenuLabel>Saved searches</DropdownMenuLabel>
+            {savedSearches && savedSearches.length > 0 ? (
+              savedSearches.map((search) => (
+                <DropdownMenuItem
+                  key={search.id}
+                  className="cursor-pointer"
+                  onClick={() => applySearch(search.query)}
+                  data-testid={`saved-search-${search.id}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{search.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{search.query}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteSearchMutation.mutate(search.id);
+                    }}
+                    data-testid={`button-delete-saved-search-${search.id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuItem>
+              ))
+            ) : (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved searches yet</p>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="cursor-pointer"
+              disabled={!searchQuery.trim()}
+              onClick={() => setSaveDialogOpen(true)}
+              data-testid="button-save-search"
+            >
+              Save current search...
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Select value={tenantFilter} onValueChange={setTenantFilter}>
           <SelectTrigger className="w-[180px]" data-testid="select-tenant">
             <Globe className="h-4 w-4 mr-2" />
@@ -154,17 +298,81 @@ export default function Traffic() {
             <SelectItem value="deny">Blocked</SelectItem>
           </SelectContent>
         </Select>
-        <Button variant="outline" size="icon" data-testid="button-refresh">
+        <Select value={codeFilter} onValueChange={setCodeFilter}>
+          <SelectTrigger className="w-[140px]" data-testid="select-response-code">
+            <SelectValue placeholder="All Codes" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Codes</SelectItem>
+            <SelectItem value="2xx">2xx</SelectItem>
+            <SelectItem value="3xx">3xx</SelectItem>
+            <SelectItem value="4xx">4xx</SelectItem>
+            <SelectItem value="5xx">5xx</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={setSort}>
+          <SelectTrigger className="w-[170px]" data-testid="select-sort">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="timestamp:desc">Newest first</SelectItem>
+            <SelectItem value="timestamp:asc">Oldest first</SelectItem>
+            <SelectItem value="score:desc">Highest score</SelectItem>
+            <SelectItem value="responseTime:desc">Slowest</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={handleRefresh} data-testid="button-refresh">
           <RefreshCw className="h-4 w-4" />
         </Button>
       </div>
 
+      {queryError && (
+        <p className="text-sm text-destructive -mt-3" data-testid="text-query-error">
+          {queryError.position !== undefined
+            ? `Query error at position ${queryError.position + 1}: ${queryError.message}`
+            : queryError.message}
+        </p>
+      )}
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription className="font-mono text-xs break-all">
+              {searchQuery.trim()}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="search-name">Name</Label>
+            <Input
+              id="search-name"
+              placeholder="e.g. Blocked admin probes"
+              value={searchName}
+              onChange={(e) => setSearchName(e.target.value)}
+              data-testid="input-search-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveSearchMutation.mutate({ name: searchName.trim(), query: searchQuery.trim() })}
+              disabled={!searchName.trim() || saveSearchMutation.isPending}
+              data-testid="button-confirm-save-search"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Stats Bar */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Total</span>
+              <span className="text-sm text-muted-foreground">Loaded</span>
               <Badge variant="outline">{filteredRequests.length}</Badge>
             </div>
           </CardContent>
@@ -235,11 +443,11 @@ export default function Traffic() {
                       </TableRow>
                     ))
                 ) : filteredRequests.length > 0 ? (
-                  filteredRequests.slice(0, 100).map((request, index) => (
+                  filteredRequests.map((request, index) => (
                     <TableRow
                       key={request.id || index}
                       className={
-                        index === 0 && liveRequests.length > 0 ? "animate-fade-in-row" : ""
+                        index === 0 && newLiveRequests.length > 0 ? "animate-fade-in-row" : ""
                       }
                       data-testid={`request-row-${request.id || index}`}
                     >
@@ -314,6 +522,11 @@ export default function Traffic() {
               </TableBody>
             </Table>
           </div>
+          {hasNextPage && (
+            <div ref={sentinelRef} className="p-4 text-center text-sm text-muted-foreground">
+              {isFetchingNextPage ? "Loading more requests..." : "Scroll to load more"}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,35 @@
+import { ShieldCheck, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { queryClient } from "@/lib/queryClient";
+
+// Shown instead of the app when the user's role requires 2FA and they have not enrolled
+export default function TwoFactorEnrollment() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md shadow-2xl border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-factor authentication required
+          </CardTitle>
+          <CardDescription>
+            Your role requires two-factor authentication. Set it up to continue to the dashboard.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorSetup
+            onComplete={() => queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] })}
+          />
+          <Button asChild variant="ghost" className="w-full" data-testid="button-logout">
+            <a href="/api/logout">
+              <LogOut className="h-4 w-4 mr-2" />
+              Log out
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,14 @@ import {
   Shield,
   Mail,
   Calendar,
+  KeyRound,
+  Lock,
+  Copy,
+  ShieldOff,
+  LogOut,
+  UserX,
+  UserCheck,
+  Trash2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -49,10 +57,29 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { getUserInitials, canManagePolicies } from "@/lib/authUtils";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
 import type { User, Tenant } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 
+function isLocked(user: User): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+}
+
+type UserRole = User["role"];
+
+function displayName(user: User): string {
+  return user.firstName && user.lastName
+    ? `${user.firstName} ${user.lastName}`
+    : user.email?.split("@")[0] || "User";
+}
+
+interface PasswordLink {
+  email: string | null;
+  mode: "set" | "reset" | "invite";
+  path: string;
+  expiresAt: string;
+}
+
 const roleColors: Record<string, string> = {
   admin: "bg-primary/20 text-primary border-primary/30",
   operator: "bg-green-500/20 text-green-600 dark:text-green-400 border-green-500/30",
@@ -66,6 +93,9 @@ export default function Users() {
   const [roleFilter, setRoleFilter] = useState("all");
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [passwordLink, setPasswordLink] = useState<PasswordLink | null>(null);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [userToDelete, setUserToDelete] = useState<User | null>(null);
 
   const canManage = canManagePolicies(currentUser);
 
@@ -90,15 +120,157 @@ export default function Users() {
       setEditDialogOpen(false);
       setSelectedUser(null);
     },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(err).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inviteUserMutation = useMutation({
+    mutationFn: async (data: InviteUserData) => {
+      const res = await apiRequest("POST", "/api/users", data);
+      return res.json() as Promise<{ user: User; invite: Omit<PasswordLink, "email" | "mode"> }>;
+    },
+    onSuccess: ({ user, invite }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setInviteDialogOpen(false);
+      setPasswordLink({ ...invite, email: user.email, mode: "invite" });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(err).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      await apiRequest("POST", `/api/users/${id}/${active ? "reactivate" : "deactivate"}`);
+      return active;
+    },
+    onSuccess: (active) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: active ? "User reactivated" : "User deactivated",
+        description: active
+          ? "The user can sign in again."
+          : "The user has been signed out and can no longer sign in or use API tokens.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(err).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo: string }) => {
+      await apiRequest("DELETE", `/api/users/${id}?reassignTo=${encodeURIComponent(reassignTo)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User removed",
+        description: "Their overrides, IP list entries and service tokens were reassigned.",
+      });
+      setUserToDelete(null);
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(err).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordLinkMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/password-reset`);
+      return { ...(await res.json()), email: user.email } as PasswordLink;
+    },
+    onSuccess: (link) => {
+      setPasswordLink(link);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create password link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Account unlocked",
+        description: "The user can sign in again.",
+      });
+    },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update user. Please try again.",
+        description: "Failed to unlock account. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/users/${id}/2fa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Two-factor authentication reset",
+        description: "The user signs in with their password and can set up 2FA again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset two-factor authentication. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/users/${id}/sessions/revoke`);
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Signed out everywhere",
+        description: `${data.revoked} session${data.revoked === 1 ? "" : "s"} ended.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to sign out user. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordLinkUrl = passwordLink ? `${window.location.origin}${passwordLink.path}` : "";
+
   const filteredUsers = users?.filter((user) => {
     const matchesSearch =
       user.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -126,7 +298,7 @@ export default function Users() {
           </p>
         </div>
         {canManage && (
-          <Button data-testid="button-invite-user">
+          <Button onClick={() => setInviteDialogOpen(true)} data-testid="button-invite-user">
             <Plus className="h-4 w-4 mr-2" />
             Invite User
           </Button>
@@ -210,6 +382,8 @@ export default function Users() {
                   <TableHead>User</TableHead>
                   <TableHead className="w-[120px]">Role</TableHead>
                   <TableHead className="w-[200px]">Email</TableHead>
+                  <TableHead className="w-[130px]">Sign-in</TableHead>
+                  <TableHead className="w-[150px]">Last Sign-in</TableHead>
                   <TableHead className="w-[150px]">Joined</TableHead>
                   <TableHead className="w-[80px]">Actions</TableHead>
                 </TableRow>
@@ -220,7 +394,7 @@ export default function Users() {
                     .fill(0)
                     .map((_, i) => (
                       <TableRow key={i}>
-                        {Array(5)
+                        {Array(7)
                           .fill(0)
                           .map((_, j) => (
                             <TableCell key={j}>
@@ -244,11 +418,7 @@ export default function Users() {
                             </AvatarFallback>
                           </Avatar>
                           <div>
-                            <p className="font-medium">
-                              {user.firstName && user.lastName
-                                ? `${user.firstName} ${user.lastName}`
-                                : user.email?.split("@")[0] || "User"}
-                            </p>
+                            <p className="font-medium">{displayName(user)}</p>
                             {user.id === currentUser?.id && (
                               <Badge variant="outline" className="text-xs mt-0.5">
                                 You
@@ -265,6 +435,40 @@ export default function Users() {
                       <TableCell className="text-muted-foreground">
                         {user.email}
                       </TableCell>
+                      <TableCell>
+                        {user.deactivatedAt ? (
+                          <Badge variant="destructive" className="gap-1" data-testid={`badge-deactivated-${user.id}`}>
+                            <UserX className="h-3 w-3" />
+                            Deactivated
+                          </Badge>
+                        ) : isLocked(user) ? (
+                          <Badge variant="destructive" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            Locked
+                          </Badge>
+                        ) : user.passwordSetAt || user.oidcSubject ? (
+                          <Badge variant="outline">Active</Badge>
+                        ) : user.invitedAt ? (
+                          <Badge variant="secondary">Invited</Badge>
+                        ) : (
+                          <Badge variant="secondary">No password</Badge>
+                        )}
+                        {user.totpEnabledAt && (
+                          <Badge variant="outline" className="ml-1" data-testid={`badge-2fa-${user.id}`}>
+                            2FA
+                          </Badge>
+                        )}
+                        {user.oidcSubject && (
+                          <Badge variant="outline" className="ml-1" title="Linked to a single sign-on identity" data-testid={`badge-sso-${user.id}`}>
+                            SSO
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground" title={user.lastLoginIp || undefined}>
+                        {user.lastLoginAt
+                          ? formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })
+                          : "Never"}
+                      </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {user.createdAt
                           ? formatDistanceToNow(new Date(user.createdAt), {
@@ -290,9 +494,63 @@ export default function Users() {
                               >
                                 Edit User
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => passwordLinkMutation.mutate(user)}
+                                data-testid={`button-password-link-${user.id}`}
+                              >
+                                <KeyRound className="h-4 w-4 mr-2" />
+                                {user.passwordSetAt ? "Create Reset Link" : user.invitedAt ? "Resend Invite Link" : "Create Setup Link"}
+                              </DropdownMenuItem>
+                              {isLocked(user) && (
+                                <DropdownMenuItem
+                                  onClick={() => unlockMutation.mutate(user.id)}
+                                  data-testid={`button-unlock-${user.id}`}
+                                >
+                                  <Lock className="h-4 w-4 mr-2" />
+                                  Unlock Account
+                                </DropdownMenuItem>
+                              )}
+                              {user.totpEnabledAt && (
+                                <DropdownMenuItem
+                                  onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                                  data-testid={`button-reset-2fa-${user.id}`}
+                                >
+                                  <ShieldOff className="h-4 w-4 mr-2" />
+                                  Reset 2FA
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem
+                                onClick={() => revokeSessionsMutation.mutate(user.id)}
+                                data-testid={`button-revoke-sessions-${user.id}`}
+                              >
+                                <LogOut className="h-4 w-4 mr-2" />
+                                Sign Out Everywhere
+                              </DropdownMenuItem>
                               <DropdownMenuItem>View Activity</DropdownMenuItem>
                               <DropdownMenuSeparator />
-                              <DropdownMenuItem className="text-destructive focus:text-destructive">
+                              {user.deactivatedAt ? (
+                                <DropdownMenuItem
+                                  onClick={() => setActiveMutation.mutate({ id: user.id, active: true })}
+                                  data-testid={`button-reactivate-${user.id}`}
+                                >
+                                  <UserCheck className="h-4 w-4 mr-2" />
+                                  Reactivate User
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem
+                                  onClick={() => setActiveMutation.mutate({ id: user.id, active: false })}
+                                  data-testid={`button-deactivate-${user.id}`}
+                                >
+                                  <UserX className="h-4 w-4 mr-2" />
+                                  Deactivate User
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem
+                                className="text-destructive focus:text-destructive"
+                                onClick={() => setUserToDelete(user)}
+                                data-testid={`button-remove-user-${user.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
                                 Remove User
                               </DropdownMenuItem>
                             </DropdownMenuContent>
@@ -303,7 +561,7 @@ export default function Users() {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={5} className="h-48 text-center">
+                    <TableCell colSpan={7} className="h-48 text-center">
                       <div className="flex flex-col items-center justify-center text-muted-foreground">
                         <UsersIcon className="h-12 w-12 mb-4 opacity-50" />
                         <p className="text-lg font-medium">No users found</p>
@@ -320,6 +578,91 @@ export default function Users() {
         </CardContent>
       </Card>
 
+      {/* Password Link Dialog */}
+      <Dialog open={!!passwordLink} onOpenChange={(open) => !open && setPasswordLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {passwordLink?.mode === "invite"
+                ? "Invite Link"
+                : passwordLink?.mode === "reset" ? "Password Reset Link" : "Password Setup Link"}
+            </DialogTitle>
+            <DialogDescription>
+              {passwordLink?.mode === "invite"
+                ? `Send this link to ${passwordLink.email} so they can choose a password and sign in. It can be used once.`
+                : `Send this link to ${passwordLink?.email}. It can be used once and replaces any earlier link.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={passwordLinkUrl} readOnly className="font-mono text-xs" data-testid="input-password-link" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(passwordLinkUrl);
+                  toast({ title: "Copied", description: "Link copied to clipboard." });
+                }}
+                data-testid="button-copy-password-link"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            {passwordLink && (
+              <p className="text-xs text-muted-foreground">
+                Expires {formatDistanceToNow(new Date(passwordLink.expiresAt), { addSuffix: true })}.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setPasswordLink(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invite User Dialog */}
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              Create an account and get a link for the new user to set their password.
+            </DialogDescription>
+          </DialogHeader>
+          {inviteDialogOpen && (
+            <InviteUserForm
+              tenants={tenants || []}
+              onSave={(data) => inviteUserMutation.mutate(data)}
+              isPending={inviteUserMutation.isPending}
+              onClose={() => setInviteDialogOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove User Dialog */}
+      <Dialog open={!!userToDelete} onOpenChange={(open) => !open && setUserToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove User</DialogTitle>
+            <DialogDescription>
+              {userToDelete?.email} will be deleted along with their sessions, saved searches and personal API tokens.
+              This cannot be undone; deactivate the user instead to keep the account.
+            </DialogDescription>
+          </DialogHeader>
+          {userToDelete && currentUser && (
+            <DeleteUserForm
+              user={userToDelete}
+              users={users || []}
+              defaultReassignTo={currentUser.id}
+              onConfirm={(reassignTo) => deleteUserMutation.mutate({ id: userToDelete.id, reassignTo })}
+              isPending={deleteUserMutation.isPending}
+              onClose={() => setUserToDelete(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit User Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent>
@@ -346,6 +689,92 @@ export default function Users() {
   );
 }
 
+interface AccessFieldsProps {
+  role: UserRole;
+  onRoleChange: (role: UserRole) => void;
+  tenants: Tenant[];
+  selectedTenants: string[];
+  onSelectedTenantsChange: (tenantIds: string[]) => void;
+}
+
+function AccessFields({ role, onRoleChange, tenants, selectedTenants, onSelectedTenantsChange }: AccessFieldsProps) {
+  const toggleTenant = (tenantId: string) => {
+    onSelectedTenantsChange(
+      selectedTenants.includes(tenantId)
+        ? selectedTenants.filter((id) => id !== tenantId)
+        : [...selectedTenants, tenantId]
+    );
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label>Role</Label>
+        <Select value={role} onValueChange={(value) => onRoleChange(value as UserRole)}>
+          <SelectTrigger data-testid="select-user-role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="admin">
+              <div className="flex items-center gap-2">
+                <Shield className="h-4 w-4 text-primary" />
+                Admin - Full access
+              </div>
+            </SelectItem>
+            <SelectItem value="operator">
+              <div className="flex items-center gap-2">
+                <Shield className="h-4 w-4 text-green-500" />
+                Operator - View & take actions
+              </div>
+            </SelectItem>
+            <SelectItem value="viewer">
+              <div className="flex items-center gap-2">
+                <Shield className="h-4 w-4 text-muted-foreground" />
+                Viewer - Read-only access
+              </div>
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tenant Access</Label>
+        <p className="text-xs text-muted-foreground">
+          {role === "admin"
+            ? "Admins can access every site."
+            : "Operators and viewers only see traffic, alerts, rules and policies for the sites selected here."}
+        </p>
+        <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto">
+          {tenants.length > 0 ? (
+            tenants.map((tenant) => (
+              <label
+                key={tenant.id}
+                className="flex items-center gap-3 p-2 rounded hover-elevate cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedTenants.includes(tenant.id)}
+                  onChange={() => toggleTenant(tenant.id)}
+                  className="rounded"
+                  data-testid={`checkbox-tenant-${tenant.id}`}
+                />
+                <span className="text-sm">{tenant.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {tenant.domain}
+                </span>
+              </label>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No tenants available
+            </p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
 interface UserEditFormProps {
   user: User;
   tenants: Tenant[];
@@ -355,7 +784,7 @@ interface UserEditFormProps {
 }
 
 function UserEditForm({ user, tenants, onSave, isPending, onClose }: UserEditFormProps) {
-  const [role, setRole] = useState<"admin" | "operator" | "viewer">(user.role || "viewer");
+  const [role, setRole] = useState<UserRole>(user.role || "viewer");
   const [selectedTenants, setSelectedTenants] = useState<string[]>(
     user.tenantIds || []
   );
@@ -365,85 +794,160 @@ function UserEditForm({ user, tenants, onSave, isPending, onClose }: UserEditFor
     onSave({ role, tenantIds: selectedTenants });
   };
 
-  const toggleTenant = (tenantId: string) => {
-    setSelectedTenants((prev) =>
-      prev.includes(tenantId)
-        ? prev.filter((id) => id !== tenantId)
-        : [...prev, tenantId]
-    );
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-4">
+        <AccessFields
+          role={role}
+          onRoleChange={setRole}
+          tenants={tenants}
+          selectedTenants={selectedTenants}
+          onSelectedTenantsChange={setSelectedTenants}
+        />
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending} data-testid="button-save-user">
+          {isPending ? "Saving..." : "Save Changes"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+interface InviteUserData {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  tenantIds: string[];
+}
+
+interface InviteUserFormProps {
+  tenants: Tenant[];
+  onSave: (data: InviteUserData) => void;
+  isPending: boolean;
+  onClose: () => void;
+}
+
+function InviteUserForm({ tenants, onSave, isPending, onClose }: InviteUserFormProps) {
+  const [email, setEmail] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+  const [selectedTenants, setSelectedTenants] = useState<string[]>([]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ email, firstName, lastName, role, tenantIds: selectedTenants });
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-4">
         <div className="space-y-2">
-          <Label>Role</Label>
-          <Select value={role} onValueChange={(value) => setRole(value as "admin" | "operator" | "viewer")}>
-            <SelectTrigger data-testid="select-user-role">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="admin">
-                <div className="flex items-center gap-2">
-                  <Shield className="h-4 w-4 text-primary" />
-                  Admin - Full access
-                </div>
-              </SelectItem>
-              <SelectItem value="operator">
-                <div className="flex items-center gap-2">
-                  <Shield className="h-4 w-4 text-green-500" />
-                  Operator - View & take actions
-                </div>
-              </SelectItem>
-              <SelectItem value="viewer">
-                <div className="flex items-center gap-2">
-                  <Shield className="h-4 w-4 text-muted-foreground" />
-                  Viewer - Read-only access
-                </div>
-              </SelectItem>
-            </SelectContent>
-          </Select>
+          <Label htmlFor="invite-email">Email</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            data-testid="input-invite-email"
+          />
         </div>
-
-        <div className="space-y-2">
-          <Label>Tenant Access</Label>
-          <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto">
-            {tenants.length > 0 ? (
-              tenants.map((tenant) => (
-                <label
-                  key={tenant.id}
-                  className="flex items-center gap-3 p-2 rounded hover-elevate cursor-pointer"
-                >
-                  <input
-                    type="checkbox"
-                    checked={selectedTenants.includes(tenant.id)}
-                    onChange={() => toggleTenant(tenant.id)}
-                    className="rounded"
-                    data-testid={`checkbox-tenant-${tenant.id}`}
-                  />
-                  <span className="text-sm">{tenant.name}</span>
-                  <span className="text-xs text-muted-foreground">
-                    {tenant.domain}
-                  </span>
-                </label>
-              ))
-            ) : (
-              <p className="text-sm text-muted-foreground text-center py-4">
-                No tenants available
-              </p>
-            )}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="invite-first-name">First Name</Label>
+            <Input
+              id="invite-first-name"
+              value={firstName}
+              onChange={(e) => setFirstName(e.target.value)}
+              data-testid="input-invite-first-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-last-name">Last Name</Label>
+            <Input
+              id="invite-last-name"
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              data-testid="input-invite-last-name"
+            />
           </div>
         </div>
+        <AccessFields
+          role={role}
+          onRoleChange={setRole}
+          tenants={tenants}
+          selectedTenants={selectedTenants}
+          onSelectedTenantsChange={setSelectedTenants}
+        />
       </div>
 
       <DialogFooter>
         <Button type="button" variant="outline" onClick={onClose}>
           Cancel
         </Button>
-        <Button type="submit" disabled={isPending} data-testid="button-save-user">
-          {isPending ? "Saving..." : "Save Changes"}
+        <Button type="submit" disabled={isPending || !email} data-testid="button-send-invite">
+          <Mail className="h-4 w-4 mr-2" />
+          {isPending ? "Creating..." : "Create Invite"}
         </Button>
       </DialogFooter>
     </form>
   );
 }
+
+interface DeleteUserFormProps {
+  user: User;
+  users: User[];
+  defaultReassignTo: string;
+  onConfirm: (reassignTo: string) => void;
+  isPending: boolean;
+  onClose: () => void;
+}
+
+function DeleteUserForm({ user, users, defaultReassignTo, onConfirm, isPending, onClose }: DeleteUserFormProps) {
+  const [reassignTo, setReassignTo] = useState(defaultReassignTo);
+  const candidates = users.filter((u) => u.id !== user.id && !u.deactivatedAt);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Reassign Their Work To</Label>
+        <p className="text-xs text-muted-foreground">
+          Overrides they made, IP list entries they added and service tokens they own move to this user.
+        </p>
+        <Select value={reassignTo} onValueChange={setReassignTo}>
+          <SelectTrigger data-testid="select-reassign-to">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((u) => (
+              <SelectItem key={u.id} value={u.id}>
+                {displayName(u)} ({u.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="destructive"
+          disabled={isPending || !reassignTo}
+          onClick={() => onConfirm(reassignTo)}
+          data-testid="button-confirm-remove-user"
+        >
+          {isPending ? "Removing..." : "Remove User"}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import type { AlertSeverity, InsertAnalyticsAggregate, Settings, Tenant } from "@shared/schema";
+import { storage } from "../storage";
+import { sseServer } from "../waf/sse";
+import { dispatchWebhookEvent } from "../webhooks/delivery";
+
+// Learned traffic profile per tenant. Every minute's aggregate updates exponentially weighted
+// averages of the request rate and of the share of traffic taken by blocked requests, each
+// response code, each method and the busiest paths. A minute that departs from the profile by
+// more than the configured number of standard deviations raises a traffic anomaly alert.
+
+const MINUTE_MS = 60 * 1000;
+// Weight of the newest minute; older minutes fade with a half-life of about half an hour
+const ALPHA = 0.02;
+// Deviating minutes still feed the profile, more slowly, so a lasting change becomes the new normal
+const DEVIATING_ALPHA = ALPHA / 4;
+// Minutes observed before the request rate is judged, and minutes with traffic before shares are
+const WARMUP_MINUTES = 60;
+const WARMUP_ACTIVE_MINUTES = 30;
+// A share must grow by this much and cover this many requests to count as a spike
+const MIN_SHARE_SHIFT = 0.1;
+const MIN_EVENTS = 10;
+// Values never seen before are expected at this share, so the first few do not look infinite
+const SHARE_FLOOR = 0.01;
+const PRUNE_SHARE = 0.0005;
+const MIN_SPIKE_REQUESTS = 30;
+// A drop is only reported for tenants that normally see this many requests per minute
+const MIN_DROP_BASELINE = 30;
+const ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+// Minutes replayed from the stored aggregates when the profile is rebuilt after a restart
+export const BASELINE_HISTORY_MINUTES = 24 * 60;
+
+const Z_THRESHOLDS: Record<Settings["trafficAnomalySensitivity"], number> = { low: 6, medium: 4, high: 3 };
+
+export type TrafficMetric = "requests" | "blocked" | "status" | "method" | "path";
+
+export interface TrafficDeviation {
+  metric: TrafficMetric;
+  // Response code, method or path the deviation is about
+  key?: string;
+  // Requests per minute for "requests", otherwise the share of the minute's requests
+  observed: number;
+  expected: number;
+  zScore: number;
+}
+
+type MinuteAggregate = Partial<Pick<InsertAnalyticsAggregate, "totalRequests" | "blockedRequests" | "statusCodesJson" | "methodsJson" | "topPathsJson">>;
+
+// Share of the minute's requests per tracked value, keyed "<metric>:<value>"
+function minuteShares(aggregate: MinuteAggregate): Map<string, number> {
+  const counts = new Map<string, number>();
+  counts.set("blocked:", aggregate.blockedRequests ?? 0);
+  Object.entries(aggregate.statusCodesJson ?? {}).forEach(([code, count]) => counts.set(`status:${code}`, count));
+  Object.entries(aggregate.methodsJson ?? {}).forEach(([method, count]) => counts.set(`method:${method}`, count));
+  (aggregate.topPathsJson ?? []).forEach(({ key, count }) => counts.set(`path:${key}`, count));
+  return counts;
+}
+
+function splitShareKey(shareKey: string): { metric: TrafficMetric; key?: string } {
+  const separator = shareKey.indexOf(":");
+  const key = shareKey.slice(separator + 1);
+  return { metric: shareKey.slice(0, separator) as TrafficMetric, ...(key && { key }) };
+}
+
+// Only error responses are worth alerting on; a rise in 200s is the other side of a fall in errors
+function isJudgedShare(shareKey: string): boolean {
+  const { metric, key } = splitShareKey(shareKey);
+  return metric !== "status" || Number(key) >= 400;
+}
+
+class TenantProfile {
+  minutes = 0;
+  activeMinutes = 0;
+  meanRequests = 0;
+  varianceRequests = 0;
+  shares = new Map<string, number>();
+  lastAlertAt = new Map<string, number>();
+
+  // Compares the minute against the profile learned so far
+  evaluate(aggregate: MinuteAggregate, threshold: number): TrafficDeviation[] {
+    const deviations: TrafficDeviation[] = [];
+    const total = aggregate.totalRequests ?? 0;
+
+    if (this.minutes >= WARMUP_MINUTES) {
+      const sigma = Math.max(Math.sqrt(this.varianceRequests), Math.sqrt(this.meanRequests), 1);
+      const zScore = (total - this.meanRequests) / sigma;
+      const spike = zScore >= threshold && total >= MIN_SPIKE_REQUESTS && total >= 2 * this.meanRequests;
+      const drop = zScore <= -threshold && this.meanRequests >= MIN_DROP_BASELINE && total <= this.meanRequests / 4;
+      if (spike || drop) {
+        deviations.push({ metric: "requests", observed: total, expected: this.meanRequests, zScore });
+      }
+    }
+
+    if (this.activeMinutes >= WARMUP_ACTIVE_MINUTES && total > 0) {
+      minuteShares(aggregate).forEach((count, shareKey) => {
+        if (count < MIN_EVENTS || !isJudgedShare(shareKey)) return;
+        const observed = count / total;
+        const expected = this.shares.get(shareKey) ?? 0;
+        if (observed - expected < MIN_SHARE_SHIFT) return;
+        // Binomial test: how unlikely this many matching requests are at the learned share
+        const p = Math.max(expected, SHARE_FLOOR);
+        const zScore = (count - total * p) / Math.sqrt(total * p * (1 - p));
+        if (zScore >= threshold) {
+          deviations.push({ ...splitShareKey(shareKey), observed, expected, zScore });
+        }
+      });
+    }
+    return deviations;
+  }
+
+  update(aggregate: MinuteAggregate, deviations: TrafficDeviation[] = []) {
+    const total = aggregate.totalRequests ?? 0;
+    const deviating = new Set(deviations.map(d => `${d.metric}:${d.key ?? ""}`));
+
+    const alpha = deviating.has("requests:") ? DEVIATING_ALPHA : ALPHA;
+    const delta = total - this.meanRequests;
+    this.meanRequests += alpha * delta;
+    this.varianceRequests = (1 - alpha) * (this.varianceRequests + alpha * delta * delta);
+    this.minutes += 1;
+
+    if (total === 0) return;
+    const current = minuteShares(aggregate);
+    const keys = new Set([...Array.from(this.shares.keys()), ...Array.from(current.keys())]);
+    keys.forEach(shareKey => {
+      const observed = (current.get(shareKey) ?? 0) / total;
+      const previous = this.shares.get(shareKey) ?? 0;
+      const share = previous + (deviating.has(shareKey) ? DEVIATING_ALPHA : ALPHA) * (observed - previous);
+      if (share < PRUNE_SHARE) this.shares.delete(shareKey);
+      else this.shares.set(shareKey, share);
+    });
+    this.activeMinutes += 1;
+  }
+
+  // Drops deviations already alerted on within the cooldown and starts the cooldown for the rest
+  takeAlertable(deviations: TrafficDeviation[], now: number): TrafficDeviation[] {
+    return deviations.filter(d => {
+      const key = d.metric === "requests" ? `requests:${d.zScore > 0 ? "spike" : "drop"}` : `${d.metric}:${d.key ?? ""}`;
+      const last = this.lastAlertAt.get(key);
+      if (last !== undefined && now - last < ALERT_COOLDOWN_MS) return false;
+      this.lastAlertAt.set(key, now);
+      return true;
+    });
+  }
+}
+
+const EMPTY_MINUTE: MinuteAggregate = { totalRequests: 0, blockedRequests: 0 };
+
+function percent(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+export function describeDeviation(deviation: TrafficDeviation): string {
+  const { metric, key, observed, expected } = deviation;
+  if (metric === "requests") {
+    return `${observed} requests per minute (normally ${Math.round(expected)})`;
+  }
+  const subject = metric === "blocked" ? "Blocked requests"
+    : metric === "status" ? `${key} responses`
+    : metric === "method" ? `${key} requests`
+    : `Requests to ${key}`;
+  return `${subject} made up ${percent(observed)} of traffic (normally ${percent(expected)})`;
+}
+
+function alertSeverity(deviations: TrafficDeviation[], threshold: number): AlertSeverity {
+  const strongest = Math.max(...deviations.map(d => Math.abs(d.zScore)));
+  return strongest >= 2 * threshold ? "high" : "medium";
+}
+
+async function raiseTrafficAlert(tenant: Tenant, periodStart: Date, deviations: TrafficDeviation[], threshold: number) {
+  const spike = deviations.some(d => d.metric !== "requests" || d.zScore > 0);
+  const alert = await storage.createAlert({
+    tenantId: tenant.id,
+    severity: alertSeverity(deviations, threshold),
+    type: "traffic_anomaly",
+    title: spike ? `Unusual traffic on ${tenant.name}` : `Traffic drop on ${tenant.name}`,
+    message: deviations.map(describeDeviation).join("; "),
+    metadata: {
+      periodStart,
+      periodEnd: new Date(periodStart.getTime() + MINUTE_MS),
+      deviations: deviations.map(d => ({ ...d, zScore: Math.round(d.zScore * 10) / 10 })),
+    },
+  });
+
+  sseServer.broadcastAlert({
+    id: alert.id,
+    severity: alert.severity,
+    message: alert.title,
+    tenantId: tenant.id,
+  });
+
+  dispatchWebhookEvent("alert.created", tenant.id, {
+    tenant: { id: tenant.id, name: tenant.name, domain: tenant.domain },
+    alert,
+  }).catch(error => console.error("Error queueing webhook event:", error));
+}
+
+export class TrafficBaseline {
+  private profiles = new Map<string, TenantProfile>();
+
+  private profileFor(tenantId: string): TenantProfile {
+    let profile = this.profiles.get(tenantId);
+    if (!profile) {
+      profile = new TenantProfile();
+      this.profiles.set(tenantId, profile);
+    }
+    return profile;
+  }
+
+  // Rebuilds the profiles from the stored minute aggregates up to and including `lastMinute`
+  async seed(tenants: Tenant[], lastMinute: number): Promise<void> {
+    const from = lastMinute - (BASELINE_HISTORY_MINUTES - 1) * MINUTE_MS;
+    const history = await storage.getAnalyticsAggregates({
+      periodType: "minute",
+      from: new Date(from),
+      to: new Date(lastMinute + MINUTE_MS),
+    });
+    const byMinute = new Map<number, Map<string, MinuteAggregate>>();
+    for (const aggregate of history) {
+      const start = new Date(aggregate.periodStart).getTime();
+      if (!byMinute.has(start)) byMinute.set(start, new Map());
+      byMinute.get(start)!.set(aggregate.tenantId, aggregate);
+    }
+
+    this.profiles.clear();
+    // Tenants start learning with their first stored minute rather than a day of silence
+    const firstSeen = new Map<string, number>();
+    history.forEach(a => {
+      if (!firstSeen.has(a.tenantId)) firstSeen.set(a.tenantId, new Date(a.periodStart).getTime());
+    });
+    for (let start = from; start <= lastMinute; start += MINUTE_MS) {
+      const minute = byMinute.get(start);
+      for (const tenant of tenants) {
+        const seen = firstSeen.get(tenant.id);
+        if (seen === undefined || start < seen) continue;
+        this.profileFor(tenant.id).update(minute?.get(tenant.id) ?? EMPTY_MINUTE);
+      }
+    }
+  }
+
+  // Judges one minute of every tenant's traffic, raises alerts for deviations when `alert` is set
+  // and learns from the minute. Tenants without an aggregate had no traffic that minute.
+  async observe(tenants: Tenant[], periodStart: Date, aggregates: InsertAnalyticsAggregate[], alert: boolean): Promise<void> {
+    const settings = await storage.getSettings();
+    const threshold = Z_THRESHOLDS[settings.trafficAnomalySensitivity];
+    const byTenant = new Map(aggregates.map(a => [a.tenantId, a]));
+    const active = new Set(tenants.map(t => t.id));
+    Array.from(this.profiles.keys()).forEach(id => {
+      if (!active.has(id)) this.profiles.delete(id);
+    });
+
+    for (const tenant of tenants) {
+      const aggregate = byTenant.get(tenant.id);
+      // Tenants that have never had traffic have nothing to learn yet
+      if (!aggregate && !this.profiles.has(tenant.id)) continue;
+      const profile = this.profileFor(tenant.id);
+      const minute = aggregate ?? EMPTY_MINUTE;
+      const deviations = profile.evaluate(minute, threshold);
+      profile.update(minute, deviations);
+
+      if (!alert || !settings.trafficAnomalyAlerts || deviations.length === 0) continue;
+      const alertable = profile.takeAlertable(deviations, periodStart.getTime());
+      if (alertable.length === 0) continue;
+      try {
+        await raiseTrafficAlert(tenant, periodStart, alertable, threshold);
+      } catch (error) {
+        console.error("Error raising traffic anomaly alert:", error);
+      }
+    }
+  }
+}
+
+export const trafficBaseline = new TrafficBaseline();
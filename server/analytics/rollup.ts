@@ -0,0 +1,94 @@
+import type { AggregatePeriodType } from "@shared/schema";
+import { storage } from "../storage";
+import { trafficBaseline } from "./baseline";
+
+// Summarizes each tenant's traffic into minute aggregates as minutes close and feeds them to the
+// traffic baseline, then into hour and day aggregates (UTC) as those close. Minutes missed while
+// the server was down are filled in on start, up to an hour; hours and days are filled in for as
+// far back as requests and their retention go.
+
+const MINUTE_MS = 60 * 1000;
+export const AGGREGATE_PERIOD_MS: Record<AggregatePeriodType, number> = {
+  minute: MINUTE_MS,
+  hour: 60 * MINUTE_MS,
+  day: 24 * 60 * MINUTE_MS,
+};
+export const AGGREGATE_RETENTION_DAYS: Record<AggregatePeriodType, number> = { minute: 7, hour: 90, day: 730 };
+
+// Requests are stored a moment after they arrive, so a minute is summarized once this has passed
+const SETTLE_MS = 5 * 1000;
+const MAX_CATCH_UP_MINUTES = 60;
+// Only the latest few minutes of a catch-up can still raise alerts; older ones are just learned
+const ALERT_WINDOW_MINUTES = 5;
+
+// End of the last period of each type summarized; unset until the first run
+const summarizedTo: Partial<Record<AggregatePeriodType, number>> = {};
+let running = false;
+
+export function floorPeriod(time: number, periodType: AggregatePeriodType): number {
+  return Math.floor(time / AGGREGATE_PERIOD_MS[periodType]) * AGGREGATE_PERIOD_MS[periodType];
+}
+
+// Everything before this instant has been summarized into aggregates of the type. Before the
+// first run it assumes the previous process kept up.
+export function summarizedUntil(periodType: AggregatePeriodType): number {
+  return summarizedTo[periodType] ?? floorPeriod(Date.now() - SETTLE_MS, periodType);
+}
+
+async function rollupMinutes(now: number) {
+  const lastClosed = floorPeriod(now - SETTLE_MS, "minute") - MINUTE_MS;
+  const tenants = (await storage.getTenants()).filter(t => t.isActive);
+
+  if (summarizedTo.minute === undefined) {
+    const latest = await storage.getLatestAnalyticsAggregate("minute");
+    const latestStart = latest ? new Date(latest.periodStart).getTime() : -Infinity;
+    const lastRolledUp = Math.min(lastClosed, Math.max(latestStart, lastClosed - MAX_CATCH_UP_MINUTES * MINUTE_MS));
+    await trafficBaseline.seed(tenants, lastRolledUp);
+    summarizedTo.minute = lastRolledUp + MINUTE_MS;
+  }
+
+  for (let start = summarizedTo.minute; start <= lastClosed; start += MINUTE_MS) {
+    const periodStart = new Date(start);
+    const aggregates = await storage.summarizeRequests("minute", periodStart, new Date(start + MINUTE_MS));
+    await storage.saveAnalyticsAggregates(aggregates);
+    await trafficBaseline.observe(tenants, periodStart, aggregates, lastClosed - start < ALERT_WINDOW_MINUTES * MINUTE_MS);
+    summarizedTo.minute = start + MINUTE_MS;
+  }
+}
+
+// Hours and days are summarized from the requests themselves once their last minute is in
+async function rollupClosedPeriods(periodType: "hour" | "day", now: number) {
+  const periodMs = AGGREGATE_PERIOD_MS[periodType];
+  const until = floorPeriod(summarizedUntil("minute"), periodType);
+
+  if (summarizedTo[periodType] === undefined) {
+    const latest = await storage.getLatestAnalyticsAggregate(periodType);
+    const earliestRequest = await storage.getEarliestRequestTime();
+    const retainedFrom = floorPeriod(now - AGGREGATE_RETENTION_DAYS[periodType] * 24 * 60 * MINUTE_MS, periodType);
+    summarizedTo[periodType] = earliestRequest
+      ? Math.max(
+          latest ? new Date(latest.periodEnd).getTime() : -Infinity,
+          floorPeriod(earliestRequest.getTime(), periodType),
+          retainedFrom,
+        )
+      : until;
+  }
+
+  for (let start = summarizedTo[periodType]!; start + periodMs <= until; start += periodMs) {
+    const aggregates = await storage.summarizeRequests(periodType, new Date(start), new Date(start + periodMs));
+    await storage.saveAnalyticsAggregates(aggregates);
+    summarizedTo[periodType] = start + periodMs;
+  }
+}
+
+export async function rollupAnalytics(now: number = Date.now()): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    await rollupMinutes(now);
+    await rollupClosedPeriods("hour", now);
+    await rollupClosedPeriods("day", now);
+  } finally {
+    running = false;
+  }
+}
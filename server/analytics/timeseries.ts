@@ -0,0 +1,156 @@
+import {
+  analyticsRangeMs,
+  type AggregatePeriodType,
+  type AggregateTopEntry,
+  type AnalyticsCounts,
+  type AnalyticsRange,
+  type AnalyticsTimeseries,
+  type DashboardTraffic,
+  type InsertAnalyticsAggregate,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { AGGREGATE_PERIOD_MS, floorPeriod, summarizedUntil } from "./rollup";
+
+// Reads traffic figures from the analytics aggregates. Closed periods come from the stored
+// aggregate of the requested size; the edges of a range and the period still in progress are
+// made up from smaller aggregates, down to minutes. Minutes the rollup has not reached yet,
+// including the one in progress, are summarized from the requests themselves.
+
+const TOP_LIMIT = 10;
+// Most buckets a time series may have; longer ranges need a coarser granularity
+export const MAX_TIMESERIES_POINTS = 1500;
+
+export interface AnalyticsScope {
+  tenantId?: string;
+  // Restricts figures to these tenants, for users who cannot see every tenant
+  tenantIds?: string[];
+}
+
+function ceilPeriod(time: number, periodType: AggregatePeriodType): number {
+  return Math.ceil(time / AGGREGATE_PERIOD_MS[periodType]) * AGGREGATE_PERIOD_MS[periodType];
+}
+
+// The next smaller aggregate, used for the parts of a range a whole period does not cover
+const FINER_PERIOD: Record<Exclude<AggregatePeriodType, "minute">, AggregatePeriodType> = { hour: "minute", day: "hour" };
+
+function inScope(scope: AnalyticsScope, tenantId: string): boolean {
+  return (!scope.tenantId || tenantId === scope.tenantId) && (!scope.tenantIds || scope.tenantIds.includes(tenantId));
+}
+
+// Per-minute summaries of [from, to) straight from the requests, for minutes not rolled up yet
+async function summarizeRecentMinutes(scope: AnalyticsScope, from: number, to: number): Promise<InsertAnalyticsAggregate[]> {
+  const summaries: InsertAnalyticsAggregate[] = [];
+  for (let start = from; start < to; start = floorPeriod(start, "minute") + AGGREGATE_PERIOD_MS.minute) {
+    const end = Math.min(to, floorPeriod(start, "minute") + AGGREGATE_PERIOD_MS.minute);
+    const aggregates = await storage.summarizeRequests("minute", new Date(start), new Date(end));
+    summaries.push(...aggregates.filter(a => inScope(scope, a.tenantId)));
+  }
+  return summaries;
+}
+
+// Aggregates that together cover [from, to) without overlapping
+async function collectAggregates(scope: AnalyticsScope, periodType: AggregatePeriodType, from: number, to: number): Promise<InsertAnalyticsAggregate[]> {
+  const stored = (start: number, end: number): Promise<InsertAnalyticsAggregate[]> => start < end
+    ? storage.getAnalyticsAggregates({ ...scope, periodType, from: new Date(start), to: new Date(end) })
+    : Promise.resolve([]);
+  if (periodType === "minute") {
+    const summarized = Math.max(from, Math.min(to, summarizedUntil("minute")));
+    return [...await stored(from, summarized), ...await summarizeRecentMinutes(scope, summarized, to)];
+  }
+
+  const finer = FINER_PERIOD[periodType];
+  const wholeFrom = Math.min(ceilPeriod(from, periodType), to);
+  const wholeTo = Math.max(wholeFrom, Math.min(floorPeriod(to, periodType), summarizedUntil(periodType)));
+  return [
+    ...from < wholeFrom ? await collectAggregates(scope, finer, from, wholeFrom) : [],
+    ...await stored(wholeFrom, wholeTo),
+    ...wholeTo < to ? await collectAggregates(scope, finer, wholeTo, to) : [],
+  ];
+}
+
+function emptyCounts(): AnalyticsCounts {
+  return { totalRequests: 0, blockedRequests: 0, monitoredRequests: 0, challengedRequests: 0, allowedRequests: 0, avgScore: 0 };
+}
+
+// Sums counts; the average score is weighted by each aggregate's requests
+function sumCounts(aggregates: InsertAnalyticsAggregate[]): AnalyticsCounts {
+  const counts = emptyCounts();
+  let scoreTotal = 0;
+  for (const a of aggregates) {
+    counts.totalRequests += a.totalRequests ?? 0;
+    counts.blockedRequests += a.blockedRequests ?? 0;
+    counts.monitoredRequests += a.monitoredRequests ?? 0;
+    counts.challengedRequests += a.challengedRequests ?? 0;
+    counts.allowedRequests += a.allowedRequests ?? 0;
+    scoreTotal += (a.avgScore ?? 0) * (a.totalRequests ?? 0);
+  }
+  counts.avgScore = counts.totalRequests > 0 ? Math.round(scoreTotal / counts.totalRequests * 10) / 10 : 0;
+  return counts;
+}
+
+function sumMaps(maps: Array<Record<string, number> | null>): Record<string, number> {
+  const total: Record<string, number> = {};
+  maps.forEach(map => Object.entries(map ?? {}).forEach(([key, count]) => {
+    total[key] = (total[key] ?? 0) + count;
+  }));
+  return total;
+}
+
+function mergeTopEntries(lists: Array<AggregateTopEntry[] | null>): AggregateTopEntry[] {
+  const merged = new Map<string, AggregateTopEntry>();
+  lists.forEach(list => (list ?? []).forEach(({ key, label, count }) => {
+    const entry = merged.get(key) ?? { key, ...(label && { label }), count: 0 };
+    entry.count += count;
+    merged.set(key, entry);
+  }));
+  return Array.from(merged.values()).sort((a, b) => b.count - a.count).slice(0, TOP_LIMIT);
+}
+
+export async function getTrafficTimeseries(
+  scope: AnalyticsScope,
+  range: AnalyticsRange,
+  granularity: AggregatePeriodType,
+  now: number = Date.now(),
+): Promise<AnalyticsTimeseries> {
+  const periodMs = AGGREGATE_PERIOD_MS[granularity];
+  const from = floorPeriod(now - analyticsRangeMs[range], granularity);
+  const aggregates = await collectAggregates(scope, granularity, from, now);
+
+  const buckets = new Map<number, InsertAnalyticsAggregate[]>();
+  for (const aggregate of aggregates) {
+    const start = floorPeriod(new Date(aggregate.periodStart).getTime(), granularity);
+    if (!buckets.has(start)) buckets.set(start, []);
+    buckets.get(start)!.push(aggregate);
+  }
+
+  const points = [];
+  for (let start = from; start < now; start += periodMs) {
+    points.push({ periodStart: new Date(start).toISOString(), ...sumCounts(buckets.get(start) ?? []) });
+  }
+
+  return {
+    range,
+    granularity,
+    from: new Date(from).toISOString(),
+    to: new Date(now).toISOString(),
+    points,
+    totals: sumCounts(aggregates),
+    statusCodes: sumMaps(aggregates.map(a => a.statusCodesJson)),
+    methods: sumMaps(aggregates.map(a => a.methodsJson)),
+    topPaths: mergeTopEntries(aggregates.map(a => a.topPathsJson)),
+    topIps: mergeTopEntries(aggregates.map(a => a.topIpsJson)),
+    topRules: mergeTopEntries(aggregates.map(a => a.topRulesJson)),
+  };
+}
+
+// Request figures for the dashboard over [from, to)
+export async function getDashboardTraffic(scope: AnalyticsScope, from: number, to: number = Date.now()): Promise<DashboardTraffic> {
+  const counts = sumCounts(await collectAggregates(scope, "hour", from, to));
+  return {
+    totalRequests: counts.totalRequests,
+    blockedRequests: counts.blockedRequests,
+    flaggedRequests: counts.monitoredRequests,
+    allowedRequests: counts.allowedRequests,
+    blockPercentage: counts.totalRequests > 0 ? (counts.blockedRequests / counts.totalRequests) * 100 : 0,
+  };
+}
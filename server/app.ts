@@ -10,6 +10,9 @@ import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { storage } from "./storage";
+import { authenticatePassword } from "./auth/login";
+import { sessionStore } from "./auth/session-store";
+import { apiTokenAuth } from "./auth/api-tokens";
 
 import { registerRoutes } from "./routes";
 
@@ -38,15 +41,10 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
-// Session configuration - Using memory store for SQLite
-import MemoryStore from "memorystore";
-const MemStore = MemoryStore(session);
-
+// Session configuration - persisted in the sessions table so sign-ins survive restarts
 app.use(
   session({
-    store: new MemStore({
-      checkPeriod: 86400000, // 24 hours
-    }),
+    store: sessionStore,
     secret: process.env.SESSION_SECRET || "dev-secret-change-in-production",
     resave: false,
     saveUninitialized: false,
@@ -64,15 +62,21 @@ passport.use(
   new LocalStrategy(
     {
       usernameField: "email",
-      passwordField: "email", // For demo, use email as both username and password
+      passwordField: "password",
     },
-    async (email, _, done) => {
+    async (email, password, done) => {
       try {
-        const user = await storage.getUserByEmail(email);
-        if (!user) {
-          return done(null, false, { message: "User not found" });
+        const result = await authenticatePassword(email, password);
+        if (!result.ok) {
+          if (result.reason === "locked") {
+            return done(null, false, { message: "Account is temporarily locked", code: "locked", lockedUntil: result.lockedUntil } as any);
+          }
+          if (result.reason === "deactivated") {
+            return done(null, false, { message: "This account has been deactivated", code: "deactivated" } as any);
+          }
+          return done(null, false, { message: "Invalid email or password", code: "invalid_credentials" } as any);
         }
-        return done(null, user);
+        return done(null, result.user);
       } catch (err) {
         return done(err);
       }
@@ -87,7 +91,8 @@ passport.serializeUser((user: any, done) => {
 passport.deserializeUser(async (id: string, done) => {
   try {
     const user = await storage.getUser(id);
-    done(null, user);
+    // A deactivated user's remaining sessions stop working straight away
+    done(null, user && !user.deactivatedAt ? user : false);
   } catch (err) {
     done(err);
   }
@@ -95,6 +100,18 @@ passport.deserializeUser(async (id: string, done) => {
 
 app.use(passport.initialize());
 app.use(passport.session());
+app.use("/api", apiTokenAuth);
+
+// Record where a signed-in session is used from, for the active sessions list
+app.use((req, _res, next) => {
+  if (req.isAuthenticated() && !req.apiToken) {
+    const ip = req.ip ?? null;
+    if (!req.session.client || req.session.client.ip !== ip) {
+      req.session.client = { userAgent: req.get("user-agent")?.substring(0, 500) ?? null, ip };
+    }
+  }
+  next();
+});
 
 // Config endpoint for Replit domain
 app.get("/api/config", (req: Request, res: Response) => {
@@ -0,0 +1,140 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import type { AuditChainStatus, AuditChanges, AuditLog, AuditTargetType, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Hash-chained audit log. Every entry stores the previous entry's hash and
+// hash = SHA-256(prevHash + canonical JSON of the entry's fields), so changing or deleting an
+// entry invalidates it and everything after it. Entries are appended one at a time so the
+// chain never forks.
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// Values never written to the log; a change to them is recorded as "[redacted]"
+const REDACTED_FIELDS = new Set(["secret", "token", "tokenHash", "routingKey", "password", "passwordHash", "totpSecret", "recoveryCodes"]);
+// Bookkeeping that changes on every write and would only add noise
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "hitCount", "lastHitAt", "lastUsedAt", "lastUsedIp"]);
+const VERIFY_BATCH_SIZE = 500;
+
+export interface AuditEvent {
+  action: string;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the signed-in user; sign-in events name the account being signed in to
+  actor?: Pick<User, "id" | "email"> | null;
+}
+
+type AuditEntryFields = Omit<AuditLog, "id" | "sequence" | "prevHash" | "hash" | "createdAt">;
+
+// JSON with object keys sorted, so a stored entry hashes the same after a database round trip
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  ) ?? "null";
+}
+
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.has(key)) return;
+    const oldValue = from[key] ?? null;
+    const newValue = to[key] ?? null;
+    if (canonicalJson(oldValue) === canonicalJson(newValue)) return;
+
+    const redact = REDACTED_FIELDS.has(key);
+    changes[key] = {
+      ...(before && { before: redact && oldValue !== null ? "[redacted]" : oldValue }),
+      ...(after && { after: redact && newValue !== null ? "[redacted]" : newValue }),
+    };
+  });
+  // Dates and other objects are stored as their JSON form
+  return JSON.parse(JSON.stringify(changes));
+}
+
+export function hashAuditEntry(entry: Omit<AuditLog, "id" | "hash">): string {
+  const fields = {
+    sequence: entry.sequence,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    actorId: entry.actorId ?? null,
+    actorEmail: entry.actorEmail ?? null,
+    apiTokenId: entry.apiTokenId ?? null,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId ?? null,
+    changes: entry.changes ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+  };
+  return createHash("sha256").update(entry.prevHash + canonicalJson(fields)).digest("hex");
+}
+
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+function appendAuditEntry(fields: AuditEntryFields): Promise<AuditLog> {
+  const appended = appendQueue.then(async () => {
+    const last = await storage.getLatestAuditLog();
+    const entry = {
+      ...fields,
+      sequence: (last?.sequence ?? 0) + 1,
+      prevHash: last?.hash ?? GENESIS_HASH,
+      createdAt: new Date(),
+    };
+    return storage.createAuditLog({ ...entry, hash: hashAuditEntry(entry) });
+  });
+  appendQueue = appended.catch(() => undefined);
+  return appended;
+}
+
+// The action has already happened by the time this runs, so a failed write is logged rather
+// than turned into an error response
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  const actor = event.actor !== undefined ? event.actor : req.user as User | undefined;
+  try {
+    await appendAuditEntry({
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      apiTokenId: req.apiToken?.id ?? null,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      changes: diffRecords(event.before, event.after),
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("user-agent")?.substring(0, 500) ?? null,
+    });
+  } catch (error) {
+    console.error("Error writing audit log:", error);
+  }
+}
+
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  let prevHash = GENESIS_HASH;
+  let expected = 1;
+  let checked = 0;
+  const broken = (brokenAt: number, reason: string): AuditChainStatus =>
+    ({ valid: false, checked, brokenAt, reason, headSequence: expected - 1, headHash: checked ? prevHash : null });
+
+  for (;;) {
+    const batch = await storage.getAuditLogsFrom(expected, VERIFY_BATCH_SIZE);
+    if (batch.length === 0) break;
+    for (const entry of batch) {
+      if (entry.sequence !== expected) {
+        return broken(expected, `Entry ${expected} is missing`);
+      }
+      if (entry.prevHash !== prevHash || hashAuditEntry(entry) !== entry.hash) {
+        return broken(entry.sequence, `Entry ${entry.sequence} does not match its hash`);
+      }
+      prevHash = entry.hash;
+      expected += 1;
+      checked += 1;
+    }
+  }
+  return { valid: true, checked, brokenAt: null, reason: null, headSequence: checked, headHash: checked ? prevHash : null };
+}
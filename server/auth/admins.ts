@@ -0,0 +1,9 @@
+import type { User } from "@shared/schema";
+import { storage } from "../storage";
+
+// Demoting, deactivating or deleting this user would leave nobody able to administer the portal
+export async function isLastActiveAdmin(user: User): Promise<boolean> {
+  if (user.role !== "admin" || user.deactivatedAt) return false;
+  const users = await storage.getUsers();
+  return !users.some(u => u.id !== user.id && u.role === "admin" && !u.deactivatedAt);
+}
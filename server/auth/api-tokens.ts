@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiToken, ApiTokenScope, User } from "@shared/schema";
+import { storage } from "../storage";
+
+// API tokens: `Authorization: Bearer waf_...` authenticates as the token's user, limited to the
+// routes its scopes cover. The user's role still applies on top of the scopes.
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API token instead of a session
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const TOKEN_PREFIX = "waf_";
+// lastUsedAt is written at most this often per token
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Roles allowed to create a token with each scope; no point granting what the role cannot do
+export const SCOPE_ROLES: Record<ApiTokenScope, User["role"][]> = {
+  "traffic:read": ["admin", "operator", "viewer"],
+  "rules:write": ["admin"],
+  "tenants:write": ["admin"],
+  "ingress": ["admin", "operator"],
+};
+
+// First match wins; routes not listed here cannot be reached with a token at all
+const TOKEN_ROUTE_SCOPES: { access: "read" | "write" | "any"; pattern: RegExp; scopes: ApiTokenScope[] }[] = [
+  { access: "read", pattern: /^\/api\/tenants\/[^/]+\/requests$/, scopes: ["traffic:read"] },
+  { access: "read", pattern: /^\/api\/(dashboard|analytics|requests|alerts|export|traffic|sse)(\/|$)/, scopes: ["traffic:read"] },
+  { access: "read", pattern: /^\/api\/(tenants|policies|rules|ip-lists)(\/|$)/, scopes: ["traffic:read", "rules:write", "tenants:write"] },
+  { access: "write", pattern: /^\/api\/(rules|ip-lists)(\/|$)/, scopes: ["rules:write"] },
+  { access: "write", pattern: /^\/api\/requests\/[^/]+\/(override|whitelist-ip|blacklist-ip|create-rule)$/, scopes: ["rules:write"] },
+  { access: "write", pattern: /^\/api\/(tenants|policies)(\/|$)/, scopes: ["tenants:write"] },
+  { access: "any", pattern: /^\/api\/waf\/ingress$/, scopes: ["ingress"] },
+  { access: "any", pattern: /^\/api\/waf\/analyze$/, scopes: ["ingress", "rules:write"] },
+];
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.substring(0, 12) };
+}
+
+export function ungrantableScopes(role: User["role"], scopes: ApiTokenScope[]): ApiTokenScope[] {
+  return scopes.filter(scope => !SCOPE_ROLES[scope].includes(role));
+}
+
+export function requiredScopes(method: string, path: string): ApiTokenScope[] | null {
+  const access = method === "GET" || method === "HEAD" ? "read" : "write";
+  const match = TOKEN_ROUTE_SCOPES.find(r => (r.access === "any" || r.access === access) && r.pattern.test(path));
+  return match ? match.scopes : null;
+}
+
+// Session requests always pass; token requests need one of the route's scopes
+export function tokenAllows(req: Request): boolean {
+  if (!req.apiToken) return true;
+  const scopes = requiredScopes(req.method, req.path);
+  return !!scopes && scopes.some(scope => req.apiToken!.scopes.includes(scope));
+}
+
+export function isTokenUsable(token: ApiToken): boolean {
+  return !token.revokedAt && (!token.expiresAt || new Date(token.expiresAt).getTime() > Date.now());
+}
+
+// Resolves a bearer token to its user; a bad token is rejected rather than falling back to the session
+export async function apiTokenAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization");
+  if (!header || !/^Bearer\s/i.test(header)) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(header.substring(7).trim()));
+    const user = token && isTokenUsable(token) ? await storage.getUser(token.userId) : undefined;
+    if (!token || !user || user.deactivatedAt) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    req.user = user;
+    req.apiToken = token;
+
+    if (!token.lastUsedAt || Date.now() - new Date(token.lastUsedAt).getTime() > LAST_USED_INTERVAL_MS) {
+      storage.updateApiToken(token.id, { lastUsedAt: new Date(), lastUsedIp: req.ip ?? null })
+        .catch(error => console.error("Error recording API token use:", error));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,96 @@
+import { passwordPolicyErrors, type User } from "@shared/schema";
+import { storage } from "../storage";
+import { createResetToken, getDummyPasswordHash, hashPassword, hashResetToken, verifyPassword } from "./passwords";
+
+// Password sign-in with lockout: after `maxFailedLogins` wrong passwords in a row the account
+// is locked for `lockoutMinutes`. Both limits come from the global settings. Deactivated accounts
+// are only reported as such once the password is right, so the check reveals nothing to guessers.
+
+export type LoginResult =
+  | { ok: true; user: User }
+  | { ok: false; reason: "invalid" }
+  | { ok: false; reason: "deactivated" }
+  | { ok: false; reason: "locked"; lockedUntil: Date };
+
+export async function authenticatePassword(email: string, password: string): Promise<LoginResult> {
+  const user = await storage.getUserByEmail(email.trim());
+  if (!user) {
+    await verifyPassword(password, await getDummyPasswordHash());
+    return { ok: false, reason: "invalid" };
+  }
+
+  if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+    return { ok: false, reason: "locked", lockedUntil: new Date(user.lockedUntil) };
+  }
+
+  const credentials = await storage.getUserCredentials(user.id);
+  const valid = await verifyPassword(password, credentials?.passwordHash ?? await getDummyPasswordHash());
+  if (!valid || !credentials?.passwordHash) {
+    return recordFailedLogin(user);
+  }
+
+  if (user.deactivatedAt) {
+    return { ok: false, reason: "deactivated" };
+  }
+
+  if (user.failedLoginCount || user.lockedUntil) {
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+  }
+  return { ok: true, user: { ...user, failedLoginCount: 0, lockedUntil: null } };
+}
+
+async function recordFailedLogin(user: User): Promise<LoginResult> {
+  const { maxFailedLogins, lockoutMinutes } = await storage.getSettings();
+  const failedLoginCount = (user.failedLoginCount ?? 0) + 1;
+
+  if (failedLoginCount >= maxFailedLogins) {
+    const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil });
+    console.warn(`Account ${user.email} locked until ${lockedUntil.toISOString()} after ${failedLoginCount} failed sign-ins`);
+    return { ok: false, reason: "locked", lockedUntil };
+  }
+
+  await storage.updateUser(user.id, { failedLoginCount });
+  return { ok: false, reason: "invalid" };
+}
+
+// Re-entering the password confirms sensitive account changes
+export async function verifyUserPassword(userId: string, password: string | undefined): Promise<boolean> {
+  const credentials = await storage.getUserCredentials(userId);
+  return !!password && !!credentials?.passwordHash && verifyPassword(password, credentials.passwordHash);
+}
+
+export async function checkPasswordPolicy(password: string): Promise<string[]> {
+  return passwordPolicyErrors(password, await storage.getSettings());
+}
+
+// Setting a password also consumes any outstanding reset link and lifts a lockout
+export async function setUserPassword(userId: string, password: string): Promise<void> {
+  await storage.updateUserCredentials(userId, {
+    passwordHash: await hashPassword(password),
+    resetTokenHash: null,
+    resetTokenExpiresAt: null,
+  });
+  await storage.updateUser(userId, { passwordSetAt: new Date(), failedLoginCount: 0, lockedUntil: null });
+}
+
+// Called once sign-in fully completes, after the second factor when there is one
+export async function recordLogin(userId: string, ip: string | undefined): Promise<void> {
+  await storage.updateUser(userId, { lastLoginAt: new Date(), lastLoginIp: ip ?? null });
+}
+
+// Issuing a new link replaces the previous one; the current password keeps working until it is used
+export async function issuePasswordResetToken(userId: string, ttlMs?: number) {
+  const { token, tokenHash, expiresAt } = createResetToken(ttlMs);
+  await storage.updateUserCredentials(userId, { resetTokenHash: tokenHash, resetTokenExpiresAt: expiresAt });
+  return { token, expiresAt };
+}
+
+export async function findUserByResetToken(token: string): Promise<User | undefined> {
+  const credentials = await storage.getUserCredentialsByResetToken(hashResetToken(token));
+  if (!credentials?.resetTokenExpiresAt || new Date(credentials.resetTokenExpiresAt) <= new Date()) {
+    return undefined;
+  }
+  const user = await storage.getUser(credentials.userId);
+  return user && !user.deactivatedAt ? user : undefined;
+}
@@ -0,0 +1,227 @@
+import * as client from "openid-client";
+import type { Request } from "express";
+import type { Settings, User } from "@shared/schema";
+import { storage } from "../storage";
+import { isLastActiveAdmin } from "./admins";
+
+// OpenID Connect single sign-on: the authorization code flow with PKCE against the issuer in the
+// settings. Claims from the ID token (and userinfo) decide the user's role and tenant access on
+// every sign-in, so the identity provider stays the source of truth for mapped accounts. The
+// client secret, when the provider issues one, is read from OIDC_CLIENT_SECRET.
+
+declare module "express-session" {
+  interface SessionData {
+    // Set when sign-in is handed to the identity provider; consumed by the callback
+    oidcLogin?: { codeVerifier: string; state: string; nonce: string; expiresAt: number };
+    // How the session was signed in; missing on password sessions
+    authMethod?: "password" | "oidc";
+  }
+}
+
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+const PENDING_OIDC_LOGIN_TTL_MS = 10 * 60 * 1000;
+const ROLE_RANK: Record<User["role"], number> = { viewer: 0, operator: 1, admin: 2 };
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+export class OidcLoginError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+export type OidcClaims = Record<string, unknown>;
+
+export function isOidcConfigured(settings: Settings): boolean {
+  return settings.oidcEnabled && !!settings.oidcIssuerUrl && !!settings.oidcClientId;
+}
+
+// The callback URL registered with the provider; OIDC_REDIRECT_URI overrides it behind a proxy
+export function oidcRedirectUri(req: Request): string {
+  return process.env.OIDC_REDIRECT_URI || `${req.protocol}://${req.get("host")}${OIDC_CALLBACK_PATH}`;
+}
+
+// Discovery is cached until the issuer, client id or secret changes
+let discovered: { key: string; config: Promise<client.Configuration> } | null = null;
+
+function getOidcConfiguration(settings: Settings): Promise<client.Configuration> {
+  const secret = process.env.OIDC_CLIENT_SECRET || undefined;
+  const key = [settings.oidcIssuerUrl, settings.oidcClientId, secret ?? ""].join("\n");
+  if (discovered?.key !== key) {
+    const issuer = new URL(settings.oidcIssuerUrl);
+    // Plain http is only allowed to a provider on this machine, such as the development mock
+    const insecure = issuer.protocol === "http:" && LOOPBACK_HOSTS.has(issuer.hostname);
+    const config = client.discovery(
+      issuer,
+      settings.oidcClientId,
+      secret,
+      secret ? undefined : client.None(),
+      insecure ? { execute: [client.allowInsecureRequests] } : undefined,
+    );
+    discovered = { key, config };
+    config.catch(() => {
+      if (discovered?.key === key) discovered = null;
+    });
+  }
+  return discovered.config;
+}
+
+// Stores the PKCE verifier, state and nonce in the session and returns where to send the browser
+export async function beginOidcLogin(req: Request, settings: Settings): Promise<URL> {
+  const config = await getOidcConfiguration(settings);
+  const codeVerifier = client.randomPKCECodeVerifier();
+  const state = client.randomState();
+  const nonce = client.randomNonce();
+  req.session.oidcLogin = { codeVerifier, state, nonce, expiresAt: Date.now() + PENDING_OIDC_LOGIN_TTL_MS };
+
+  return client.buildAuthorizationUrl(config, {
+    redirect_uri: oidcRedirectUri(req),
+    scope: settings.oidcScopes,
+    code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: "S256",
+    state,
+    nonce,
+  });
+}
+
+// Exchanges the code from the callback and returns the ID token claims, filled in from userinfo
+export async function completeOidcLogin(req: Request, settings: Settings): Promise<OidcClaims> {
+  const pending = req.session.oidcLogin;
+  delete req.session.oidcLogin;
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new OidcLoginError("expired", "Single sign-on took too long, please start again");
+  }
+
+  const config = await getOidcConfiguration(settings);
+  const callbackUrl = new URL(oidcRedirectUri(req));
+  callbackUrl.search = new URL(req.originalUrl, callbackUrl).search;
+
+  let tokens;
+  try {
+    tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: pending.state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+  } catch (error) {
+    if (error instanceof client.AuthorizationResponseError) {
+      throw new OidcLoginError("denied", error.error_description || "The identity provider refused the sign-in");
+    }
+    throw error;
+  }
+
+  const claims = tokens.claims()!;
+  const userInfo = config.serverMetadata().userinfo_endpoint
+    ? await client.fetchUserInfo(config, tokens.access_token, claims.sub)
+    : {};
+  return { ...userInfo, ...claims };
+}
+
+// Values of a claim as strings; `path` may name a nested claim, e.g. "realm_access.roles"
+export function claimValues(claims: OidcClaims, path: string): string[] {
+  if (!path) return [];
+  const value = path.split(".").reduce<unknown>(
+    (current, key) => current && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined,
+    claims,
+  );
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(v => typeof v === "string" || typeof v === "number" || typeof v === "boolean")
+    .map(String);
+}
+
+// The highest role any matching mapping grants, and the tenants all matching mappings grant.
+// tenantIds is null when no tenant mappings are configured, leaving tenant access to admins.
+export function mapOidcClaims(claims: OidcClaims, settings: Settings): { role: User["role"] | null; tenantIds: string[] | null } {
+  const roleValues = new Set(claimValues(claims, settings.oidcRoleClaim));
+  const role = settings.oidcRoleMappings
+    .filter(m => roleValues.has(m.value))
+    .reduce<User["role"] | null>((best, m) => !best || ROLE_RANK[m.role] > ROLE_RANK[best] ? m.role : best, null);
+
+  if (settings.oidcTenantMappings.length === 0) {
+    return { role, tenantIds: null };
+  }
+  const tenantValues = new Set(claimValues(claims, settings.oidcTenantClaim));
+  const tenantIds = Array.from(new Set(settings.oidcTenantMappings
+    .filter(m => tenantValues.has(m.value))
+    .flatMap(m => m.tenantIds)));
+  return { role, tenantIds };
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(v => b.includes(v));
+}
+
+// Finds the account for the identity (by subject, then by verified email), creating it when
+// allowed, and applies the mapped role and tenants. An existing account is only linked when the
+// provider asserts the email is verified, and the last active admin is never demoted. `previous` is the account before the sign-in
+// changed it, or null when it was just created.
+export async function resolveOidcUser(claims: OidcClaims, settings: Settings): Promise<{ user: User; previous: User | null }> {
+  const subject = `${claims.iss}|${claims.sub}`;
+  const email = typeof claims.email === "string" ? claims.email.trim() : "";
+
+  let user = await storage.getUserByOidcSubject(subject);
+  if (!user) {
+    if (!email) {
+      throw new OidcLoginError("email_missing", "The identity provider did not share an email address");
+    }
+    if (claims.email_verified === false) {
+      throw new OidcLoginError("email_unverified", "The email address has not been verified by the identity provider");
+    }
+    user = await storage.getUserByEmail(email);
+    if (user?.oidcSubject) {
+      throw new OidcLoginError("account_conflict", "This account is linked to a different single sign-on identity");
+    }
+    // Providers that omit the claim may let users pick any address, so linking needs it stated
+    if (user && claims.email_verified !== true) {
+      throw new OidcLoginError("email_unverified", "The email address has not been verified by the identity provider");
+    }
+  }
+
+  const mapped = mapOidcClaims(claims, settings);
+
+  if (!user) {
+    if (!settings.oidcAutoCreateUsers) {
+      throw new OidcLoginError("not_provisioned", "No account exists for this identity");
+    }
+    const role = mapped.role ?? settings.oidcDefaultRole;
+    if (role === "none") {
+      throw new OidcLoginError("no_role", "Your identity does not grant access to this portal");
+    }
+    const created = await storage.createUser({
+      email,
+      firstName: typeof claims.given_name === "string" ? claims.given_name : undefined,
+      lastName: typeof claims.family_name === "string" ? claims.family_name : undefined,
+      role,
+      tenantIds: mapped.tenantIds ?? [],
+      invitedBy: null,
+      oidcSubject: subject,
+    });
+    return { user: created, previous: null };
+  }
+
+  if (user.deactivatedAt) {
+    throw new OidcLoginError("deactivated", "This account has been deactivated");
+  }
+
+  // Without role mappings an existing account keeps the role an admin gave it
+  let role = mapped.role ?? (settings.oidcRoleMappings.length ? settings.oidcDefaultRole : user.role);
+  if (role === "none") {
+    throw new OidcLoginError("no_role", "Your identity does not grant access to this portal");
+  }
+  if (role !== "admin" && await isLastActiveAdmin(user)) {
+    console.warn(`OIDC: Keeping ${user.email} an admin; the mapped ${role} role would leave no active admin`);
+    role = user.role;
+  }
+
+  const updates: Partial<User> = {};
+  if (user.oidcSubject !== subject) updates.oidcSubject = subject;
+  if (role !== user.role) updates.role = role;
+  if (mapped.tenantIds && !sameMembers(mapped.tenantIds, user.tenantIds ?? [])) updates.tenantIds = mapped.tenantIds;
+  if (Object.keys(updates).length === 0) {
+    return { user, previous: user };
+  }
+  const updated = await storage.updateUser(user.id, updates);
+  return { user: updated!, previous: user };
+}
@@ -0,0 +1,62 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+
+// Password hashing with scrypt. Hashes are stored as scrypt$N$r$p$salt$hash so the cost
+// parameters can be raised later without invalidating existing passwords.
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Password set/reset links stay valid for a day
+export const RESET_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, keyLength, options, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, saltB64, keyB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !keyB64) return false;
+
+  const expected = Buffer.from(keyB64, "base64");
+  const key = await deriveKey(password, Buffer.from(saltB64, "base64"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return timingSafeEqual(key, expected);
+}
+
+// Verified against when the user does not exist, so unknown emails take as long as wrong passwords
+let dummyHash: Promise<string> | undefined;
+export function getDummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  return dummyHash;
+}
+
+// Only the SHA-256 of a reset token is stored; the token itself is shown once in the link
+export function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createResetToken(ttlMs = RESET_TOKEN_TTL_MS): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashResetToken(token), expiresAt: new Date(Date.now() + ttlMs) };
+}
+
+export function resetPasswordPath(token: string): string {
+  return `/reset-password?token=${encodeURIComponent(token)}`;
+}
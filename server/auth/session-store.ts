@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import session from "express-session";
+import type { Session } from "@shared/schema";
+import { storage } from "../storage";
+
+// express-session store backed by the `sessions` table, so sign-ins survive restarts and a
+// session can be revoked by deleting its row. Rows carry the signed-in user and client details
+// for the "active sessions" list.
+
+declare module "express-session" {
+  interface SessionData {
+    // Client the session was last used from; refreshed when the IP changes
+    client?: { userAgent: string | null; ip: string | null };
+  }
+}
+
+// Rolling expiry writes are throttled; lastSeenAt is accurate to this interval
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function expiryOf(sess: session.SessionData): Date {
+  const expires = sess.cookie?.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+// Public identifier for a session; the sid itself is a bearer credential and never leaves the server
+export function sessionHandle(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").substring(0, 32);
+}
+
+export function findSessionByHandle(sessions: Session[], handle: string): Session | undefined {
+  return sessions.find(s => sessionHandle(s.sid) === handle);
+}
+
+export class DatabaseSessionStore extends session.Store {
+  private lastTouched = new Map<string, number>();
+  // Sessions this process has loaded or created, with their expiry. Saving one of these only
+  // updates its row, so a request still in flight when the session is revoked cannot bring the
+  // row back; any other sid is a new session and gets its row on its first save.
+  private stored = new Map<string, number>();
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    storage.getSession(sid)
+      .then(row => {
+        if (!row || new Date(row.expire).getTime() <= Date.now()) return callback(null, null);
+        this.stored.set(sid, new Date(row.expire).getTime());
+        callback(null, row.sess as session.SessionData);
+      })
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    const expire = expiryOf(sess);
+    const data = {
+      sess,
+      expire,
+      userId: (sess as any).passport?.user ?? null,
+      userAgent: sess.client?.userAgent ?? null,
+      ipAddress: sess.client?.ip ?? null,
+    };
+    const save = this.stored.has(sid)
+      ? storage.updateSession(sid, data).then(updated => {
+          if (!updated) this.stored.delete(sid);
+          return updated;
+        })
+      : storage.createSession(sid, data).then(() => true);
+    save
+      .then(saved => {
+        if (saved) {
+          this.stored.set(sid, expire.getTime());
+          this.lastTouched.set(sid, Date.now());
+        }
+        callback?.();
+      })
+      .catch(err => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.stored.delete(sid);
+    this.lastTouched.delete(sid);
+    storage.deleteSession(sid)
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    const last = this.lastTouched.get(sid);
+    if (last && Date.now() - last < TOUCH_INTERVAL_MS) {
+      callback?.();
+      return;
+    }
+    this.lastTouched.set(sid, Date.now());
+    if (this.stored.has(sid)) this.stored.set(sid, expiryOf(sess).getTime());
+    storage.touchSession(sid, expiryOf(sess))
+      .catch(error => console.error("Error touching session:", error))
+      .finally(() => callback?.());
+  }
+
+  // Called by the retention job; also bounds the throttle map
+  async pruneExpired(): Promise<number> {
+    this.lastTouched.clear();
+    const now = Date.now();
+    this.stored.forEach((expire, sid) => {
+      if (expire <= now) this.stored.delete(sid);
+    });
+    return storage.deleteExpiredSessions();
+  }
+}
+
+export const sessionStore = new DatabaseSessionStore();
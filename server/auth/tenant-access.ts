@@ -0,0 +1,22 @@
+import type { User } from "@shared/schema";
+
+// Tenant-based authorization: admins see every tenant, operators and viewers only the tenants
+// listed in their tenantIds. An empty list grants no tenants.
+
+type TenantScopedUser = Pick<User, "role" | "tenantIds">;
+
+// Tenant ids the user may see, or undefined for every tenant
+export function accessibleTenantIds(user: TenantScopedUser): string[] | undefined {
+  return user.role === "admin" ? undefined : user.tenantIds ?? [];
+}
+
+// Records without a tenant (global alerts) are admin-only
+export function canAccessTenant(user: TenantScopedUser, tenantId: string | null | undefined): boolean {
+  const tenantIds = accessibleTenantIds(user);
+  return !tenantIds || (!!tenantId && tenantIds.includes(tenantId));
+}
+
+// Shared records such as global rules and IP list entries are readable by everyone
+export function canViewTenantRecord(user: TenantScopedUser, tenantId: string | null | undefined): boolean {
+  return !tenantId || canAccessTenant(user, tenantId);
+}
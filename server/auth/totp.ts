@@ -0,0 +1,107 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Time-based one-time passwords (RFC 6238): HMAC-SHA1, 6 digits, 30 second steps,
+// which is what Google Authenticator, 1Password, Authy and friends expect.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step as well to allow for clock drift
+const DRIFT_STEPS = 1;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_ISSUER = "WAF Admin";
+export const RECOVERY_CODE_COUNT = 10;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpCode(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export function currentTotpCounter(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// Returns the matching time step, or null. Callers reject steps at or below the last one used
+// so a code cannot be replayed.
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const counter = currentTotpCounter(now);
+  for (let step = counter - DRIFT_STEPS; step <= counter + DRIFT_STEPS; step++) {
+    const expected = totpCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function otpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Recovery codes look like "k3v9q-7hx2m"; only their SHA-256 hashes are stored
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(7)).toLowerCase().substring(0, 10);
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
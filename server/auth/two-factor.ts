@@ -0,0 +1,115 @@
+import QRCode from "qrcode";
+import type { User } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+} from "./totp";
+
+// Two-factor authentication: a TOTP app as the second step of password sign-in, with single-use
+// recovery codes as the fallback. Roles listed in `twoFactorRequiredRoles` must enroll.
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for a user with 2FA; cleared once the second step succeeds
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+export const MAX_SECOND_FACTOR_ATTEMPTS = 5;
+
+export async function isTwoFactorRequired(user: Pick<User, "role">): Promise<boolean> {
+  const { twoFactorRequiredRoles } = await storage.getSettings();
+  return twoFactorRequiredRoles.includes(user.role);
+}
+
+export async function needsTwoFactorEnrollment(user: Pick<User, "role" | "totpEnabledAt">): Promise<boolean> {
+  return !user.totpEnabledAt && await isTwoFactorRequired(user);
+}
+
+// Starting again replaces any unconfirmed secret; the active one stays until the new one is confirmed
+export async function beginTwoFactorSetup(user: User) {
+  const secret = generateTotpSecret();
+  await storage.updateUserCredentials(user.id, { totpPendingSecret: secret });
+  const url = otpauthUrl(secret, user.email ?? user.id);
+  return {
+    secret,
+    otpauthUrl: url,
+    qrCodeDataUrl: await QRCode.toDataURL(url, { margin: 1, width: 220 }),
+  };
+}
+
+// Returns the new recovery codes, or null when the code does not match the pending secret
+export async function enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+  const credentials = await storage.getUserCredentials(userId);
+  if (!credentials?.totpPendingSecret) return null;
+
+  const step = verifyTotp(credentials.totpPendingSecret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateUserCredentials(userId, {
+    totpSecret: credentials.totpPendingSecret,
+    totpPendingSecret: null,
+    totpLastCounter: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+  await storage.updateUser(userId, { totpEnabledAt: new Date() });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await storage.updateUserCredentials(userId, {
+    totpSecret: null,
+    totpPendingSecret: null,
+    totpLastCounter: null,
+    recoveryCodeHashes: null,
+  });
+  await storage.updateUser(userId, { totpEnabledAt: null });
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateUserCredentials(userId, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+export async function getTwoFactorStatus(user: User) {
+  const credentials = await storage.getUserCredentials(user.id);
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt ?? null,
+    required: await isTwoFactorRequired(user),
+    recoveryCodesRemaining: credentials?.recoveryCodeHashes?.length ?? 0,
+  };
+}
+
+// Checks an authenticator code (each time step is accepted once) or consumes a recovery code
+export async function verifySecondFactor(
+  userId: string,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string },
+): Promise<boolean> {
+  const credentials = await storage.getUserCredentials(userId);
+  if (!credentials?.totpSecret) return false;
+
+  if (code) {
+    const step = verifyTotp(credentials.totpSecret, code);
+    if (step === null || step <= (credentials.totpLastCounter ?? -1)) return false;
+    await storage.updateUserCredentials(userId, { totpLastCounter: step });
+    return true;
+  }
+
+  if (recoveryCode) {
+    const hashes = credentials.recoveryCodeHashes ?? [];
+    const hash = hashRecoveryCode(recoveryCode);
+    if (!hashes.includes(hash)) return false;
+    await storage.updateUserCredentials(userId, { recoveryCodeHashes: hashes.filter(h => h !== hash) });
+    return true;
+  }
+
+  return false;
+}
@@ -1,6 +1,7 @@
 import { Sequelize } from "sequelize";
 import path from "path";
-import { initializeModels, User, Tenant } from "./models";
+import { initializeModels, User, Tenant, UserCredential } from "./models";
+import { createResetToken, hashPassword, resetPasswordPath } from "./auth/passwords";
 
 // Use SQLite for development/demo
 const dbPath = path.resolve(process.cwd(), "waf.db");
@@ -53,6 +54,29 @@ async function seedDefaultUsers() {
   }
 }
 
+// Make sure an admin can sign in: use ADMIN_PASSWORD when set, otherwise log a one-time setup link.
+// A new link is issued on every start until an admin has a password.
+async function ensureAdminPassword() {
+  try {
+    const admins = await User.findAll({ where: { role: "admin" }, order: [["createdAt", "ASC"]] });
+    if (admins.length === 0 || admins.some(a => a.passwordSetAt)) return;
+    const admin = admins.find(a => a.email === "admin@waf.local") ?? admins[0];
+
+    if (process.env.ADMIN_PASSWORD) {
+      await UserCredential.upsert({ userId: admin.id, passwordHash: await hashPassword(process.env.ADMIN_PASSWORD) });
+      await admin.update({ passwordSetAt: new Date() });
+      console.log(`✅ Set password for ${admin.email} from ADMIN_PASSWORD`);
+      return;
+    }
+
+    const { token, tokenHash, expiresAt } = createResetToken();
+    await UserCredential.upsert({ userId: admin.id, resetTokenHash: tokenHash, resetTokenExpiresAt: expiresAt });
+    console.log(`🔑 No admin password is set. Set one for ${admin.email} at ${resetPasswordPath(token)}`);
+  } catch (error) {
+    console.error("❌ Error preparing admin sign-in:", error);
+  }
+}
+
 // Seed demo website
 async function seedDemoWebsite() {
   try {
@@ -96,6 +120,10 @@ async function initializePerformanceOptimizations() {
     await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_alerts_tenant ON alerts(tenantId)`);
     await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_requests_tenant ON requests(tenantId)`);
     await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_requests_created ON requests(createdAt)`);
+    await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_requests_timestamp ON requests(timestamp, id)`);
+    await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_requests_tenant_timestamp ON requests(tenantId, timestamp, id)`);
+    await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_analysis_request ON analysis(requestId)`);
+    await sequelize.query(`CREATE INDEX IF NOT EXISTS idx_analysis_score ON analysis(totalScore)`);
     console.log("✅ Database indexes created for faster queries");
   } catch (error) {
     console.error("Index creation note:", (error as any).message?.substring(0, 50));
@@ -127,6 +155,7 @@ export async function syncDatabase() {
       // Seed default users and demo website (only once)
       if (!seeded) {
         await seedDefaultUsers();
+        await ensureAdminPassword();
         await seedDemoWebsite();
         seeded = true;
       }
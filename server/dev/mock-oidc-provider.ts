@@ -0,0 +1,209 @@
+import express from "express";
+import { createHash, createPublicKey, createSign, generateKeyPairSync, randomBytes } from "node:crypto";
+
+// Minimal OpenID Connect provider for trying single sign-on locally. It serves discovery, JWKS,
+// an authorize page where any identity can be typed in, the token endpoint (with PKCE checks)
+// and userinfo. Nothing is persisted; keys and codes live until the process exits.
+//
+//   npm run oidc:mock
+//
+// then in Settings set the issuer to http://localhost:9400 and the client ID to waf-admin-portal.
+// Set MOCK_OIDC_CLIENT_SECRET (and OIDC_CLIENT_SECRET for the portal) to test a confidential client.
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || "9400", 10);
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || "waf-admin-portal";
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || "";
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_S = 3600;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const kid = randomBytes(8).toString("hex");
+
+interface Identity {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  given_name?: string;
+  family_name?: string;
+  groups: string[];
+}
+
+const codes = new Map<string, {
+  identity: Identity;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}>();
+const accessTokens = new Map<string, { identity: Identity; expiresAt: number }>();
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+function signJwt(payload: object): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = createSign("RSA-SHA256").update(`${header}.${body}`).sign(privateKey);
+  return `${header}.${body}.${base64url(signature)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Accepts client_secret_basic, client_secret_post, or no secret when none is configured
+function clientAuthenticated(req: express.Request): boolean {
+  let id = req.body.client_id;
+  let secret = req.body.client_secret;
+  const basic = req.get("authorization")?.match(/^Basic (.+)$/);
+  if (basic) {
+    const [user, pass] = Buffer.from(basic[1], "base64").toString().split(":");
+    id = decodeURIComponent(user);
+    secret = decodeURIComponent(pass ?? "");
+  }
+  return id === clientId && (!clientSecret || secret === clientSecret);
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "email", "profile", "groups"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"],
+    code_challenge_methods_supported: ["S256"],
+    authorization_response_iss_parameter_supported: true,
+    claims_supported: ["sub", "email", "email_verified", "given_name", "family_name", "groups"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...createPublicKey(publicKey).export({ format: "jwk" }), kid, alg: "RS256", use: "sig" }] });
+});
+
+// A form instead of a login: whatever is entered becomes the signed-in identity
+app.get("/authorize", (req, res) => {
+  const params = req.query as Record<string, string>;
+  if (params.client_id !== clientId || params.response_type !== "code" || !params.redirect_uri) {
+    return res.status(400).send("Unknown client_id, unsupported response_type or missing redirect_uri");
+  }
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge", "code_challenge_method"]
+    .filter(name => params[name])
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params[name])}">`)
+    .join("");
+  res.send(`<!doctype html>
+<html><head><title>Mock OIDC sign-in</title>
+<style>body{font-family:sans-serif;max-width:420px;margin:48px auto}label{display:block;margin:12px 0 4px}input[type=text],input[type=email]{width:100%;padding:6px}</style>
+</head><body>
+<h2>Mock OIDC provider</h2>
+<p>Sign in to <code>${escapeHtml(clientId)}</code> as any identity.</p>
+<form method="post" action="/authorize">${hidden}
+<label>Email</label><input type="email" name="email" value="sso.admin@waf.local" required>
+<label>First name</label><input type="text" name="given_name" value="Sso">
+<label>Last name</label><input type="text" name="family_name" value="Admin">
+<label>Groups (comma separated)</label><input type="text" name="groups" value="waf-admins">
+<label><input type="checkbox" name="email_verified" value="true" checked> Email verified</label>
+<p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+</form></body></html>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email } = req.body;
+  if (client_id !== clientId || !redirect_uri) {
+    return res.status(400).send("Unknown client_id or missing redirect_uri");
+  }
+  const redirect = new URL(redirect_uri);
+  if (state) redirect.searchParams.set("state", state);
+  redirect.searchParams.set("iss", issuer);
+
+  if (req.body.deny) {
+    redirect.searchParams.set("error", "access_denied");
+    redirect.searchParams.set("error_description", "The user denied the sign-in");
+    return res.redirect(redirect.href);
+  }
+  if (code_challenge && code_challenge_method !== "S256") {
+    redirect.searchParams.set("error", "invalid_request");
+    redirect.searchParams.set("error_description", "Only S256 code challenges are supported");
+    return res.redirect(redirect.href);
+  }
+
+  const code = randomBytes(24).toString("base64url");
+  codes.set(code, {
+    identity: {
+      sub: req.body.sub || createHash("sha256").update(String(email).toLowerCase()).digest("hex").slice(0, 24),
+      email,
+      email_verified: req.body.email_verified === "true",
+      given_name: req.body.given_name || undefined,
+      family_name: req.body.family_name || undefined,
+      groups: String(req.body.groups ?? "").split(",").map(g => g.trim()).filter(Boolean),
+    },
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  redirect.searchParams.set("code", code);
+  res.redirect(redirect.href);
+});
+
+app.post("/token", (req, res) => {
+  if (!clientAuthenticated(req)) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+  if (req.body.grant_type !== "authorization_code") {
+    return res.status(400).json({ error: "unsupported_grant_type" });
+  }
+  const grant = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  if (grant.codeChallenge) {
+    const verifier = String(req.body.code_verifier ?? "");
+    if (createHash("sha256").update(verifier).digest("base64url") !== grant.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, { identity: grant.identity, expiresAt: Date.now() + TOKEN_TTL_S * 1000 });
+  res.set("Cache-Control", "no-store").json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: TOKEN_TTL_S,
+    id_token: signJwt({
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + TOKEN_TTL_S,
+      ...(grant.nonce && { nonce: grant.nonce }),
+      ...grant.identity,
+    }),
+  });
+});
+
+app.get("/userinfo", (req, res) => {
+  const token = req.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  const grant = token ? accessTokens.get(token) : undefined;
+  if (!grant || grant.expiresAt < Date.now()) {
+    return res.status(401).set("WWW-Authenticate", 'Bearer error="invalid_token"').end();
+  }
+  res.json(grant.identity);
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider at ${issuer} (client ID ${clientId}${clientSecret ? ", secret required" : ""})`);
+});
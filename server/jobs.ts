@@ -1,4 +1,9 @@
 import { storage } from "./storage";
+import { flushRuleHits } from "./waf/rule-hits";
+import { processWebhookDeliveries } from "./webhooks/delivery";
+import { sessionStore } from "./auth/session-store";
+import { aggregatePeriodTypes } from "@shared/schema";
+import { rollupAnalytics, AGGREGATE_RETENTION_DAYS } from "./analytics/rollup";
 
 export async function startDataRetentionJob() {
   // Run every 6 hours
@@ -21,33 +26,61 @@ export async function startDataRetentionJob() {
           console.log(`Anonymized ${anonymized} old IPs for tenant ${tenant.id}`);
         }
       }
+
+      const deliveries = await storage.deleteOldWebhookDeliveries(30);
+      if (deliveries > 0) {
+        console.log(`Deleted ${deliveries} old webhook deliveries`);
+      }
+
+      for (const periodType of aggregatePeriodTypes) {
+        const aggregates = await storage.deleteOldAnalyticsAggregates(
+          periodType,
+          new Date(Date.now() - AGGREGATE_RETENTION_DAYS[periodType] * 24 * 60 * 60 * 1000),
+        );
+        if (aggregates > 0) {
+          console.log(`Deleted ${aggregates} old ${periodType} aggregates`);
+        }
+      }
+
+      const sessions = await sessionStore.pruneExpired();
+      if (sessions > 0) {
+        console.log(`Deleted ${sessions} expired sessions`);
+      }
     } catch (error) {
       console.error("Data retention job failed:", error);
     }
   }, 6 * 60 * 60 * 1000); // 6 hours
 }
 
-export async function triggerWebhooks(alertId: string, severity: string) {
-  try {
-    const allWebhooks = await storage.getWebhooks();
-    const relevantWebhooks = allWebhooks.filter((w) => w.isActive);
-
-    for (const webhook of relevantWebhooks) {
-      try {
-        await fetch(webhook.url, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            alertId,
-            severity,
-            timestamp: new Date().toISOString(),
-          }),
-        });
-      } catch (error) {
-        console.error(`Webhook delivery failed for ${webhook.url}:`, error);
-      }
+export function startRuleHitFlushJob() {
+  // Flush buffered rule hit counters every 10 seconds
+  setInterval(async () => {
+    try {
+      await flushRuleHits();
+    } catch (error) {
+      console.error("Rule hit flush failed:", error);
+    }
+  }, 10 * 1000);
+}
+
+export function startWebhookDeliveryJob() {
+  // Retry webhook deliveries whose backoff has elapsed every 15 seconds
+  setInterval(async () => {
+    try {
+      await processWebhookDeliveries();
+    } catch (error) {
+      console.error("Webhook delivery job failed:", error);
+    }
+  }, 15 * 1000);
+}
+
+export function startAnalyticsRollupJob() {
+  // Summarize closed minutes, hours and days and check minutes against each tenant's traffic baseline every 15 seconds
+  setInterval(async () => {
+    try {
+      await rollupAnalytics();
+    } catch (error) {
+      console.error("Analytics rollup failed:", error);
     }
-  } catch (error) {
-    console.error("Failed to trigger webhooks:", error);
-  }
+  }, 15 * 1000);
 }
@@ -1,34 +1,19 @@
 import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore } from "./waf/rate-limit";
+import { tokenAllows } from "./auth/api-tokens";
 
-// Rate limiting store (simple in-memory, can be replaced with Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
+// Counters are kept in the shared, pluggable rate limit store
 export function rateLimit(windowMs: number = 60000, maxRequests: number = 100) {
-  return (req: any, res: any, next: any) => {
-    const key = `${req.ip}-${req.path}`;
-    const now = Date.now();
-    const record = rateLimitStore.get(key);
-
-    if (record && record.resetTime > now) {
-      if (record.count >= maxRequests) {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const { count } = await getRateLimitStore().increment(`${req.ip}-${req.path}`, windowMs);
+      if (count > maxRequests) {
         return res.status(429).json({ message: "Too many requests, please try again later" });
       }
-      record.count++;
-    } else {
-      rateLimitStore.set(key, { count: 1, resetTime: now + windowMs });
+      next();
+    } catch (error) {
+      next(error);
     }
-
-    // Cleanup old entries periodically
-    if (Math.random() < 0.01) {
-      const entries = Array.from(rateLimitStore.entries());
-      for (const [k, v] of entries) {
-        if (v.resetTime < now) {
-          rateLimitStore.delete(k);
-        }
-      }
-    }
-
-    next();
   };
 }
 
@@ -37,6 +22,9 @@ export function requireRole(...roles: string[]) {
     if (!req.isAuthenticated || !req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
+    if (!tokenAllows(req)) {
+      return res.status(403).json({ message: "API token scope does not allow this request" });
+    }
     if (!req.user?.role || !roles.includes(req.user.role)) {
       return res.status(403).json({ message: "Forbidden - Insufficient permissions" });
     }
@@ -11,6 +11,16 @@ export interface UserAttributes {
   profileImageUrl?: string;
   role: "admin" | "operator" | "viewer";
   tenantIds?: string[];
+  passwordSetAt?: Date | null;
+  failedLoginCount?: number;
+  lockedUntil?: Date | null;
+  totpEnabledAt?: Date | null;
+  invitedAt?: Date | null;
+  invitedBy?: string | null;
+  deactivatedAt?: Date | null;
+  lastLoginAt?: Date | null;
+  lastLoginIp?: string | null;
+  oidcSubject?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,10 +33,45 @@ export class User extends Model<UserAttributes, UserCreationAttributes> implemen
   declare profileImageUrl?: string;
   declare role: "admin" | "operator" | "viewer";
   declare tenantIds?: string[];
+  declare passwordSetAt?: Date | null;
+  declare failedLoginCount?: number;
+  declare lockedUntil?: Date | null;
+  declare totpEnabledAt?: Date | null;
+  declare invitedAt?: Date | null;
+  declare invitedBy?: string | null;
+  declare deactivatedAt?: Date | null;
+  declare lastLoginAt?: Date | null;
+  declare lastLoginIp?: string | null;
+  declare oidcSubject?: string | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
 }
 
+export interface UserCredentialAttributes {
+  userId: string;
+  passwordHash: string | null;
+  resetTokenHash: string | null;
+  resetTokenExpiresAt: Date | null;
+  totpSecret: string | null;
+  totpPendingSecret: string | null;
+  totpLastCounter: number | null;
+  recoveryCodeHashes: string[] | null;
+  updatedAt: Date;
+}
+export interface UserCredentialCreationAttributes extends Optional<UserCredentialAttributes,
+  "passwordHash" | "resetTokenHash" | "resetTokenExpiresAt" | "totpSecret" | "totpPendingSecret" | "totpLastCounter" | "recoveryCodeHashes" | "updatedAt"> {}
+export class UserCredential extends Model<UserCredentialAttributes, UserCredentialCreationAttributes> implements UserCredentialAttributes {
+  declare userId: string;
+  declare passwordHash: string | null;
+  declare resetTokenHash: string | null;
+  declare resetTokenExpiresAt: Date | null;
+  declare totpSecret: string | null;
+  declare totpPendingSecret: string | null;
+  declare totpLastCounter: number | null;
+  declare recoveryCodeHashes: string[] | null;
+  declare readonly updatedAt: Date;
+}
+
 export interface TenantAttributes {
   id: string;
   name: string;
@@ -71,6 +116,8 @@ export interface PolicyAttributes {
   monitorThreshold: number;
   rateLimit: number;
   rateLimitWindow: number;
+  rateLimitAction: "challenge" | "block";
+  scoreWeights?: Record<string, number> | null;
   isDefault: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -86,6 +133,8 @@ export class Policy extends Model<PolicyAttributes, PolicyCreationAttributes> im
   declare monitorThreshold: number;
   declare rateLimit: number;
   declare rateLimitWindow: number;
+  declare rateLimitAction: "challenge" | "block";
+  declare scoreWeights?: Record<string, number> | null;
   declare isDefault: boolean;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
@@ -102,10 +151,12 @@ export interface WafRuleAttributes {
   patternType: string;
   targetField: string;
   action: "allow" | "monitor" | "challenge" | "deny";
+  forceAction: boolean;
   score: number;
   enabled: boolean;
   isBuiltIn: boolean;
   hitCount: number;
+  lastHitAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -121,10 +172,12 @@ export class WafRule extends Model<WafRuleAttributes, WafRuleCreationAttributes>
   declare patternType: string;
   declare targetField: string;
   declare action: "allow" | "monitor" | "challenge" | "deny";
+  declare forceAction: boolean;
   declare score: number;
   declare enabled: boolean;
   declare isBuiltIn: boolean;
   declare hitCount: number;
+  declare lastHitAt?: Date;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
 }
@@ -280,6 +333,8 @@ export interface WebhookAttributes {
   url: string;
   secret?: string;
   events?: string[];
+  format: string;
+  routingKey?: string;
   isActive: boolean;
   lastTriggeredAt?: Date;
   failureCount: number;
@@ -293,6 +348,8 @@ export class Webhook extends Model<WebhookAttributes, WebhookCreationAttributes>
   declare url: string;
   declare secret?: string;
   declare events?: string[];
+  declare format: string;
+  declare routingKey?: string;
   declare isActive: boolean;
   declare lastTriggeredAt?: Date;
   declare failureCount: number;
@@ -321,7 +378,235 @@ export class IpList extends Model<IpListAttributes, IpListCreationAttributes> im
   declare readonly createdAt: Date;
 }
 
+export interface RuleHitAttributes {
+  id: string;
+  ruleId: string;
+  tenantId: string;
+  hitCount: number;
+  lastHitAt?: Date;
+}
+export interface RuleHitCreationAttributes extends Optional<RuleHitAttributes, "id"> {}
+export class RuleHit extends Model<RuleHitAttributes, RuleHitCreationAttributes> implements RuleHitAttributes {
+  declare id: string;
+  declare ruleId: string;
+  declare tenantId: string;
+  declare hitCount: number;
+  declare lastHitAt?: Date;
+}
+
 // Initialize models
+export interface WebhookDeliveryAttributes {
+  id: string;
+  webhookId: string;
+  tenantId?: string;
+  event: string;
+  payloadJson: any;
+  status: "pending" | "success" | "failed";
+  attempts: number;
+  responseCode?: number;
+  error?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+export interface WebhookDeliveryCreationAttributes extends Optional<WebhookDeliveryAttributes, "id" | "createdAt" | "status" | "attempts"> {}
+export class WebhookDelivery extends Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes> implements WebhookDeliveryAttributes {
+  declare id: string;
+  declare webhookId: string;
+  declare tenantId?: string;
+  declare event: string;
+  declare payloadJson: any;
+  declare status: "pending" | "success" | "failed";
+  declare attempts: number;
+  declare responseCode?: number;
+  declare error?: string;
+  declare nextAttemptAt?: Date;
+  declare deliveredAt?: Date;
+  declare readonly createdAt: Date;
+}
+
+export interface SavedSearchAttributes {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  createdAt: Date;
+}
+export interface SavedSearchCreationAttributes extends Optional<SavedSearchAttributes, "id" | "createdAt"> {}
+export class SavedSearch extends Model<SavedSearchAttributes, SavedSearchCreationAttributes> implements SavedSearchAttributes {
+  declare id: string;
+  declare userId: string;
+  declare name: string;
+  declare query: string;
+  declare readonly createdAt: Date;
+}
+
+export interface SettingsVersionAttributes {
+  id: string;
+  version: number;
+  settingsJson: any;
+  changedBy: string | null;
+  createdAt: Date;
+}
+export interface SettingsVersionCreationAttributes extends Optional<SettingsVersionAttributes, "id" | "changedBy" | "createdAt"> {}
+export class SettingsVersion extends Model<SettingsVersionAttributes, SettingsVersionCreationAttributes> implements SettingsVersionAttributes {
+  declare id: string;
+  declare version: number;
+  declare settingsJson: any;
+  declare changedBy: string | null;
+  declare readonly createdAt: Date;
+}
+
+export interface AuditLogAttributes {
+  id: string;
+  sequence: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  apiTokenId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  changes: any;
+  ipAddress: string | null;
+  userAgent: string | null;
+  prevHash: string;
+  hash: string;
+  createdAt: Date;
+}
+export interface AuditLogCreationAttributes extends Optional<AuditLogAttributes, "id"> {}
+export class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> implements AuditLogAttributes {
+  declare id: string;
+  declare sequence: number;
+  declare actorId: string | null;
+  declare actorEmail: string | null;
+  declare apiTokenId: string | null;
+  declare action: string;
+  declare targetType: string;
+  declare targetId: string | null;
+  declare changes: any;
+  declare ipAddress: string | null;
+  declare userAgent: string | null;
+  declare prevHash: string;
+  declare hash: string;
+  declare readonly createdAt: Date;
+}
+
+export interface SessionAttributes {
+  sid: string;
+  sess: any;
+  expire: Date;
+  userId: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+export interface SessionCreationAttributes extends Optional<SessionAttributes, "userId" | "userAgent" | "ipAddress" | "createdAt" | "lastSeenAt"> {}
+export class Session extends Model<SessionAttributes, SessionCreationAttributes> implements SessionAttributes {
+  declare sid: string;
+  declare sess: any;
+  declare expire: Date;
+  declare userId: string | null;
+  declare userAgent: string | null;
+  declare ipAddress: string | null;
+  declare readonly createdAt: Date;
+  declare lastSeenAt: Date;
+}
+
+export interface ApiTokenAttributes {
+  id: string;
+  name: string;
+  kind: "personal" | "service";
+  userId: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+export interface ApiTokenCreationAttributes extends Optional<ApiTokenAttributes, "id" | "expiresAt" | "lastUsedAt" | "lastUsedIp" | "revokedAt" | "createdAt"> {}
+export class ApiToken extends Model<ApiTokenAttributes, ApiTokenCreationAttributes> implements ApiTokenAttributes {
+  declare id: string;
+  declare name: string;
+  declare kind: "personal" | "service";
+  declare userId: string;
+  declare tokenHash: string;
+  declare tokenPrefix: string;
+  declare scopes: string[];
+  declare expiresAt: Date | null;
+  declare lastUsedAt: Date | null;
+  declare lastUsedIp: string | null;
+  declare revokedAt: Date | null;
+  declare readonly createdAt: Date;
+}
+
+export interface IngressKeyAttributes {
+  id: string;
+  tenantId: string;
+  secret: string;
+  createdBy: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+export interface IngressKeyCreationAttributes extends Optional<IngressKeyAttributes, "id" | "createdBy" | "expiresAt" | "lastUsedAt" | "revokedAt" | "createdAt"> {}
+export class IngressKey extends Model<IngressKeyAttributes, IngressKeyCreationAttributes> implements IngressKeyAttributes {
+  declare id: string;
+  declare tenantId: string;
+  declare secret: string;
+  declare createdBy: string | null;
+  declare expiresAt: Date | null;
+  declare lastUsedAt: Date | null;
+  declare revokedAt: Date | null;
+  declare readonly createdAt: Date;
+}
+
+export interface AnalyticsAggregateAttributes {
+  id: string;
+  tenantId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  periodType: string;
+  totalRequests: number;
+  blockedRequests: number;
+  monitoredRequests: number;
+  allowedRequests: number;
+  challengedRequests: number;
+  uniqueIps: number;
+  avgScore: number;
+  topRulesJson?: any;
+  topIpsJson?: any;
+  topPathsJson?: any;
+  statusCodesJson?: any;
+  methodsJson?: any;
+  createdAt: Date;
+}
+export interface AnalyticsAggregateCreationAttributes extends Optional<AnalyticsAggregateAttributes, "id" | "createdAt"> {}
+export class AnalyticsAggregate extends Model<AnalyticsAggregateAttributes, AnalyticsAggregateCreationAttributes> implements AnalyticsAggregateAttributes {
+  declare id: string;
+  declare tenantId: string;
+  declare periodStart: Date;
+  declare periodEnd: Date;
+  declare periodType: string;
+  declare totalRequests: number;
+  declare blockedRequests: number;
+  declare monitoredRequests: number;
+  declare allowedRequests: number;
+  declare challengedRequests: number;
+  declare uniqueIps: number;
+  declare avgScore: number;
+  declare topRulesJson?: any;
+  declare topIpsJson?: any;
+  declare topPathsJson?: any;
+  declare statusCodesJson?: any;
+  declare methodsJson?: any;
+  declare readonly createdAt: Date;
+}
+
 export function initializeModels() {
   User.init(
     {
@@ -332,10 +617,67 @@ export function initializeModels() {
       profileImageUrl: DataTypes.STRING,
       role: { type: DataTypes.ENUM("admin", "operator", "viewer"), defaultValue: "viewer" },
       tenantIds: { type: DataTypes.JSON, defaultValue: [] },
+      passwordSetAt: DataTypes.DATE,
+      failedLoginCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+      lockedUntil: DataTypes.DATE,
+      totpEnabledAt: DataTypes.DATE,
+      invitedAt: DataTypes.DATE,
+      invitedBy: DataTypes.STRING,
+      deactivatedAt: DataTypes.DATE,
+      lastLoginAt: DataTypes.DATE,
+      lastLoginIp: DataTypes.STRING(64),
+      oidcSubject: DataTypes.STRING(512),
       createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
       updatedAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
     },
-    { sequelize, tableName: "users", timestamps: true }
+    { sequelize, tableName: "users", timestamps: true, indexes: [{ unique: true, fields: ["oidcSubject"] }] }
+  );
+
+  UserCredential.init(
+    {
+      userId: { type: DataTypes.STRING, primaryKey: true, references: { model: User, key: 'id' } },
+      passwordHash: DataTypes.STRING,
+      resetTokenHash: { type: DataTypes.STRING, unique: true },
+      resetTokenExpiresAt: DataTypes.DATE,
+      totpSecret: DataTypes.STRING,
+      totpPendingSecret: DataTypes.STRING,
+      totpLastCounter: DataTypes.INTEGER,
+      recoveryCodeHashes: DataTypes.JSON,
+      updatedAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "user_credentials", timestamps: true, createdAt: false }
+  );
+
+  Session.init(
+    {
+      sid: { type: DataTypes.STRING, primaryKey: true },
+      sess: { type: DataTypes.JSON, allowNull: false },
+      expire: { type: DataTypes.DATE, allowNull: false },
+      userId: { type: DataTypes.STRING, references: { model: User, key: 'id' } },
+      userAgent: DataTypes.STRING(500),
+      ipAddress: DataTypes.STRING(64),
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      lastSeenAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "sessions", timestamps: false, indexes: [{ fields: ["expire"] }, { fields: ["userId"] }] }
+  );
+
+  ApiToken.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      name: { type: DataTypes.STRING(100), allowNull: false },
+      kind: { type: DataTypes.ENUM("personal", "service"), allowNull: false },
+      userId: { type: DataTypes.STRING, allowNull: false, references: { model: User, key: 'id' } },
+      tokenHash: { type: DataTypes.STRING(64), allowNull: false, unique: true },
+      tokenPrefix: { type: DataTypes.STRING(16), allowNull: false },
+      scopes: { type: DataTypes.JSON, allowNull: false },
+      expiresAt: DataTypes.DATE,
+      lastUsedAt: DataTypes.DATE,
+      lastUsedIp: DataTypes.STRING(64),
+      revokedAt: DataTypes.DATE,
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "api_tokens", timestamps: true, updatedAt: false, indexes: [{ fields: ["userId"] }] }
   );
 
   Tenant.init(
@@ -358,6 +700,20 @@ export function initializeModels() {
     { sequelize, tableName: "tenants", timestamps: true }
   );
 
+  IngressKey.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      tenantId: { type: DataTypes.STRING, allowNull: false, references: { model: Tenant, key: 'id' } },
+      secret: { type: DataTypes.STRING(128), allowNull: false },
+      createdBy: { type: DataTypes.STRING, references: { model: User, key: 'id' } },
+      expiresAt: DataTypes.DATE,
+      lastUsedAt: DataTypes.DATE,
+      revokedAt: DataTypes.DATE,
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "ingress_keys", timestamps: true, updatedAt: false, indexes: [{ fields: ["tenantId"] }] }
+  );
+
   Policy.init(
     {
       id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
@@ -369,6 +725,8 @@ export function initializeModels() {
       monitorThreshold: { type: DataTypes.FLOAT, defaultValue: 30 },
       rateLimit: { type: DataTypes.INTEGER, defaultValue: 100 },
       rateLimitWindow: { type: DataTypes.INTEGER, defaultValue: 60 },
+      rateLimitAction: { type: DataTypes.ENUM("challenge", "block"), defaultValue: "challenge" },
+      scoreWeights: DataTypes.JSON,
       isDefault: { type: DataTypes.BOOLEAN, defaultValue: false },
       createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
       updatedAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
@@ -388,10 +746,12 @@ export function initializeModels() {
       patternType: { type: DataTypes.STRING, defaultValue: "regex" },
       targetField: DataTypes.STRING,
       action: { type: DataTypes.ENUM("allow", "monitor", "challenge", "deny"), defaultValue: "deny" },
+      forceAction: { type: DataTypes.BOOLEAN, defaultValue: false },
       score: { type: DataTypes.INTEGER, defaultValue: 10 },
       enabled: { type: DataTypes.BOOLEAN, defaultValue: true },
       isBuiltIn: { type: DataTypes.BOOLEAN, defaultValue: false },
       hitCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+      lastHitAt: DataTypes.DATE,
       createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
       updatedAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
     },
@@ -450,6 +810,9 @@ export function initializeModels() {
     { sequelize, tableName: "analysis", timestamps: false }
   );
 
+  // Lets request queries filter and sort on the analysis score
+  Request.hasOne(Analysis, { foreignKey: "requestId", as: "analysis", constraints: false });
+
   Override.init(
     {
       id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
@@ -490,6 +853,8 @@ export function initializeModels() {
       url: DataTypes.STRING,
       secret: DataTypes.STRING,
       events: DataTypes.JSON,
+      format: { type: DataTypes.STRING, defaultValue: "generic" },
+      routingKey: DataTypes.STRING,
       isActive: { type: DataTypes.BOOLEAN, defaultValue: true },
       lastTriggeredAt: DataTypes.DATE,
       failureCount: { type: DataTypes.INTEGER, defaultValue: 0 },
@@ -511,4 +876,119 @@ export function initializeModels() {
     },
     { sequelize, tableName: "ip_lists", timestamps: false }
   );
+
+  RuleHit.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      ruleId: DataTypes.STRING,
+      tenantId: { type: DataTypes.STRING, references: { model: Tenant, key: 'id' } },
+      hitCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+      lastHitAt: DataTypes.DATE,
+    },
+    {
+      sequelize,
+      tableName: "rule_hits",
+      timestamps: false,
+      indexes: [{ unique: true, fields: ["ruleId", "tenantId"] }],
+    }
+  );
+
+  WebhookDelivery.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      webhookId: { type: DataTypes.STRING, references: { model: Webhook, key: 'id' } },
+      tenantId: { type: DataTypes.STRING, allowNull: true },
+      event: DataTypes.STRING,
+      payloadJson: DataTypes.JSON,
+      status: { type: DataTypes.ENUM("pending", "success", "failed"), defaultValue: "pending" },
+      attempts: { type: DataTypes.INTEGER, defaultValue: 0 },
+      responseCode: DataTypes.INTEGER,
+      error: DataTypes.TEXT,
+      nextAttemptAt: DataTypes.DATE,
+      deliveredAt: DataTypes.DATE,
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    {
+      sequelize,
+      tableName: "webhook_deliveries",
+      timestamps: false,
+      indexes: [{ fields: ["status", "nextAttemptAt"] }, { fields: ["webhookId", "createdAt"] }],
+    }
+  );
+
+  SavedSearch.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      userId: { type: DataTypes.STRING, references: { model: User, key: 'id' } },
+      name: DataTypes.STRING,
+      query: DataTypes.TEXT,
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "saved_searches", timestamps: false, indexes: [{ fields: ["userId"] }] }
+  );
+
+  SettingsVersion.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      version: { type: DataTypes.INTEGER, allowNull: false, unique: true },
+      settingsJson: { type: DataTypes.JSON, allowNull: false },
+      changedBy: { type: DataTypes.STRING, references: { model: User, key: 'id' } },
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    { sequelize, tableName: "settings_versions", timestamps: false }
+  );
+
+  AuditLog.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      sequence: { type: DataTypes.INTEGER, allowNull: false, unique: true },
+      actorId: DataTypes.STRING,
+      actorEmail: DataTypes.STRING,
+      apiTokenId: DataTypes.STRING,
+      action: { type: DataTypes.STRING(100), allowNull: false },
+      targetType: { type: DataTypes.STRING(50), allowNull: false },
+      targetId: DataTypes.STRING,
+      changes: DataTypes.JSON,
+      ipAddress: DataTypes.STRING(64),
+      userAgent: DataTypes.STRING(500),
+      prevHash: { type: DataTypes.STRING(64), allowNull: false },
+      hash: { type: DataTypes.STRING(64), allowNull: false },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    {
+      sequelize,
+      tableName: "audit_logs",
+      timestamps: false,
+      indexes: [{ fields: ["createdAt"] }, { fields: ["targetType", "targetId"] }],
+    }
+  );
+
+  AnalyticsAggregate.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true, defaultValue: () => uuidv4() },
+      tenantId: { type: DataTypes.STRING, allowNull: false, references: { model: Tenant, key: 'id' } },
+      periodStart: { type: DataTypes.DATE, allowNull: false },
+      periodEnd: { type: DataTypes.DATE, allowNull: false },
+      periodType: { type: DataTypes.STRING(20), allowNull: false },
+      totalRequests: { type: DataTypes.INTEGER, defaultValue: 0 },
+      blockedRequests: { type: DataTypes.INTEGER, defaultValue: 0 },
+      monitoredRequests: { type: DataTypes.INTEGER, defaultValue: 0 },
+      allowedRequests: { type: DataTypes.INTEGER, defaultValue: 0 },
+      challengedRequests: { type: DataTypes.INTEGER, defaultValue: 0 },
+      uniqueIps: { type: DataTypes.INTEGER, defaultValue: 0 },
+      avgScore: { type: DataTypes.FLOAT, defaultValue: 0 },
+      topRulesJson: DataTypes.JSON,
+      topIpsJson: DataTypes.JSON,
+      topPathsJson: DataTypes.JSON,
+      statusCodesJson: DataTypes.JSON,
+      methodsJson: DataTypes.JSON,
+      createdAt: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    },
+    {
+      sequelize,
+      tableName: "analytics_aggregates",
+      timestamps: false,
+      indexes: [{ unique: true, fields: ["tenantId", "periodType", "periodStart"] }],
+    }
+  );
 }
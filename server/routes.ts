@@ -1,41 +1,50 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, decodeRequestCursor } from "./storage";
 import { 
   insertTenantSchema, insertPolicySchema, insertWafRuleSchema,
-  insertAlertSchema, insertOverrideSchema
+  insertAlertSchema, insertOverrideSchema, insertIpListSchema, insertSavedSearchSchema,
+  insertWebhookSchema, webhookEvents, webhookFormats, settingsSchema, inviteUserSchema, scoreWeightsSchema,
+  aggregatePeriodTypes, analyticsRanges, analyticsRangeMs, defaultAnalyticsGranularity,
 } from "@shared/schema";
 import { z } from "zod";
-import { wafEngine } from "./waf/engine";
+import { randomBytes } from "node:crypto";
 import { sseServer } from "./waf/sse";
+import { analyzeTenantRequest, enforcementModeOf, recordTenantRequest, responseCodeForAction } from "./waf/pipeline";
 import { startWafProxy } from "./waf/proxy";
+import { isValidIpListEntry } from "./waf/ip-lists";
+import { validatePattern } from "./waf/patterns";
+import { ruleSetCache } from "./waf/rule-cache";
+import { compileTrafficQuery, QuerySyntaxError } from "./traffic-query";
 import passport from "passport";
 import { rateLimit, requireRole, sanitizeInput } from "./middleware";
-import { startDataRetentionJob, triggerWebhooks } from "./jobs";
-
-// Helper function to scrub sensitive headers
-function scrubHeaders(headers: Record<string, any>, scrubCookies: boolean, scrubAuthHeaders: boolean): Record<string, any> {
-  const scrubbed = { ...headers };
-  
-  if (scrubCookies) {
-    delete scrubbed['cookie'];
-    delete scrubbed['set-cookie'];
-  }
-  
-  if (scrubAuthHeaders) {
-    delete scrubbed['authorization'];
-    delete scrubbed['x-api-key'];
-    delete scrubbed['x-auth-token'];
-    delete scrubbed['x-access-token'];
-  }
-  
-  return scrubbed;
-}
+import { startAnalyticsRollupJob, startDataRetentionJob, startRuleHitFlushJob, startWebhookDeliveryJob } from "./jobs";
+import { sendTestWebhook } from "./webhooks/delivery";
+import { checkPasswordPolicy, findUserByResetToken, issuePasswordResetToken, recordLogin, setUserPassword, verifyUserPassword } from "./auth/login";
+import { resetPasswordPath } from "./auth/passwords";
+import { findSessionByHandle, sessionHandle } from "./auth/session-store";
+import { generateApiToken, tokenAllows, ungrantableScopes } from "./auth/api-tokens";
+import { generateIngressSecret, isIngressKeyUsable, verifyIngressSignature } from "./waf/ingress-auth";
+import { accessibleTenantIds, canAccessTenant, canViewTenantRecord } from "./auth/tenant-access";
+import { isLastActiveAdmin } from "./auth/admins";
+import {
+  beginTwoFactorSetup, disableTwoFactor, enableTwoFactor, getTwoFactorStatus, isTwoFactorRequired,
+  needsTwoFactorEnrollment, regenerateRecoveryCodes, verifySecondFactor,
+  MAX_SECOND_FACTOR_ATTEMPTS, PENDING_LOGIN_TTL_MS,
+} from "./auth/two-factor";
+import { beginOidcLogin, completeOidcLogin, isOidcConfigured, OidcLoginError, OIDC_CALLBACK_PATH, resolveOidcUser } from "./auth/oidc";
+import { recordAudit, verifyAuditChain } from "./audit";
+import { AGGREGATE_PERIOD_MS } from "./analytics/rollup";
+import { getDashboardTraffic, getTrafficTimeseries, MAX_TIMESERIES_POINTS } from "./analytics/timeseries";
+import { auditTargetTypes, createApiTokenSchema, createIngressKeySchema, type AuditLog, type IngressKey, type IngressKeyInfo, type ApiToken, type ApiTokenInfo, type SessionInfo, type User, type WafRule } from "@shared/schema";
 
 function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated || !req.isAuthenticated()) {
     return res.status(401).json({ message: "Unauthorized" });
   }
+  if (!tokenAllows(req)) {
+    return res.status(403).json({ message: "API token scope does not allow this request" });
+  }
   // Add cache headers for GET requests
   if (req.method === "GET") {
     res.set("Cache-Control", "private, max-age=1800"); // 30 minutes cache
@@ -43,7 +52,61 @@ function requireAuth(req: any, res: any, next: any) {
   next();
 }
 
+// The signed-in user as the client sees it, flagged when a required 2FA enrollment is outstanding.
+// Single sign-on sessions leave the second factor to the identity provider.
+async function authUserResponse(user: User, authMethod: "password" | "oidc" = "password") {
+  return {
+    ...user,
+    authMethod,
+    twoFactorEnrollmentRequired: authMethod !== "oidc" && await needsTwoFactorEnrollment(user),
+  };
+}
+
+// Tenants the signed-in user may see; undefined for admins
+function tenantScopeOf(req: any): string[] | undefined {
+  return accessibleTenantIds(req.user as User);
+}
+
+// Replaces the rules' hit counts and last-hit times, which are totals across tenants, with the
+// sums over the given tenants; undefined keeps the totals
+async function withScopedRuleHits(rules: WafRule[], tenantIds: string[] | undefined): Promise<WafRule[]> {
+  if (!tenantIds) return rules;
+  const hits = new Map<string, { hitCount: number; lastHitAt: Date | null }>();
+  for (const hit of await storage.getRuleHits(tenantIds)) {
+    const total = hits.get(hit.ruleId) ?? { hitCount: 0, lastHitAt: null };
+    total.hitCount += hit.hitCount ?? 0;
+    if (hit.lastHitAt && (!total.lastHitAt || new Date(hit.lastHitAt) > total.lastHitAt)) {
+      total.lastHitAt = new Date(hit.lastHitAt);
+    }
+    hits.set(hit.ruleId, total);
+  }
+  return rules.map(rule => ({ ...rule, ...(hits.get(rule.id) ?? { hitCount: 0, lastHitAt: null }) }));
+}
+
+// Paths a signed-in user can reach before completing a required 2FA enrollment
+const TWO_FACTOR_ENROLLMENT_PATHS = ["/api/auth/", "/api/login", "/api/logout", "/api/config"];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Users whose role requires 2FA can only enroll until they have done so; API tokens were
+  // created from an enrolled session, so they are not held back
+  app.use("/api", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated?.() || req.apiToken || req.session?.authMethod === "oidc" ||
+          TWO_FACTOR_ENROLLMENT_PATHS.some(p => req.originalUrl.startsWith(p))) {
+        return next();
+      }
+      if (await needsTwoFactorEnrollment(req.user as User)) {
+        return res.status(403).json({
+          message: "Two-factor authentication must be set up before continuing",
+          code: "2fa_enrollment_required",
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Auth routes
   // Apply rate limiting to login
   app.post("/api/login", rateLimit(60000, 5), (req, res, next) => {
@@ -52,17 +115,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Authentication error" });
       }
       if (!user) {
-        return res.status(401).json({ message: info?.message || "Invalid credentials" });
+        if (info?.code === "locked") {
+          return res.status(423).json({ message: info.message, code: info.code, lockedUntil: info.lockedUntil });
+        }
+        if (info?.code === "deactivated") {
+          return res.status(403).json({ message: info.message, code: info.code });
+        }
+        return res.status(401).json({ message: info?.message || "Invalid credentials", code: info?.code });
+      }
+      // With 2FA enabled the password only starts the sign-in; /api/login/2fa finishes it
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS, attempts: 0 };
+        return req.session.save((err: any) => {
+          if (err) {
+            return res.status(500).json({ message: "Login failed" });
+          }
+          res.json({ twoFactorRequired: true });
+        });
       }
-      req.login(user, (err: any) => {
+      req.login(user, async (err: any) => {
         if (err) {
           return res.status(500).json({ message: "Login failed" });
         }
-        res.json(user);
+        try {
+          await recordLogin(user.id, req.ip);
+          await recordAudit(req, { action: "user.login", targetType: "user", targetId: user.id });
+          res.json(await authUserResponse(user));
+        } catch (error) {
+          console.error("Error completing login:", error);
+          res.status(500).json({ message: "Login failed" });
+        }
       });
     })(req, res, next);
   });
 
+  const secondFactorSchema = z.object({
+    code: z.string().max(20).optional(),
+    recoveryCode: z.string().max(40).optional(),
+  }).refine(data => data.code || data.recoveryCode, { message: "Enter a code" });
+
+  app.post("/api/login/2fa", rateLimit(60000, 10), async (req, res) => {
+    try {
+      const body = secondFactorSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign-in expired, please start again", code: "2fa_session_expired" });
+      }
+
+      if (!await verifySecondFactor(pending.userId, body)) {
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_SECOND_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes, please start again", code: "2fa_too_many_attempts" });
+        }
+        return res.status(401).json({ message: "Incorrect code", code: "invalid_2fa_code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.deactivatedAt) {
+        return res.status(401).json({ message: "Sign-in expired, please start again", code: "2fa_session_expired" });
+      }
+      req.login(user, async (err: any) => {
+        if (err) {
+          return res.status(500).json({ message: "Login failed" });
+        }
+        try {
+          await recordLogin(user.id, req.ip);
+          await recordAudit(req, { action: "user.login", targetType: "user", targetId: user.id });
+          res.json(await authUserResponse(user));
+        } catch (error) {
+          console.error("Error completing login:", error);
+          res.status(500).json({ message: "Login failed" });
+        }
+      });
+    } catch (error) {
+      console.error("Error verifying second factor:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to verify code" });
+    }
+  });
+
   app.get("/api/logout", (req, res) => {
     req.logout((err) => {
       if (err) {
@@ -77,25 +213,437 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated || !req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    res.json(req.user);
+    try {
+      res.json(await authUserResponse(req.user as User, req.session.authMethod));
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // OpenID Connect single sign-on; public so the sign-in page knows whether to offer it
+  app.get("/api/auth/oidc", async (_req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json({ enabled: isOidcConfigured(settings), displayName: settings.oidcDisplayName });
+    } catch (error) {
+      console.error("Error fetching single sign-on status:", error);
+      res.status(500).json({ message: "Failed to fetch single sign-on status" });
+    }
+  });
+
+  app.get("/api/auth/oidc/login", rateLimit(60000, 10), async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      if (!isOidcConfigured(settings)) {
+        return res.redirect("/sign-in?sso_error=disabled");
+      }
+      const authorizationUrl = await beginOidcLogin(req, settings);
+      req.session.save((err) => {
+        if (err) {
+          console.error("Error starting single sign-on:", err);
+          return res.redirect("/sign-in?sso_error=failed");
+        }
+        res.redirect(authorizationUrl.href);
+      });
+    } catch (error) {
+      console.error("Error starting single sign-on:", error);
+      res.redirect("/sign-in?sso_error=unavailable");
+    }
+  });
+
+  // Errors go back to the sign-in page as a code it can explain
+  app.get(OIDC_CALLBACK_PATH, rateLimit(60000, 10), async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      if (!isOidcConfigured(settings)) {
+        return res.redirect("/sign-in?sso_error=disabled");
+      }
+      const claims = await completeOidcLogin(req, settings);
+      const { user, previous } = await resolveOidcUser(claims, settings);
+      req.login(user, async (err: any) => {
+        if (err) {
+          console.error("Error completing single sign-on:", err);
+          return res.redirect("/sign-in?sso_error=failed");
+        }
+        req.session.authMethod = "oidc";
+        await recordLogin(user.id, req.ip);
+        if (!previous) {
+          await recordAudit(req, { action: "user.create", targetType: "user", targetId: user.id, after: user });
+        } else if (previous !== user) {
+          await recordAudit(req, { action: "user.sso_update", targetType: "user", targetId: user.id, before: previous, after: user });
+        }
+        await recordAudit(req, { action: "user.login", targetType: "user", targetId: user.id, after: { method: "oidc" } });
+        // Saved before redirecting so the app's first request already sees the sign-in method
+        req.session.save((err) => {
+          if (err) {
+            console.error("Error completing single sign-on:", err);
+            return res.redirect("/sign-in?sso_error=failed");
+          }
+          res.redirect("/");
+        });
+      });
+    } catch (error) {
+      if (error instanceof OidcLoginError) {
+        console.warn(`Single sign-on refused: ${error.message}`);
+        return res.redirect(`/sign-in?sso_error=${error.code}`);
+      }
+      console.error("Error completing single sign-on:", error);
+      res.redirect("/sign-in?sso_error=failed");
+    }
+  });
+
+  // Two-factor authentication for the signed-in user
+  app.get("/api/auth/2fa", requireAuth, async (req, res) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      res.json(await getTwoFactorStatus(req.user as User));
+    } catch (error) {
+      console.error("Error fetching 2FA status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      res.json(await beginTwoFactorSetup(req.user as User));
+    } catch (error) {
+      console.error("Error starting 2FA setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", requireAuth, rateLimit(60000, 10), async (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string().max(20) }).parse(req.body);
+      const recoveryCodes = await enableTwoFactor((req.user as User).id, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Incorrect code, check your authenticator app and try again", code: "invalid_2fa_code" });
+      }
+      await recordAudit(req, { action: "user.2fa_enable", targetType: "user", targetId: (req.user as User).id });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling 2FA:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  const confirmPasswordSchema = z.object({ password: z.string().max(256) });
+
+  app.post("/api/auth/2fa/disable", requireAuth, rateLimit(60000, 5), async (req, res) => {
+    try {
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = req.user as User;
+      if (await isTwoFactorRequired(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!await verifyUserPassword(user.id, password)) {
+        return res.status(400).json({ message: "Password is incorrect", code: "invalid_current_password" });
+      }
+      await disableTwoFactor(user.id);
+      await recordAudit(req, { action: "user.2fa_disable", targetType: "user", targetId: user.id });
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Error disabling 2FA:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, rateLimit(60000, 5), async (req, res) => {
+    try {
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = req.user as User;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!await verifyUserPassword(user.id, password)) {
+        return res.status(400).json({ message: "Password is incorrect", code: "invalid_current_password" });
+      }
+      const recoveryCodes = await regenerateRecoveryCodes(user.id);
+      await recordAudit(req, { action: "user.recovery_codes_regenerate", targetType: "user", targetId: user.id });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Public so the set/reset password page can list the requirements
+  app.get("/api/auth/password-policy", async (req, res) => {
+    try {
+      const { passwordMinLength, passwordRequireMixedCase, passwordRequireNumber, passwordRequireSymbol } = await storage.getSettings();
+      res.json({ passwordMinLength, passwordRequireMixedCase, passwordRequireNumber, passwordRequireSymbol });
+    } catch (error) {
+      console.error("Error fetching password policy:", error);
+      res.status(500).json({ message: "Failed to fetch password policy" });
+    }
+  });
+
+  const changePasswordSchema = z.object({
+    currentPassword: z.string().max(256).optional(),
+    newPassword: z.string().max(256),
+  });
+
+  app.post("/api/auth/password", requireAuth, rateLimit(60000, 5), async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const userId = (req.user as any).id;
+      const credentials = await storage.getUserCredentials(userId);
+      if (credentials?.passwordHash && !await verifyUserPassword(userId, currentPassword)) {
+        return res.status(400).json({ message: "Current password is incorrect", code: "invalid_current_password" });
+      }
+      const policyErrors = await checkPasswordPolicy(newPassword);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the password policy", errors: policyErrors });
+      }
+      await setUserPassword(userId, newPassword);
+      // Anyone else holding this account's sessions is signed out; this browser stays signed in
+      await storage.deleteUserSessions(userId, req.sessionID);
+      await recordAudit(req, { action: "user.password_change", targetType: "user", targetId: userId });
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.get("/api/auth/reset-password/:token", rateLimit(60000, 20), async (req, res) => {
+    try {
+      const user = await findUserByResetToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      res.json({ email: user.email, firstName: user.firstName, mode: user.passwordSetAt ? "reset" : "set" });
+    } catch (error) {
+      console.error("Error checking password reset link:", error);
+      res.status(500).json({ message: "Failed to check password reset link" });
+    }
+  });
+
+  const resetPasswordSchema = z.object({
+    token: z.string().min(1).max(200),
+    password: z.string().max(256),
+  });
+
+  app.post("/api/auth/reset-password", rateLimit(60000, 5), async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const user = await findUserByResetToken(token);
+      if (!user) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      const policyErrors = await checkPasswordPolicy(password);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the password policy", errors: policyErrors });
+      }
+      await setUserPassword(user.id, password);
+      await storage.deleteUserSessions(user.id);
+      await recordAudit(req, {
+        action: user.passwordSetAt ? "user.password_reset" : "user.password_set",
+        targetType: "user",
+        targetId: user.id,
+        actor: user,
+      });
+      res.json({ message: "Password set", email: user.email });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Active sessions for the signed-in user
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      const sessions = await storage.getUserSessions((req.user as any).id);
+      res.json(sessions.map((s): SessionInfo => ({
+        id: sessionHandle(s.sid),
+        userAgent: s.userAgent,
+        ipAddress: s.ipAddress,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        expiresAt: s.expire,
+        current: s.sid === req.sessionID,
+      })));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = findSessionByHandle(await storage.getUserSessions((req.user as any).id), req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ message: "Use log out to end the current session" });
+      }
+      await storage.deleteSession(session.sid);
+      await recordAudit(req, { action: "session.revoke", targetType: "session", targetId: req.params.id });
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.deleteUserSessions((req.user as any).id, req.sessionID);
+      await recordAudit(req, {
+        action: "session.revoke_others",
+        targetType: "user",
+        targetId: (req.user as any).id,
+        after: { revokedSessions: revoked },
+      });
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // API tokens - managed from a browser session only; no token scope covers these routes
+  const toApiTokenInfo = ({ tokenHash, ...token }: ApiToken, users: User[]): ApiTokenInfo => {
+    const owner = users.find(u => u.id === token.userId);
+    return { ...token, ownerName: owner ? [owner.firstName, owner.lastName].filter(Boolean).join(" ") || owner.email : null };
+  };
+
+  // Own personal tokens, plus every service token for admins
+  app.get("/api/api-tokens", requireAuth, async (req, res) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      const user = req.user as User;
+      const [personal, service, users] = await Promise.all([
+        storage.getApiTokens({ userId: user.id, kind: "personal" }),
+        user.role === "admin" ? storage.getApiTokens({ kind: "service" }) : Promise.resolve([]),
+        storage.getUsers(),
+      ]);
+      res.json([...personal, ...service].map(t => toApiTokenInfo(t, users)));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/api-tokens", requireAuth, async (req, res) => {
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const user = req.user as User;
+      if (data.kind === "service" && user.role !== "admin") {
+        return res.status(403).json({ message: "Only admins can create service tokens" });
+      }
+      const ungrantable = ungrantableScopes(user.role, data.scopes);
+      if (ungrantable.length > 0) {
+        return res.status(400).json({ message: "Your role cannot grant these scopes", errors: ungrantable });
+      }
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const created = await storage.createApiToken({
+        name: data.name,
+        kind: data.kind,
+        userId: user.id,
+        tokenHash,
+        tokenPrefix,
+        scopes: Array.from(new Set(data.scopes)),
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      await recordAudit(req, { action: "api_token.create", targetType: "api_token", targetId: created.id, after: toApiTokenInfo(created, [user]) });
+      // The token itself is only ever returned here
+      res.status(201).json({ ...toApiTokenInfo(created, [user]), token });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  // Owners revoke their personal tokens; admins can revoke any token
+  app.delete("/api/api-tokens/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const token = await storage.getApiToken(req.params.id);
+      if (!token || (user.role !== "admin" && token.userId !== user.id)) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      const revoked = token.revokedAt ? token : await storage.updateApiToken(token.id, { revokedAt: new Date() });
+      if (!token.revokedAt) {
+        await recordAudit(req, { action: "api_token.revoke", targetType: "api_token", targetId: token.id, before: token, after: revoked });
+      }
+      res.json(toApiTokenInfo(revoked!, await storage.getUsers()));
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
   });
 
   // Dashboard
   app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const tenantIds = tenantScopeOf(req);
+      const stats = await storage.getDashboardStats(tenantIds);
+      const traffic = await getDashboardTraffic({ tenantIds }, Date.now() - 24 * 60 * 60 * 1000);
+      res.json({ ...traffic, ...stats });
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
       res.status(500).json({ message: "Failed to fetch dashboard stats" });
     }
   });
 
+  // Traffic over time from the analytics aggregates, for every visible tenant or just one
+  app.get("/api/analytics/timeseries", requireAuth, async (req, res) => {
+    try {
+      const query = z.object({
+        range: z.enum(analyticsRanges).default("24h"),
+        granularity: z.enum(aggregatePeriodTypes).optional(),
+        tenantId: z.string().optional(),
+      }).parse(req.query);
+      const granularity = query.granularity ?? defaultAnalyticsGranularity[query.range];
+
+      if (query.tenantId && !canAccessTenant(req.user as User, query.tenantId)) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+      if (analyticsRangeMs[query.range] / AGGREGATE_PERIOD_MS[granularity] > MAX_TIMESERIES_POINTS) {
+        return res.status(400).json({ message: `Use a coarser granularity than ${granularity} for ${query.range}` });
+      }
+
+      res.json(await getTrafficTimeseries(
+        { tenantId: query.tenantId, tenantIds: tenantScopeOf(req) },
+        query.range,
+        granularity,
+      ));
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
   // Tenants
   app.get("/api/tenants", requireAuth, async (req, res) => {
     try {
       const tenants = await storage.getTenants();
-      res.json(tenants);
+      res.json(tenants.filter(t => canAccessTenant(req.user as User, t.id)));
     } catch (error) {
       console.error("Error fetching tenants:", error);
       res.status(500).json({ message: "Failed to fetch tenants" });
@@ -105,7 +653,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/tenants/:id", requireAuth, async (req, res) => {
     try {
       const tenant = await storage.getTenant(req.params.id);
-      if (!tenant) {
+      if (!tenant || !canAccessTenant(req.user as User, tenant.id)) {
         return res.status(404).json({ message: "Tenant not found" });
       }
       res.json(tenant);
@@ -118,20 +666,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/tenants", requireRole("admin"), async (req, res) => {
     try {
       const data = insertTenantSchema.parse(req.body);
-      const tenant = await storage.createTenant(data);
+      const settings = await storage.getSettings();
+      const tenant = await storage.createTenant({
+        ...data,
+        retentionDays: data.retentionDays ?? settings.defaultRetentionDays,
+        anonymizeIpAfterDays: data.anonymizeIpAfterDays ?? settings.anonymizeIpAfterDays,
+      });
       
-      // Create default policy for the tenant
-      await storage.createPolicy({
+      // Create default policy for the tenant, keeping the lower thresholds below the block threshold
+      const blockThreshold = req.body.blockThreshold || settings.defaultBlockThreshold;
+      const challengeThreshold = Math.min(50, blockThreshold);
+      const policy = await storage.createPolicy({
         tenantId: tenant.id,
         name: "Default Policy",
-        enforcementMode: req.body.enforcementMode || "monitor",
-        blockThreshold: req.body.blockThreshold || 70,
-        challengeThreshold: 50,
-        monitorThreshold: 30,
+        enforcementMode: req.body.enforcementMode || settings.defaultEnforcementMode,
+        blockThreshold,
+        challengeThreshold,
+        monitorThreshold: Math.min(30, challengeThreshold),
         rateLimit: 100,
         rateLimitWindow: 60,
+        rateLimitAction: "challenge",
         isDefault: true,
       });
+      await recordAudit(req, { action: "tenant.create", targetType: "tenant", targetId: tenant.id, after: tenant });
+      await recordAudit(req, { action: "policy.create", targetType: "policy", targetId: policy.id, after: policy });
       
       res.status(201).json(tenant);
     } catch (error) {
@@ -145,21 +703,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/tenants/:id", requireRole("admin"), async (req, res) => {
     try {
+      const before = await storage.getTenant(req.params.id);
       const tenant = await storage.updateTenant(req.params.id, req.body);
       if (!tenant) {
         return res.status(404).json({ message: "Tenant not found" });
       }
+      await recordAudit(req, { action: "tenant.update", targetType: "tenant", targetId: tenant.id, before, after: tenant });
       
       // If policy-related settings are included, update the tenant's default policy
       if (req.body.enforcementMode || req.body.blockThreshold !== undefined || req.body.challengeThreshold !== undefined || req.body.monitorThreshold !== undefined) {
         const policy = await storage.getPolicyByTenant(req.params.id);
         if (policy) {
-          await storage.updatePolicy(policy.id, {
+          const updatedPolicy = await storage.updatePolicy(policy.id, {
             enforcementMode: req.body.enforcementMode || policy.enforcementMode,
             blockThreshold: req.body.blockThreshold !== undefined ? req.body.blockThreshold : policy.blockThreshold,
             challengeThreshold: req.body.challengeThreshold !== undefined ? req.body.challengeThreshold : policy.challengeThreshold,
             monitorThreshold: req.body.monitorThreshold !== undefined ? req.body.monitorThreshold : policy.monitorThreshold,
           });
+          ruleSetCache.invalidate(req.params.id);
+          await recordAudit(req, { action: "policy.update", targetType: "policy", targetId: policy.id, before: policy, after: updatedPolicy });
         }
       }
       
@@ -172,7 +734,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/tenants/:id", requireRole("admin"), async (req, res) => {
     try {
+      const tenant = await storage.getTenant(req.params.id);
       await storage.deleteTenant(req.params.id);
+      ruleSetCache.invalidate(req.params.id);
+      if (tenant) {
+        await recordAudit(req, { action: "tenant.delete", targetType: "tenant", targetId: tenant.id, before: tenant });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting tenant:", error);
@@ -180,9 +747,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tenant ingress keys - the secret is only returned when a key is created
+  const toIngressKeyInfo = ({ secret, ...key }: IngressKey): IngressKeyInfo => key;
+
+  app.get("/api/tenants/:id/ingress-keys", requireRole("admin"), async (req, res) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      const keys = await storage.getIngressKeys(req.params.id);
+      res.json(keys.map(toIngressKeyInfo));
+    } catch (error) {
+      console.error("Error fetching ingress keys:", error);
+      res.status(500).json({ message: "Failed to fetch ingress keys" });
+    }
+  });
+
+  // With rotateGraceHours the tenant's current keys expire after that many hours, so senders can
+  // switch to the new key without dropped requests
+  app.post("/api/tenants/:id/ingress-keys", requireRole("admin"), async (req, res) => {
+    try {
+      const { rotateGraceHours } = createIngressKeySchema.parse(req.body ?? {});
+      const tenant = await storage.getTenant(req.params.id);
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+      if (rotateGraceHours !== undefined) {
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + rotateGraceHours * 60 * 60 * 1000);
+        for (const key of (await storage.getIngressKeys(tenant.id)).filter(isIngressKeyUsable)) {
+          const rotated = await storage.updateIngressKey(key.id, rotateGraceHours === 0
+            ? { revokedAt: now }
+            : { expiresAt: key.expiresAt && new Date(key.expiresAt) < expiresAt ? key.expiresAt : expiresAt });
+          await recordAudit(req, {
+            action: rotateGraceHours === 0 ? "ingress_key.revoke" : "ingress_key.expire",
+            targetType: "ingress_key",
+            targetId: key.id,
+            before: toIngressKeyInfo(key),
+            after: rotated && toIngressKeyInfo(rotated),
+          });
+        }
+      }
+      const key = await storage.createIngressKey({
+        tenantId: tenant.id,
+        secret: generateIngressSecret(),
+        createdBy: (req.user as any).id,
+      });
+      await recordAudit(req, { action: "ingress_key.create", targetType: "ingress_key", targetId: key.id, after: toIngressKeyInfo(key) });
+      res.status(201).json({ ...toIngressKeyInfo(key), secret: key.secret });
+    } catch (error) {
+      console.error("Error creating ingress key:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create ingress key" });
+    }
+  });
+
+  app.delete("/api/tenants/:id/ingress-keys/:keyId", requireRole("admin"), async (req, res) => {
+    try {
+      const key = await storage.getIngressKey(req.params.keyId);
+      if (!key || key.tenantId !== req.params.id) {
+        return res.status(404).json({ message: "Ingress key not found" });
+      }
+      const revoked = key.revokedAt ? key : await storage.updateIngressKey(key.id, { revokedAt: new Date() });
+      if (!key.revokedAt) {
+        await recordAudit(req, { action: "ingress_key.revoke", targetType: "ingress_key", targetId: key.id, before: toIngressKeyInfo(key), after: toIngressKeyInfo(revoked!) });
+      }
+      res.json(toIngressKeyInfo(revoked!));
+    } catch (error) {
+      console.error("Error revoking ingress key:", error);
+      res.status(500).json({ message: "Failed to revoke ingress key" });
+    }
+  });
+
   // Tenant Policy
   app.get("/api/tenants/:id/policy", requireAuth, async (req, res) => {
     try {
+      if (!canAccessTenant(req.user as User, req.params.id)) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
       const policy = await storage.getPolicyByTenant(req.params.id);
       if (!policy) {
         return res.status(404).json({ message: "Policy not found" });
@@ -197,9 +839,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Tenant Requests
   app.get("/api/tenants/:id/requests", requireAuth, async (req, res) => {
     try {
-      const requests = await storage.getRequestsWithAnalysis(req.params.id);
-      res.json(requests);
+      if (!canAccessTenant(req.user as User, req.params.id)) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+      // Newest first, a page at a time, with the same cursor and limit as /api/requests
+      const query = z.object({
+        cursor: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+      }).parse(req.query);
+      const cursor = query.cursor ? decodeRequestCursor(query.cursor) : undefined;
+      if (cursor === null || (cursor && cursor.sort !== "timestamp")) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.queryRequests({
+        tenantId: req.params.id,
+        sort: "timestamp",
+        order: "desc",
+        cursor,
+        limit: query.limit,
+      });
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       console.error("Error fetching tenant requests:", error);
       res.status(500).json({ message: "Failed to fetch requests" });
     }
@@ -209,7 +873,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/policies", requireAuth, async (req, res) => {
     try {
       const policies = await storage.getPolicies();
-      res.json(policies);
+      res.json(policies.filter(p => canAccessTenant(req.user as User, p.tenantId)));
     } catch (error) {
       console.error("Error fetching policies:", error);
       res.status(500).json({ message: "Failed to fetch policies" });
@@ -219,7 +883,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/policies/:id", requireAuth, async (req, res) => {
     try {
       const policy = await storage.getPolicy(req.params.id);
-      if (!policy) {
+      if (!policy || !canAccessTenant(req.user as User, policy.tenantId)) {
         return res.status(404).json({ message: "Policy not found" });
       }
       res.json(policy);
@@ -231,13 +895,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/policies/:id", requireRole("admin", "operator"), async (req, res) => {
     try {
-      const policy = await storage.updatePolicy(req.params.id, req.body);
+      const existing = await storage.getPolicy(req.params.id);
+      if (!existing || !canAccessTenant(req.user as User, existing.tenantId)) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      // A policy stays with its tenant; which policy is the default is not edited here
+      const data = insertPolicySchema
+        .omit({ tenantId: true, isDefault: true })
+        .extend({ scoreWeights: scoreWeightsSchema })
+        .partial()
+        .parse(req.body);
+      const policy = await storage.updatePolicy(req.params.id, data);
       if (!policy) {
         return res.status(404).json({ message: "Policy not found" });
       }
+      ruleSetCache.invalidate(existing.tenantId);
+      await recordAudit(req, { action: "policy.update", targetType: "policy", targetId: policy.id, before: existing, after: policy });
       res.json(policy);
     } catch (error) {
       console.error("Error updating policy:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update policy" });
     }
   });
@@ -245,8 +924,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WAF Rules
   app.get("/api/rules", requireAuth, async (req, res) => {
     try {
-      const rules = await storage.getRules();
-      res.json(rules);
+      const user = req.user as User;
+      const rules = (await storage.getRules()).filter(rule => canViewTenantRecord(user, rule.tenantId));
+      
+      // With a tenantId, hit counts and last-hit times are that tenant's; users limited to some
+      // tenants only see theirs, and admins otherwise see totals
+      const { tenantId } = req.query;
+      if (typeof tenantId === "string" && tenantId) {
+        if (!canAccessTenant(user, tenantId)) {
+          return res.status(404).json({ message: "Tenant not found" });
+        }
+        return res.json(await withScopedRuleHits(rules, [tenantId]));
+      }
+      
+      res.json(await withScopedRuleHits(rules, tenantScopeOf(req)));
     } catch (error) {
       console.error("Error fetching rules:", error);
       res.status(500).json({ message: "Failed to fetch rules" });
@@ -256,10 +947,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/rules/:id", requireAuth, async (req, res) => {
     try {
       const rule = await storage.getRule(req.params.id);
-      if (!rule) {
+      if (!rule || !canViewTenantRecord(req.user as User, rule.tenantId)) {
         return res.status(404).json({ message: "Rule not found" });
       }
-      res.json(rule);
+      const [scoped] = await withScopedRuleHits([rule], tenantScopeOf(req));
+      res.json(scoped);
     } catch (error) {
       console.error("Error fetching rule:", error);
       res.status(500).json({ message: "Failed to fetch rule" });
@@ -269,62 +961,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/rules", requireRole("admin"), async (req, res) => {
     try {
       const data = insertWafRuleSchema.parse(req.body);
+      const patternError = validatePattern(data.patternType || "regex", data.pattern);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
       const rule = await storage.createRule(data);
+      ruleSetCache.invalidate(rule.tenantId);
+      await recordAudit(req, { action: "rule.create", targetType: "rule", targetId: rule.id, after: rule });
       res.status(201).json(rule);
     } catch (error) {
-      console.error("Error creating rule:", error);
+      console.error("Error creating rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create rule" });
+    }
+  });
+
+  app.patch("/api/rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      const data = insertWafRuleSchema.omit({ isBuiltIn: true }).partial().parse(req.body);
+      if (data.pattern !== undefined || data.patternType !== undefined) {
+        const patternError = validatePattern(
+          data.patternType ?? existing.patternType ?? "regex",
+          data.pattern ?? existing.pattern,
+        );
+        if (patternError) {
+          return res.status(400).json({ message: patternError });
+        }
+      }
+      
+      const rule = await storage.updateRule(req.params.id, data);
+      if (!rule) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      // Moving a rule between tenants affects both, so drop everything in that case
+      ruleSetCache.invalidate(data.tenantId !== undefined ? null : rule.tenantId);
+      // Switching a rule on or off gets its own action so it is easy to find
+      const toggled = Object.keys(data).length === 1 && data.enabled !== undefined;
+      await recordAudit(req, {
+        action: toggled ? (rule.enabled ? "rule.enable" : "rule.disable") : "rule.update",
+        targetType: "rule",
+        targetId: rule.id,
+        before: existing,
+        after: rule,
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rule" });
+    }
+  });
+
+  app.delete("/api/rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const rule = await storage.getRule(req.params.id);
+      await storage.deleteRule(req.params.id);
+      if (rule) {
+        ruleSetCache.invalidate(rule.tenantId);
+        await recordAudit(req, { action: "rule.delete", targetType: "rule", targetId: rule.id, before: rule });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      res.status(500).json({ message: "Failed to delete rule" });
+    }
+  });
+
+  // Requests
+  app.get("/api/requests", requireAuth, async (req, res) => {
+    try {
+      // Repeated or comma-separated query params, e.g. ?action=deny,challenge&status=4xx
+      const list = z.union([z.string(), z.array(z.string())])
+        .transform(value => (Array.isArray(value) ? value : [value]).flatMap(v => v.split(",")).filter(Boolean))
+        .optional();
+      const query = z.object({
+        tenantId: z.string().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        action: list,
+        status: list.refine(codes => !codes || codes.every(c => /^([1-5]xx|\d{3})$/i.test(c)), "Expected status codes like 403 or 4xx"),
+        scoreMin: z.coerce.number().min(0).optional(),
+        scoreMax: z.coerce.number().min(0).optional(),
+        ruleId: z.string().optional(),
+        country: z.string().optional(),
+        userAgent: z.string().optional(),
+        ip: z.string().optional(),
+        path: z.string().optional(),
+        search: z.string().optional(),
+        q: z.string().max(2000).optional(),
+        method: z.string().optional(),
+        sort: z.enum(["timestamp", "score", "responseCode", "responseTime"]).default("timestamp"),
+        order: z.enum(["asc", "desc"]).default("desc"),
+        cursor: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+      }).parse(req.query);
+
+      const cursor = query.cursor ? decodeRequestCursor(query.cursor) : undefined;
+      if (cursor === null || (cursor && cursor.sort !== query.sort)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.queryRequests({
+        ...query,
+        tenantIds: tenantScopeOf(req),
+        actions: query.action,
+        statusCodes: query.status,
+        cursor,
+      });
+      res.json(page);
+    } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create rule" });
+      if (error instanceof QuerySyntaxError) {
+        return res.status(400).json({ message: error.message, position: error.position });
+      }
+      console.error("Error fetching requests:", error);
+      res.status(500).json({ message: "Failed to fetch requests" });
     }
   });
 
-  app.patch("/api/rules/:id", requireRole("admin"), async (req, res) => {
+  // Saved traffic searches belong to the user who created them
+  app.get("/api/saved-searches", requireAuth, async (req, res) => {
     try {
-      const rule = await storage.updateRule(req.params.id, req.body);
-      if (!rule) {
-        return res.status(404).json({ message: "Rule not found" });
-      }
-      res.json(rule);
+      const searches = await storage.getSavedSearches((req.user as any).id);
+      res.json(searches);
     } catch (error) {
-      console.error("Error updating rule:", error);
-      res.status(500).json({ message: "Failed to update rule" });
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
     }
   });
 
-  app.delete("/api/rules/:id", requireRole("admin"), async (req, res) => {
+  app.post("/api/saved-searches", requireAuth, async (req, res) => {
     try {
-      await storage.deleteRule(req.params.id);
-      res.status(204).send();
+      const data = insertSavedSearchSchema.omit({ userId: true }).extend({
+        name: z.string().trim().min(1).max(100),
+        query: z.string().trim().min(1).max(2000),
+      }).parse(req.body);
+
+      // Reject queries that would fail when run
+      compileTrafficQuery(data.query);
+
+      const search = await storage.createSavedSearch({ ...data, userId: (req.user as any).id });
+      await recordAudit(req, { action: "saved_search.create", targetType: "saved_search", targetId: search.id, after: search });
+      res.status(201).json(search);
     } catch (error) {
-      console.error("Error deleting rule:", error);
-      res.status(500).json({ message: "Failed to delete rule" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof QuerySyntaxError) {
+        return res.status(400).json({ message: error.message, position: error.position });
+      }
+      console.error("Error creating saved search:", error);
+      res.status(500).json({ message: "Failed to create saved search" });
     }
   });
 
-  // Requests
-  app.get("/api/requests", requireAuth, async (req, res) => {
+  app.delete("/api/saved-searches/:id", requireAuth, async (req, res) => {
     try {
-      const { tenantId, ip, path, method, scoreMin, scoreMax } = req.query;
-      let requests = await storage.getRequestsWithAnalysis(tenantId as string);
-      
-      // Apply filters
-      if (ip) requests = requests.filter(r => r.clientIp?.includes(ip as string));
-      if (path) requests = requests.filter(r => r.path.includes(path as string));
-      if (method) requests = requests.filter(r => r.method === method);
-      
-      res.json(requests);
+      const search = await storage.getSavedSearch(req.params.id);
+      if (!search || search.userId !== (req.user as any).id) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      await storage.deleteSavedSearch(search.id);
+      await recordAudit(req, { action: "saved_search.delete", targetType: "saved_search", targetId: search.id, before: search });
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching requests:", error);
-      res.status(500).json({ message: "Failed to fetch requests" });
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
     }
   });
 
   app.get("/api/requests/:id", requireAuth, async (req, res) => {
     try {
       const request = await storage.getRequestWithAnalysis(req.params.id);
-      if (!request) {
+      if (!request || !canAccessTenant(req.user as User, request.tenantId)) {
         return res.status(404).json({ message: "Request not found" });
       }
       res.json(request);
@@ -334,25 +1153,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Overrides apply to this request, its client IP, or one of the rules it matched
   app.post("/api/requests/:id/override", requireRole("admin", "operator"), async (req, res) => {
     try {
+      const data = z.object({
+        overrideType: z.enum(["request", "rule", "ip"]).default("request"),
+        action: z.enum(["allow", "monitor", "challenge", "deny"]),
+        reason: z.string().optional(),
+        ruleId: z.string().optional(),
+        expiresAt: z.coerce.date().nullish(),
+      }).parse(req.body);
+
       const request = await storage.getRequest(req.params.id);
-      if (!request) {
+      if (!request || !canAccessTenant(req.user as User, request.tenantId)) {
         return res.status(404).json({ message: "Request not found" });
       }
       
+      let targetId = request.id;
+      if (data.overrideType === "ip") {
+        if (!request.clientIp) {
+          return res.status(400).json({ message: "Request has no client IP" });
+        }
+        targetId = request.clientIp;
+      } else if (data.overrideType === "rule") {
+        const matchedRuleIds = ((request.wafHitsJson as { ruleId: string }[] | null) || []).map(hit => hit.ruleId);
+        if (!data.ruleId || !matchedRuleIds.includes(data.ruleId)) {
+          return res.status(400).json({ message: "ruleId must be one of the rules this request matched" });
+        }
+        targetId = data.ruleId;
+      }
+      
       const override = await storage.createOverride({
-        overrideType: "request",
-        targetId: req.params.id,
+        overrideType: data.overrideType,
+        targetId,
         tenantId: request.tenantId,
-        action: req.body.action,
+        action: data.action,
         operatorId: (req.user as any).id,
-        reason: req.body.reason,
+        reason: data.reason,
+        expiresAt: data.expiresAt ?? null,
       });
       
+      // A request override rewrites the decision recorded for the original request
+      if (data.overrideType === "request") {
+        await storage.updateRequest(request.id, { actionTaken: data.action });
+        await storage.updateAnalysisByRequest(request.id, { finalAction: data.action });
+      }
+      await recordAudit(req, { action: "override.create", targetType: "override", targetId: override.id, after: override });
+      
       res.status(201).json(override);
     } catch (error) {
       console.error("Error creating override:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create override" });
     }
   });
@@ -361,16 +1214,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/requests/:id/whitelist-ip", requireRole("admin", "operator"), async (req, res) => {
     try {
       const request = await storage.getRequest(req.params.id);
-      if (!request || !request.clientIp) {
+      if (!request || !request.clientIp || !canAccessTenant(req.user as User, request.tenantId)) {
         return res.status(404).json({ message: "Request not found or has no IP" });
       }
       
-      await storage.createIpList({
+      const entry = await storage.createIpList({
         tenantId: request.tenantId,
         listType: "whitelist",
         ipAddress: request.clientIp,
         reason: req.body.reason || "Whitelisted from request detail",
+        createdBy: (req.user as any).id,
       });
+      await recordAudit(req, { action: "ip_list.create", targetType: "ip_list", targetId: entry.id, after: entry });
       
       res.status(201).json({ message: "IP whitelisted successfully" });
     } catch (error) {
@@ -383,16 +1238,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/requests/:id/blacklist-ip", requireRole("admin", "operator"), async (req, res) => {
     try {
       const request = await storage.getRequest(req.params.id);
-      if (!request || !request.clientIp) {
+      if (!request || !request.clientIp || !canAccessTenant(req.user as User, request.tenantId)) {
         return res.status(404).json({ message: "Request not found or has no IP" });
       }
       
-      await storage.createIpList({
+      const entry = await storage.createIpList({
         tenantId: request.tenantId,
         listType: "blacklist",
         ipAddress: request.clientIp,
         reason: req.body.reason || "Blacklisted from request detail",
+        createdBy: (req.user as any).id,
       });
+      await recordAudit(req, { action: "ip_list.create", targetType: "ip_list", targetId: entry.id, after: entry });
       
       res.status(201).json({ message: "IP blacklisted successfully" });
     } catch (error) {
@@ -401,24 +1258,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // IP allow/deny lists - entries may be single addresses or CIDR ranges
+  app.get("/api/ip-lists", requireAuth, async (req, res) => {
+    try {
+      const lists = await storage.getIpLists(req.query.tenantId as string | undefined);
+      res.json(lists.filter(list => canViewTenantRecord(req.user as User, list.tenantId)));
+    } catch (error) {
+      console.error("Error fetching IP lists:", error);
+      res.status(500).json({ message: "Failed to fetch IP lists" });
+    }
+  });
+
+  app.post("/api/ip-lists", requireRole("admin", "operator"), async (req, res) => {
+    try {
+      const data = insertIpListSchema.extend({
+        listType: z.enum(["whitelist", "blacklist"]),
+        expiresAt: z.coerce.date().nullish(),
+      }).parse(req.body);
+      
+      if (!isValidIpListEntry(data.ipAddress)) {
+        return res.status(400).json({ message: "ipAddress must be an IP address or CIDR range" });
+      }
+      // Global entries apply to every tenant, so only users with access to all tenants can add them
+      if (!canAccessTenant(req.user as User, data.tenantId)) {
+        return res.status(403).json({ message: "You do not have access to this tenant" });
+      }
+      
+      const ipList = await storage.createIpList({
+        ...data,
+        ipAddress: data.ipAddress.trim(),
+        createdBy: (req.user as any).id,
+      });
+      await recordAudit(req, { action: "ip_list.create", targetType: "ip_list", targetId: ipList.id, after: ipList });
+      res.status(201).json(ipList);
+    } catch (error) {
+      console.error("Error creating IP list entry:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create IP list entry" });
+    }
+  });
+
+  app.delete("/api/ip-lists/:id", requireRole("admin", "operator"), async (req, res) => {
+    try {
+      const list = await storage.getIpList(req.params.id);
+      if (!list || !canAccessTenant(req.user as User, list.tenantId)) {
+        return res.status(404).json({ message: "IP list entry not found" });
+      }
+      await storage.deleteIpList(list.id);
+      await recordAudit(req, { action: "ip_list.delete", targetType: "ip_list", targetId: list.id, before: list });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting IP list entry:", error);
+      res.status(500).json({ message: "Failed to delete IP list entry" });
+    }
+  });
+
   // Create rule from request
   app.post("/api/requests/:id/create-rule", requireRole("admin", "operator"), async (req, res) => {
     try {
       const request = await storage.getRequest(req.params.id);
-      if (!request) {
+      if (!request || !canAccessTenant(req.user as User, request.tenantId)) {
         return res.status(404).json({ message: "Request not found" });
       }
       
+      // Without a pattern the rule matches this request's path exactly
+      const pattern: string = req.body.pattern || request.path;
+      const patternType: string = req.body.patternType || (req.body.pattern ? "regex" : "exact");
+      const patternError = validatePattern(patternType, pattern);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+
       const rule = await storage.createRule({
         tenantId: request.tenantId,
         name: req.body.name,
         category: req.body.category || "custom",
-        pattern: req.body.pattern || request.path,
-        targetField: req.body.targetField || "request",
+        pattern,
+        patternType,
+        targetField: req.body.targetField || (req.body.pattern ? "request" : "path"),
         description: req.body.description || `Custom rule created from request`,
         severity: req.body.severity || "medium",
         enabled: true,
       });
+      ruleSetCache.invalidate(rule.tenantId);
+      await recordAudit(req, { action: "rule.create", targetType: "rule", targetId: rule.id, after: rule });
       
       res.status(201).json(rule);
     } catch (error) {
@@ -433,7 +1358,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Alerts
   app.get("/api/alerts", requireAuth, async (req, res) => {
     try {
-      const alerts = await storage.getAlerts();
+      const alerts = await storage.getAlerts(tenantScopeOf(req));
       res.json(alerts);
     } catch (error) {
       console.error("Error fetching alerts:", error);
@@ -443,7 +1368,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/alerts/recent", requireAuth, async (req, res) => {
     try {
-      const alerts = await storage.getAlerts();
+      const alerts = await storage.getAlerts(tenantScopeOf(req));
       res.json(alerts.slice(0, 5));
     } catch (error) {
       console.error("Error fetching recent alerts:", error);
@@ -453,10 +1378,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/alerts/:id", requireAuth, async (req, res) => {
     try {
+      const existing = await storage.getAlert(req.params.id);
+      if (!existing || !canAccessTenant(req.user as User, existing.tenantId)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
       const alert = await storage.updateAlert(req.params.id, req.body);
       if (!alert) {
         return res.status(404).json({ message: "Alert not found" });
       }
+      await recordAudit(req, { action: "alert.update", targetType: "alert", targetId: alert.id, before: existing, after: alert });
       res.json(alert);
     } catch (error) {
       console.error("Error updating alert:", error);
@@ -466,7 +1396,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/alerts/mark-all-read", requireAuth, async (req, res) => {
     try {
-      await storage.markAllAlertsRead();
+      await storage.markAllAlertsRead(tenantScopeOf(req));
+      await recordAudit(req, { action: "alert.mark_all_read", targetType: "alert" });
       res.status(204).send();
     } catch (error) {
       console.error("Error marking alerts as read:", error);
@@ -476,10 +1407,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/alerts/:id/dismiss", requireAuth, async (req, res) => {
     try {
+      const existing = await storage.getAlert(req.params.id);
+      if (!existing || !canAccessTenant(req.user as User, existing.tenantId)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
       const alert = await storage.updateAlert(req.params.id, { isDismissed: true });
       if (!alert) {
         return res.status(404).json({ message: "Alert not found" });
       }
+      await recordAudit(req, { action: "alert.dismiss", targetType: "alert", targetId: alert.id, before: existing, after: alert });
       res.json(alert);
     } catch (error) {
       console.error("Error dismissing alert:", error);
@@ -498,32 +1434,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Webhooks without a secret get a generated one so every delivery is signed
+  const webhookSchema = insertWebhookSchema.omit({ failureCount: true, lastTriggeredAt: true }).extend({
+    name: z.string().trim().min(1),
+    url: z.string().url(),
+    secret: z.string().min(16).nullish(),
+    events: z.array(z.enum(webhookEvents)).min(1).default(["alert.created"]),
+    format: z.enum(webhookFormats).default("generic"),
+    routingKey: z.string().trim().min(1).nullish(),
+  });
+
   app.post("/api/webhooks", requireRole("admin"), async (req, res) => {
     try {
-      const webhook = await storage.createWebhook(req.body);
+      const data = webhookSchema.parse(req.body);
+      if (data.format === "pagerduty" && !data.routingKey) {
+        return res.status(400).json({ message: "PagerDuty webhooks need a routing key" });
+      }
+      const webhook = await storage.createWebhook({
+        ...data,
+        secret: data.secret || randomBytes(32).toString("hex"),
+      });
+      await recordAudit(req, { action: "webhook.create", targetType: "webhook", targetId: webhook.id, after: webhook });
       res.status(201).json(webhook);
     } catch (error) {
       console.error("Error creating webhook:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create webhook" });
     }
   });
 
   app.patch("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
     try {
-      const webhook = await storage.updateWebhook(req.params.id, req.body);
+      const data = webhookSchema.partial().parse(req.body);
+      const existing = await storage.getWebhook(req.params.id);
+      if (data.format === "pagerduty" && !data.routingKey) {
+        if (existing && !existing.routingKey) {
+          return res.status(400).json({ message: "PagerDuty webhooks need a routing key" });
+        }
+      }
+      // Re-enabling a webhook clears the failure streak that disabled it
+      const webhook = await storage.updateWebhook(req.params.id, {
+        ...data,
+        ...(data.isActive && { failureCount: 0 }),
+      });
       if (!webhook) {
         return res.status(404).json({ message: "Webhook not found" });
       }
+      await recordAudit(req, { action: "webhook.update", targetType: "webhook", targetId: webhook.id, before: existing, after: webhook });
       res.json(webhook);
     } catch (error) {
       console.error("Error updating webhook:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update webhook" });
     }
   });
 
+  // Render the webhook's template against a sample alert and send it once
+  app.post("/api/webhooks/:id/test", requireRole("admin"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const result = await sendTestWebhook(webhook);
+      await recordAudit(req, { action: "webhook.test", targetType: "webhook", targetId: webhook.id });
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ message: "Failed to send test webhook" });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", requireRole("admin"), async (req, res) => {
+    try {
+      const deliveries = await storage.getWebhookDeliveries(req.params.id);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
   app.delete("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
     try {
+      const webhook = await storage.getWebhook(req.params.id);
       await storage.deleteWebhook(req.params.id);
+      if (webhook) {
+        await recordAudit(req, { action: "webhook.delete", targetType: "webhook", targetId: webhook.id, before: webhook });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting webhook:", error);
@@ -535,10 +1537,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/export/csv", requireAuth, async (req, res) => {
     try {
       const { tenantId, startDate, endDate } = req.query;
+      if (tenantId && !canAccessTenant(req.user as User, tenantId as string)) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
       const reqs = await storage.getRequestsForExport(
         tenantId as string,
         startDate ? new Date(startDate as string) : undefined,
-        endDate ? new Date(endDate as string) : undefined
+        endDate ? new Date(endDate as string) : undefined,
+        tenantScopeOf(req)
       );
 
       let csv = "ID,Timestamp,ClientIP,Method,Path,StatusCode,ActionTaken,Score\n";
@@ -558,10 +1564,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/export/json", requireAuth, async (req, res) => {
     try {
       const { tenantId, startDate, endDate } = req.query;
+      if (tenantId && !canAccessTenant(req.user as User, tenantId as string)) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
       const reqs = await storage.getRequestsForExport(
         tenantId as string,
         startDate ? new Date(startDate as string) : undefined,
-        endDate ? new Date(endDate as string) : undefined
+        endDate ? new Date(endDate as string) : undefined,
+        tenantScopeOf(req)
       );
 
       res.setHeader("Content-Type", "application/json");
@@ -584,12 +1594,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Creates the account and returns a one-time invite link for the admin to pass on
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const data = inviteUserSchema.parse(req.body);
+      if (await storage.getUserByEmail(data.email)) {
+        return res.status(409).json({ message: "A user with this email already exists" });
+      }
+      const user = await storage.createUser({ ...data, invitedBy: (req.user as any).id });
+      const { inviteExpiryDays } = await storage.getSettings();
+      const { token, expiresAt } = await issuePasswordResetToken(user.id, inviteExpiryDays * 24 * 60 * 60 * 1000);
+      await recordAudit(req, { action: "user.invite", targetType: "user", targetId: user.id, after: user });
+      res.status(201).json({ user, invite: { expiresAt, mode: "set", path: resetPasswordPath(token) } });
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to invite user" });
+    }
+  });
+
   app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
     try {
-      const user = await storage.updateUser(req.params.id, req.body);
+      // Sign-in state changes only through the password, unlock and deactivate endpoints
+      const {
+        passwordSetAt, failedLoginCount, lockedUntil, totpEnabledAt,
+        invitedAt, invitedBy, deactivatedAt, lastLoginAt, lastLoginIp, oidcSubject, ...data
+      } = req.body;
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (data.role && data.role !== "admin" && await isLastActiveAdmin(existing)) {
+        return res.status(400).json({ message: "The last active admin cannot be demoted" });
+      }
+      const user = await storage.updateUser(req.params.id, data);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await recordAudit(req, { action: "user.update", targetType: "user", targetId: user.id, before: existing, after: user });
       res.json(user);
     } catch (error) {
       console.error("Error updating user:", error);
@@ -597,6 +1641,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The link is returned once for the admin to pass on; only its hash is stored
+  app.post("/api/users/:id/password-reset", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const { token, expiresAt } = await issuePasswordResetToken(user.id);
+      await recordAudit(req, { action: "user.password_link_create", targetType: "user", targetId: user.id });
+      res.json({ expiresAt, mode: user.passwordSetAt ? "reset" : "set", path: resetPasswordPath(token) });
+    } catch (error) {
+      console.error("Error creating password reset link:", error);
+      res.status(500).json({ message: "Failed to create password reset link" });
+    }
+  });
+
+  app.post("/api/users/:id/2fa/reset", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await disableTwoFactor(user.id);
+      await recordAudit(req, { action: "user.2fa_reset", targetType: "user", targetId: user.id });
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Error resetting 2FA:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Signs the user out everywhere; an admin signing themselves out keeps the current session
+  app.post("/api/users/:id/sessions/revoke", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const keepSid = user.id === (req.user as any).id ? req.sessionID : undefined;
+      const revoked = await storage.deleteUserSessions(user.id, keepSid);
+      await recordAudit(req, { action: "user.sessions_revoke", targetType: "user", targetId: user.id, after: { revokedSessions: revoked } });
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  // Deactivated users cannot sign in and their sessions and API tokens stop working; nothing is deleted
+  app.post("/api/users/:id/deactivate", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === (req.user as any).id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+      if (await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "The last active admin cannot be deactivated" });
+      }
+      const updated = await storage.updateUser(user.id, { deactivatedAt: user.deactivatedAt ?? new Date() });
+      await storage.deleteUserSessions(user.id);
+      await recordAudit(req, { action: "user.deactivate", targetType: "user", targetId: user.id, before: user, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  app.post("/api/users/:id/reactivate", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getUser(req.params.id);
+      const user = await storage.updateUser(req.params.id, { deactivatedAt: null });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "user.reactivate", targetType: "user", targetId: user.id, before: existing, after: user });
+      res.json(user);
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+
+  // Overrides, IP list entries and service tokens move to ?reassignTo=, defaulting to the acting admin
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === (req.user as any).id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      if (await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "The last active admin cannot be deleted" });
+      }
+      const reassignTo = typeof req.query.reassignTo === "string" && req.query.reassignTo
+        ? req.query.reassignTo
+        : (req.user as any).id as string;
+      const target = await storage.getUser(reassignTo);
+      if (!target || target.id === user.id || target.deactivatedAt) {
+        return res.status(400).json({ message: "Reassign to an active user other than the one being deleted" });
+      }
+      await storage.deleteUser(user.id, target.id);
+      await recordAudit(req, {
+        action: "user.delete",
+        targetType: "user",
+        targetId: user.id,
+        before: user,
+        after: { reassignedTo: target.id },
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getUser(req.params.id);
+      const user = await storage.updateUser(req.params.id, { failedLoginCount: 0, lockedUntil: null });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "user.unlock", targetType: "user", targetId: user.id, before: existing, after: user });
+      res.json(user);
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
   // Settings
   app.get("/api/settings", requireAuth, async (req, res) => {
     try {
@@ -608,16 +1788,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saving merges the body over the current settings and records a new version
   app.put("/api/settings", requireRole("admin"), async (req, res) => {
     try {
-      const settings = await storage.updateSettings(req.body);
-      res.json(settings);
+      const current = await storage.getSettings();
+      const data = settingsSchema.parse({ ...current, ...req.body });
+      if (data.oidcEnabled && (!data.oidcIssuerUrl || !data.oidcClientId)) {
+        return res.status(400).json({ message: "Single sign-on needs an issuer URL and a client ID" });
+      }
+      const version = await storage.updateSettings(data, (req.user as any).id);
+      await recordAudit(req, { action: "settings.update", targetType: "settings", targetId: String(version.version), before: current, after: data });
+      res.json(data);
     } catch (error) {
       console.error("Error updating settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update settings" });
     }
   });
 
+  app.get("/api/settings/history", requireRole("admin"), async (req, res) => {
+    try {
+      const versions = await storage.getSettingsHistory();
+      const userIds = Array.from(new Set(versions.map(v => v.changedBy).filter((id): id is string => !!id)));
+      const users = new Map((await Promise.all(userIds.map(id => storage.getUser(id))))
+        .filter((u): u is NonNullable<typeof u> => !!u)
+        .map(u => [u.id, u]));
+      res.json(versions.map(v => {
+        const user = v.changedBy ? users.get(v.changedBy) : undefined;
+        return {
+          ...v,
+          changedByName: user ? ([user.firstName, user.lastName].filter(Boolean).join(" ") || user.email) : null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching settings history:", error);
+      res.status(500).json({ message: "Failed to fetch settings history" });
+    }
+  });
+
+  // Restoring saves an older version's values as a new version
+  app.post("/api/settings/history/:version/restore", requireRole("admin"), async (req, res) => {
+    try {
+      const version = await storage.getSettingsVersion(parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ message: "Settings version not found" });
+      }
+      const current = await storage.getSettings();
+      const data = settingsSchema.parse(version.settingsJson);
+      const restored = await storage.updateSettings(data, (req.user as any).id);
+      await recordAudit(req, {
+        action: "settings.restore",
+        targetType: "settings",
+        targetId: String(restored.version),
+        before: current,
+        after: { ...data, restoredFromVersion: version.version },
+      });
+      res.json(data);
+    } catch (error) {
+      console.error("Error restoring settings:", error);
+      res.status(500).json({ message: "Failed to restore settings" });
+    }
+  });
+
+  // Audit log - admin only and not reachable with API tokens
+  const auditQuerySchema = z.object({
+    search: z.string().trim().max(200).optional(),
+    action: z.string().max(100).optional(),
+    targetType: z.enum(auditTargetTypes).optional(),
+    actorId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+
+  app.get("/api/audit-log", requireRole("admin"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.extend({
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+        offset: z.coerce.number().int().min(0).default(0),
+      }).parse(req.query);
+      res.json(await storage.getAuditLogs(query));
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/audit-log/verify", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await verifyAuditChain());
+    } catch (error) {
+      console.error("Error verifying audit log:", error);
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
+  // Exports carry the hashes so the chain can be checked independently of this server
+  app.get("/api/audit-log/export", requireRole("admin"), async (req, res) => {
+    try {
+      const { format, ...query } = auditQuerySchema.extend({
+        format: z.enum(["csv", "json"]).default("csv"),
+      }).parse(req.query);
+      const { entries, total } = await storage.getAuditLogs(query);
+      await recordAudit(req, { action: "audit_log.export", targetType: "audit_log", after: { format, ...query, entries: total } });
+
+      const filename = `audit_log_${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      if (format === "json") {
+        res.setHeader("Content-Type", "application/json");
+        return res.json({ entries, totalRecords: total });
+      }
+
+      const csvField = (value: unknown) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+      const columns: (keyof AuditLog)[] = [
+        "sequence", "createdAt", "actorId", "actorEmail", "apiTokenId", "action", "targetType", "targetId",
+        "changes", "ipAddress", "userAgent", "prevHash", "hash",
+      ];
+      let csv = columns.join(",") + "\n";
+      for (const entry of entries) {
+        csv += columns.map(column => {
+          const value = entry[column];
+          if (value instanceof Date) return csvField(value.toISOString());
+          return csvField(value && typeof value === "object" ? JSON.stringify(value) : value);
+        }).join(",") + "\n";
+      }
+      res.setHeader("Content-Type", "text/csv");
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
   // WAF Ingress endpoint - analyze, store, and broadcast incoming requests
   // This endpoint receives proxied requests from upstream (e.g., nginx, load balancer)
   app.post("/api/waf/ingress", async (req, res) => {
@@ -627,92 +1936,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!tenantId || !incomingRequest) {
         return res.status(400).json({ message: "tenantId and request are required" });
       }
+
+      // Signed with one of the tenant's ingress keys, or sent with an API token holding the ingress scope
+      if (req.apiToken) {
+        if (!tokenAllows(req)) {
+          return res.status(403).json({ message: "API token scope does not allow this request" });
+        }
+        if (!canAccessTenant(req.user as User, String(tenantId))) {
+          return res.status(403).json({ message: "You do not have access to this tenant" });
+        }
+      } else {
+        const auth = await verifyIngressSignature(req, String(tenantId));
+        if (!auth.ok) {
+          return res.status(401).json({ message: auth.message, code: auth.code });
+        }
+      }
       
       const tenant = await storage.getTenant(tenantId);
       if (!tenant || !tenant.isActive) {
         return res.status(404).json({ message: "Tenant not found or inactive" });
       }
       
-      // Get policy thresholds
-      const policy = await storage.getPolicyByTenant(tenantId);
-      const thresholds = {
-        blockThreshold: policy?.blockThreshold ?? 70,
-        challengeThreshold: policy?.challengeThreshold ?? 50,
-        monitorThreshold: policy?.monitorThreshold ?? 30,
-      };
-      
-      // Load WAF rules
-      const customRules = await storage.getRulesByTenant(tenantId);
-      const globalRules = await storage.getRulesByTenant(null);
-      wafEngine.setCustomRules([...globalRules, ...customRules]);
-      
       // Analyze the request
-      const analysis = wafEngine.analyzeRequest(incomingRequest, thresholds);
-      
-      // Determine response code based on action
-      const responseCode = analysis.action === "block" ? 403 
-        : analysis.action === "challenge" ? 429 
-        : 200;
-      
-      // Apply privacy settings: scrub sensitive headers
-      let headersToStore = incomingRequest.headers || {};
-      if ((tenant.scrubCookies ?? false) || (tenant.scrubAuthHeaders ?? false)) {
-        headersToStore = scrubHeaders(headersToStore, tenant.scrubCookies ?? false, tenant.scrubAuthHeaders ?? false);
-      }
-      
-      // Store the request
-      const storedRequest = await storage.createRequest({
-        tenantId,
-        timestamp: new Date(),
-        method: incomingRequest.method,
-        path: incomingRequest.path,
-        clientIp: incomingRequest.clientIp,
-        userAgent: incomingRequest.headers?.["user-agent"],
-        responseCode,
-        actionTaken: analysis.action === "block" ? "deny" : analysis.action as any,
-        headersJson: headersToStore,
-        bodyPreview: incomingRequest.body?.substring(0, 500) || null,
-        queryString: Object.entries(incomingRequest.query || {})
-          .map(([k, v]) => `${k}=${v}`).join("&") || null,
-        wafHitsJson: analysis.matches,
-      });
+      const result = await analyzeTenantRequest(tenant, incomingRequest);
+      const { analysis, suggestedAction, finalAction } = result;
       
-      // Store analysis record
-      await storage.createAnalysis({
-        requestId: storedRequest.id,
-        matchedRulesJson: analysis.matches,
-        totalScore: analysis.score,
-        suggestedAction: analysis.action === "block" ? "deny" : analysis.action as any,
-        finalAction: analysis.action === "block" ? "deny" : analysis.action as any,
-        processingTimeMs: analysis.processingTimeMs,
-        breakdownJson: { riskLevel: analysis.riskLevel, matchCount: analysis.matches.length },
+      // Store the request with the response code the WAF answers with
+      const storedRequest = await recordTenantRequest(tenant, incomingRequest, result, {
+        responseCode: responseCodeForAction(finalAction),
       });
       
-      // Broadcast to SSE clients
-      sseServer.broadcastRequest(storedRequest);
-      
-      // Create alert for high-risk requests
-      if (analysis.score >= 70) {
-        const alert = await storage.createAlert({
-          tenantId,
-          severity: analysis.riskLevel,
-          type: analysis.matches[0]?.category || "unknown",
-          title: `High-risk request detected (Score: ${analysis.score})`,
-          message: `Detected ${analysis.matches.length} rule matches: ${analysis.matches.slice(0, 3).map(m => m.ruleName).join(", ")}${analysis.matches.length > 3 ? '...' : ''}`,
-        });
-        
-        sseServer.broadcastAlert({
-          id: alert.id,
-          severity: alert.severity,
-          message: alert.title,
-          tenantId,
-        });
-      }
-      
       // Return analysis result for upstream to act upon
       res.json({
         requestId: storedRequest.id,
-        action: analysis.action,
+        // Enforced decision; in monitor mode this stays "allow" even when the score suggests otherwise
+        action: finalAction === "deny" ? "block" : finalAction === "challenge" ? "challenge" : "allow",
+        suggestedAction,
+        finalAction,
+        enforcementMode: enforcementModeOf(result.policy),
         score: analysis.score,
         riskLevel: analysis.riskLevel,
         matchCount: analysis.matches.length,
@@ -724,30 +1985,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Compiled rule set cache: per-tenant rule counts, compile time and hits
+  app.get("/api/waf/rule-cache", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(ruleSetCache.stats());
+    } catch (error) {
+      console.error("Error fetching rule cache stats:", error);
+      res.status(500).json({ message: "Failed to fetch rule cache stats" });
+    }
+  });
+
   // WAF Analysis endpoint - analyze a request without storing it
   app.post("/api/waf/analyze", requireAuth, async (req, res) => {
     try {
       const { tenantId, request: wafRequest } = req.body;
       
       const tenant = await storage.getTenant(tenantId);
-      if (!tenant) {
+      if (!tenant || !canAccessTenant(req.user as User, tenant.id)) {
         return res.status(404).json({ message: "Tenant not found" });
       }
       
-      const policy = await storage.getPolicyByTenant(tenantId);
-      const thresholds = {
-        blockThreshold: policy?.blockThreshold ?? 70,
-        challengeThreshold: policy?.challengeThreshold ?? 50,
-        monitorThreshold: policy?.monitorThreshold ?? 30,
-      };
-      
-      const customRules = await storage.getRulesByTenant(tenantId);
-      const globalRules = await storage.getRulesByTenant(null);
-      wafEngine.setCustomRules([...globalRules, ...customRules]);
+      const { analysis, anomaly, suggestedAction, finalAction } = await analyzeTenantRequest(tenant, wafRequest, true);
       
-      const result = wafEngine.analyzeRequest(wafRequest, thresholds);
-      
-      res.json(result);
+      res.json({ ...analysis, anomaly, suggestedAction, finalAction });
     } catch (error) {
       console.error("Error analyzing request:", error);
       res.status(500).json({ message: "Failed to analyze request" });
@@ -756,6 +2016,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Start background jobs
   startDataRetentionJob();
+  startRuleHitFlushJob();
+  startWebhookDeliveryJob();
+  startAnalyticsRollupJob();
 
   // CORS preflight for SSE endpoint
   app.options("/api/traffic/stream", (req, res) => {
@@ -772,7 +2035,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     req.socket?.setTimeout(0);
     res.socket?.setTimeout(0);
     
-    const clientId = sseServer.registerClient(res);
+    const clientId = sseServer.registerClient(res, tenantScopeOf(req));
     console.log(`[SSE] Stream endpoint: ${clientId} connected`);
   });
 
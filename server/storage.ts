@@ -8,8 +8,23 @@ import {
   type Override, type InsertOverride,
   type Alert, type InsertAlert,
   type Webhook, type InsertWebhook,
+  type WebhookDelivery, type InsertWebhookDelivery,
   type IpList, type InsertIpList,
+  type RuleHit,
+  type SavedSearch, type InsertSavedSearch,
+  type Settings, type SettingsVersion,
+  type UserCredentials,
+  type InviteUser,
+  type Session,
+  type ApiToken,
+  type IngressKey,
+  type AuditLog, type AuditLogPage,
+  type AnalyticsAggregate, type InsertAnalyticsAggregate, type AggregatePeriodType, type AggregateTopEntry,
+  settingsSchema,
   type DashboardStats,
+  type DashboardTraffic,
+  type RequestWithAnalysis,
+  type RequestPage,
 } from "@shared/schema";
 import {
   User as UserModel,
@@ -21,24 +36,161 @@ import {
   Override as OverrideModel,
   Alert as AlertModel,
   Webhook as WebhookModel,
+  WebhookDelivery as WebhookDeliveryModel,
   IpList as IpListModel,
+  RuleHit as RuleHitModel,
+  SavedSearch as SavedSearchModel,
+  SettingsVersion as SettingsVersionModel,
+  AuditLog as AuditLogModel,
+  UserCredential as UserCredentialModel,
+  Session as SessionModel,
+  ApiToken as ApiTokenModel,
+  IngressKey as IngressKeyModel,
+  AnalyticsAggregate as AnalyticsAggregateModel,
+  type AnalyticsAggregateCreationAttributes,
 } from "./models";
-import { Op } from "sequelize";
+import { Op, Sequelize, type WhereOptions } from "sequelize";
+import { compileTrafficQuery, columnContains, ruleHitCondition } from "./traffic-query";
+
+export type RequestSort = "timestamp" | "score" | "responseCode" | "responseTime";
+
+// Position of the last row of a page in the chosen sort order
+export interface RequestCursor {
+  sort: RequestSort;
+  value: string | number;
+  id: string;
+}
+
+export interface RequestQuery {
+  tenantId?: string;
+  // Restricts results to these tenants, for users who cannot see every tenant
+  tenantIds?: string[];
+  from?: Date;
+  to?: Date;
+  actions?: string[];
+  // Exact codes ("403") or classes ("4xx")
+  statusCodes?: string[];
+  scoreMin?: number;
+  scoreMax?: number;
+  ruleId?: string;
+  country?: string;
+  userAgent?: string;
+  ip?: string;
+  path?: string;
+  // Matches either the path or the client IP
+  search?: string;
+  // Traffic query language expression, see traffic-query.ts
+  q?: string;
+  method?: string;
+  sort: RequestSort;
+  order: "asc" | "desc";
+  cursor?: RequestCursor;
+  limit: number;
+}
+
+export interface AnalyticsAggregateQuery {
+  periodType: AggregatePeriodType;
+  tenantId?: string;
+  tenantIds?: string[];
+  // Periods starting at or after `from` and before `to`
+  from: Date;
+  to: Date;
+}
+
+// How many paths, IPs and rules an aggregate keeps
+const AGGREGATE_TOP_LIMIT = 10;
+
+function topEntries(counts: Map<string, AggregateTopEntry>): AggregateTopEntry[] {
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, AGGREGATE_TOP_LIMIT);
+}
+
+export interface AuditLogQuery {
+  // Matches the actor's email, the action or the target id
+  search?: string;
+  action?: string;
+  targetType?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  // Omitted to return every matching entry, for exports
+  limit?: number;
+  offset?: number;
+}
+
+export function encodeRequestCursor(cursor: RequestCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeRequestCursor(cursor: string): RequestCursor | null {
+  try {
+    const { sort, value, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof id !== "string" || (typeof value !== "string" && typeof value !== "number")) return null;
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Nullable columns are coalesced so rows without a value still sort and page consistently
+function requestSortColumn(sort: RequestSort) {
+  switch (sort) {
+    case "score":
+      return Sequelize.fn("COALESCE", Sequelize.col("analysis.totalScore"), -1);
+    case "responseCode":
+      return Sequelize.fn("COALESCE", Sequelize.col("Request.responseCode"), -1);
+    case "responseTime":
+      return Sequelize.fn("COALESCE", Sequelize.col("Request.responseTime"), -1);
+    default:
+      return Sequelize.col("Request.timestamp");
+  }
+}
+
 
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByOidcSubject(oidcSubject: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   getUsers(): Promise<User[]>;
   updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
+  createUser(user: InviteUser & { invitedBy: string | null; oidcSubject?: string }): Promise<User>;
+  deleteUser(id: string, reassignTo: string): Promise<void>;
+  getUserCredentials(userId: string): Promise<UserCredentials | undefined>;
+  getUserCredentialsByResetToken(resetTokenHash: string): Promise<UserCredentials | undefined>;
+  updateUserCredentials(userId: string, data: Partial<UserCredentials>): Promise<UserCredentials>;
+
+  // Sessions
+  getSession(sid: string): Promise<Session | undefined>;
+  createSession(sid: string, data: Omit<Session, "sid" | "createdAt" | "lastSeenAt">): Promise<void>;
+  // False when the row no longer exists, e.g. the session was revoked
+  updateSession(sid: string, data: Omit<Session, "sid" | "createdAt" | "lastSeenAt">): Promise<boolean>;
+  touchSession(sid: string, expire: Date): Promise<void>;
+  deleteSession(sid: string): Promise<void>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+  deleteExpiredSessions(): Promise<number>;
+
+  // API tokens
+  getApiTokens(filter?: { userId?: string; kind?: ApiToken["kind"] }): Promise<ApiToken[]>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: Omit<ApiToken, "id" | "lastUsedAt" | "lastUsedIp" | "revokedAt" | "createdAt">): Promise<ApiToken>;
+  updateApiToken(id: string, data: Partial<ApiToken>): Promise<ApiToken | undefined>;
 
   // Tenants
   getTenants(): Promise<Tenant[]>;
   getTenant(id: string): Promise<Tenant | undefined>;
+  getTenantByDomain(domain: string): Promise<Tenant | undefined>;
   createTenant(tenant: InsertTenant): Promise<Tenant>;
   updateTenant(id: string, data: Partial<Tenant>): Promise<Tenant | undefined>;
   deleteTenant(id: string): Promise<void>;
+  getIngressKeys(tenantId: string): Promise<IngressKey[]>;
+  getIngressKey(id: string): Promise<IngressKey | undefined>;
+  createIngressKey(key: Pick<IngressKey, "tenantId" | "secret" | "createdBy">): Promise<IngressKey>;
+  updateIngressKey(id: string, data: Partial<IngressKey>): Promise<IngressKey | undefined>;
 
   // Policies
   getPolicies(): Promise<Policy[]>;
@@ -58,24 +210,28 @@ export interface IStorage {
 
   // Requests
   getRequests(tenantId?: string): Promise<Request[]>;
+  queryRequests(query: RequestQuery): Promise<RequestPage>;
   getRequest(id: string): Promise<Request | undefined>;
   createRequest(request: InsertRequest): Promise<Request>;
-  getRequestWithAnalysis(id: string): Promise<Request & { analysis?: Analysis } | undefined>;
+  updateRequest(id: string, data: Partial<Request>): Promise<Request | undefined>;
+  getRequestWithAnalysis(id: string): Promise<Request & { analysis?: Analysis; overrides?: Override[] } | undefined>;
   anonymizeOldIPs(tenantId: string, anonymizeDays: number): Promise<number>;
 
   // Analysis
   createAnalysis(analysisData: InsertAnalysis): Promise<Analysis>;
+  updateAnalysisByRequest(requestId: string, data: Partial<Analysis>): Promise<Analysis | undefined>;
 
   // Overrides
   createOverride(override: InsertOverride): Promise<Override>;
   getOverridesByTenant(tenantId: string): Promise<Override[]>;
+  getActiveOverrides(tenantId: string): Promise<Override[]>;
 
   // Alerts
-  getAlerts(): Promise<Alert[]>;
+  getAlerts(tenantIds?: string[]): Promise<Alert[]>;
   getAlert(id: string): Promise<Alert | undefined>;
   createAlert(alert: InsertAlert): Promise<Alert>;
   updateAlert(id: string, data: Partial<Alert>): Promise<Alert | undefined>;
-  markAllAlertsRead(): Promise<void>;
+  markAllAlertsRead(tenantIds?: string[]): Promise<void>;
 
   // Webhooks
   getWebhooks(): Promise<Webhook[]>;
@@ -83,17 +239,57 @@ export interface IStorage {
   createWebhook(webhook: InsertWebhook): Promise<Webhook>;
   updateWebhook(id: string, data: Partial<Webhook>): Promise<Webhook | undefined>;
   deleteWebhook(id: string): Promise<void>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+  failPendingWebhookDeliveries(webhookId: string, error: string): Promise<number>;
+  deleteOldWebhookDeliveries(retentionDays: number): Promise<number>;
 
   // Export
-  getRequestsForExport(tenantId?: string, startDate?: Date, endDate?: Date): Promise<Request[]>;
+  getRequestsForExport(tenantId?: string, startDate?: Date, endDate?: Date, tenantIds?: string[]): Promise<Request[]>;
   deleteOldRequests(tenantId: string, retentionDays: number): Promise<number>;
 
   // IP Lists
   createIpList(ipList: InsertIpList): Promise<IpList>;
   getIpListsByTenant(tenantId: string): Promise<IpList[]>;
+  getIpLists(tenantId?: string): Promise<IpList[]>;
+  getIpList(id: string): Promise<IpList | undefined>;
+  getActiveIpLists(tenantId: string): Promise<IpList[]>;
+  deleteIpList(id: string): Promise<void>;
+
+  // Rule hits
+  recordRuleHits(hits: Array<{ ruleId: string; tenantId: string; count: number; lastHitAt: Date }>): Promise<void>;
+  getRuleHits(tenantIds?: string[]): Promise<RuleHit[]>;
+
+  // Saved searches
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  deleteSavedSearch(id: string): Promise<void>;
+
+  // Settings
+  getSettings(): Promise<Settings>;
+  updateSettings(data: Settings, changedBy?: string | null): Promise<SettingsVersion>;
+  getSettingsHistory(limit?: number): Promise<SettingsVersion[]>;
+  getSettingsVersion(version: number): Promise<SettingsVersion | undefined>;
+
+  // Audit log
+  getLatestAuditLog(): Promise<AuditLog | undefined>;
+  createAuditLog(entry: Omit<AuditLog, "id">): Promise<AuditLog>;
+  getAuditLogs(query: AuditLogQuery): Promise<AuditLogPage>;
+  getAuditLogsFrom(sequence: number, limit: number): Promise<AuditLog[]>;
 
   // Dashboard
-  getDashboardStats(): Promise<DashboardStats>;
+  getDashboardStats(tenantIds?: string[]): Promise<Omit<DashboardStats, keyof DashboardTraffic>>;
+
+  // Analytics aggregates
+  summarizeRequests(periodType: AggregatePeriodType, periodStart: Date, periodEnd: Date): Promise<InsertAnalyticsAggregate[]>;
+  saveAnalyticsAggregates(aggregates: InsertAnalyticsAggregate[]): Promise<void>;
+  getAnalyticsAggregates(query: AnalyticsAggregateQuery): Promise<AnalyticsAggregate[]>;
+  getLatestAnalyticsAggregate(periodType: AggregatePeriodType): Promise<AnalyticsAggregate | undefined>;
+  getEarliestRequestTime(): Promise<Date | undefined>;
+  deleteOldAnalyticsAggregates(periodType: AggregatePeriodType, before: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -108,6 +304,11 @@ export class DatabaseStorage implements IStorage {
     return user?.toJSON() as User | undefined;
   }
 
+  async getUserByOidcSubject(oidcSubject: string): Promise<User | undefined> {
+    const user = await UserModel.findOne({ where: { oidcSubject } });
+    return user?.toJSON() as User | undefined;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const { id, role, email, firstName, lastName, profileImageUrl, tenantIds } = userData;
     const [user] = await UserModel.upsert(
@@ -132,10 +333,152 @@ export class DatabaseStorage implements IStorage {
     if (data.role !== undefined) updateData.role = data.role;
     if (data.profileImageUrl !== undefined) updateData.profileImageUrl = data.profileImageUrl;
     if (data.tenantIds !== undefined) updateData.tenantIds = data.tenantIds;
+    if (data.passwordSetAt !== undefined) updateData.passwordSetAt = data.passwordSetAt;
+    if (data.failedLoginCount !== undefined) updateData.failedLoginCount = data.failedLoginCount;
+    if (data.lockedUntil !== undefined) updateData.lockedUntil = data.lockedUntil;
+    if (data.totpEnabledAt !== undefined) updateData.totpEnabledAt = data.totpEnabledAt;
+    if (data.deactivatedAt !== undefined) updateData.deactivatedAt = data.deactivatedAt;
+    if (data.lastLoginAt !== undefined) updateData.lastLoginAt = data.lastLoginAt;
+    if (data.lastLoginIp !== undefined) updateData.lastLoginIp = data.lastLoginIp;
+    if (data.oidcSubject !== undefined) updateData.oidcSubject = data.oidcSubject;
     await user.update(updateData);
     return user.toJSON() as User;
   }
 
+  // Invited users carry who invited them; accounts created on first single sign-on carry neither
+  async createUser(userData: InviteUser & { invitedBy: string | null; oidcSubject?: string }): Promise<User> {
+    const user = await UserModel.create({
+      email: userData.email,
+      firstName: userData.firstName || undefined,
+      lastName: userData.lastName || undefined,
+      role: userData.role,
+      tenantIds: userData.tenantIds,
+      invitedAt: userData.invitedBy ? new Date() : null,
+      invitedBy: userData.invitedBy,
+      oidcSubject: userData.oidcSubject ?? null,
+    });
+    return user.toJSON() as User;
+  }
+
+  // Work the user did (overrides, IP list entries, service tokens) moves to reassignTo; their own
+  // credentials, sessions, saved searches and personal tokens go with them
+  async deleteUser(id: string, reassignTo: string): Promise<void> {
+    await UserModel.sequelize!.transaction(async (transaction) => {
+      await OverrideModel.update({ operatorId: reassignTo }, { where: { operatorId: id }, transaction });
+      await IpListModel.update({ createdBy: reassignTo }, { where: { createdBy: id }, transaction });
+      await ApiTokenModel.update({ userId: reassignTo }, { where: { userId: id, kind: "service" }, transaction });
+      await ApiTokenModel.destroy({ where: { userId: id }, transaction });
+      await IngressKeyModel.update({ createdBy: null }, { where: { createdBy: id }, transaction });
+      await SettingsVersionModel.update({ changedBy: null }, { where: { changedBy: id }, transaction });
+      await SavedSearchModel.destroy({ where: { userId: id }, transaction });
+      await SessionModel.destroy({ where: { userId: id }, transaction });
+      await UserCredentialModel.destroy({ where: { userId: id }, transaction });
+      await UserModel.update({ invitedBy: null }, { where: { invitedBy: id }, transaction });
+      await UserModel.destroy({ where: { id }, transaction });
+    });
+  }
+
+  async getUserCredentials(userId: string): Promise<UserCredentials | undefined> {
+    const credentials = await UserCredentialModel.findByPk(userId);
+    return credentials?.toJSON() as UserCredentials | undefined;
+  }
+
+  async getUserCredentialsByResetToken(resetTokenHash: string): Promise<UserCredentials | undefined> {
+    const credentials = await UserCredentialModel.findOne({ where: { resetTokenHash } });
+    return credentials?.toJSON() as UserCredentials | undefined;
+  }
+
+  // Creates the credentials row on first use
+  async updateUserCredentials(userId: string, data: Partial<UserCredentials>): Promise<UserCredentials> {
+    const [credentials] = await UserCredentialModel.findOrCreate({ where: { userId } });
+    const updateData: any = {};
+    Object.keys(data).forEach(key => {
+      if (key !== 'userId' && data[key as keyof UserCredentials] !== undefined) {
+        updateData[key] = data[key as keyof UserCredentials];
+      }
+    });
+    await credentials.update(updateData);
+    return credentials.toJSON() as UserCredentials;
+  }
+
+  // Sessions
+  async getSession(sid: string): Promise<Session | undefined> {
+    const session = await SessionModel.findByPk(sid);
+    return session?.toJSON() as Session | undefined;
+  }
+
+  // Every save also counts as activity; createdAt is only set on insert
+  async createSession(sid: string, data: Omit<Session, "sid" | "createdAt" | "lastSeenAt">): Promise<void> {
+    await SessionModel.create({ sid, ...data });
+  }
+
+  async updateSession(sid: string, data: Omit<Session, "sid" | "createdAt" | "lastSeenAt">): Promise<boolean> {
+    const [updated] = await SessionModel.update({ ...data, lastSeenAt: new Date() }, { where: { sid } });
+    return updated > 0;
+  }
+
+  async touchSession(sid: string, expire: Date): Promise<void> {
+    await SessionModel.update({ expire, lastSeenAt: new Date() }, { where: { sid } });
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await SessionModel.destroy({ where: { sid } });
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    const sessions = await SessionModel.findAll({
+      where: { userId, expire: { [Op.gt]: new Date() } },
+      order: [['lastSeenAt', 'DESC']],
+    });
+    return sessions.map(s => s.toJSON() as Session);
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const where: WhereOptions = exceptSid ? { userId, sid: { [Op.ne]: exceptSid } } : { userId };
+    return SessionModel.destroy({ where });
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    return SessionModel.destroy({ where: { expire: { [Op.lte]: new Date() } } });
+  }
+
+  // API tokens
+  async getApiTokens(filter: { userId?: string; kind?: ApiToken["kind"] } = {}): Promise<ApiToken[]> {
+    const where: WhereOptions = {};
+    if (filter.userId) Object.assign(where, { userId: filter.userId });
+    if (filter.kind) Object.assign(where, { kind: filter.kind });
+    const tokens = await ApiTokenModel.findAll({ where, order: [['createdAt', 'DESC']] });
+    return tokens.map(t => t.toJSON() as ApiToken);
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const token = await ApiTokenModel.findByPk(id);
+    return token?.toJSON() as ApiToken | undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const token = await ApiTokenModel.findOne({ where: { tokenHash } });
+    return token?.toJSON() as ApiToken | undefined;
+  }
+
+  async createApiToken(token: Omit<ApiToken, "id" | "lastUsedAt" | "lastUsedIp" | "revokedAt" | "createdAt">): Promise<ApiToken> {
+    const created = await ApiTokenModel.create(token as any);
+    return created.toJSON() as ApiToken;
+  }
+
+  async updateApiToken(id: string, data: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const token = await ApiTokenModel.findByPk(id);
+    if (!token) return undefined;
+    const updateData: any = {};
+    Object.keys(data).forEach(key => {
+      if (key !== 'tokenHash' && data[key as keyof ApiToken] !== undefined) {
+        updateData[key] = data[key as keyof ApiToken];
+      }
+    });
+    await token.update(updateData);
+    return token.toJSON() as ApiToken;
+  }
+
   // Tenants
   async getTenants(): Promise<Tenant[]> {
     const tenants = await TenantModel.findAll({ order: [['createdAt', 'DESC']] });
@@ -147,6 +490,11 @@ export class DatabaseStorage implements IStorage {
     return tenant?.toJSON() as Tenant | undefined;
   }
 
+  async getTenantByDomain(domain: string): Promise<Tenant | undefined> {
+    const tenant = await TenantModel.findOne({ where: { domain } });
+    return tenant?.toJSON() as Tenant | undefined;
+  }
+
   async createTenant(tenant: InsertTenant): Promise<Tenant> {
     const created = await TenantModel.create(tenant as any);
     return created.toJSON() as Tenant;
@@ -166,9 +514,40 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTenant(id: string): Promise<void> {
+    await IngressKeyModel.destroy({ where: { tenantId: id } });
+    await AnalyticsAggregateModel.destroy({ where: { tenantId: id } });
+    await RuleHitModel.destroy({ where: { tenantId: id } });
     await TenantModel.destroy({ where: { id } });
   }
 
+  async getIngressKeys(tenantId: string): Promise<IngressKey[]> {
+    const keys = await IngressKeyModel.findAll({ where: { tenantId }, order: [['createdAt', 'DESC']] });
+    return keys.map(k => k.toJSON() as IngressKey);
+  }
+
+  async getIngressKey(id: string): Promise<IngressKey | undefined> {
+    const key = await IngressKeyModel.findByPk(id);
+    return key?.toJSON() as IngressKey | undefined;
+  }
+
+  async createIngressKey(key: Pick<IngressKey, "tenantId" | "secret" | "createdBy">): Promise<IngressKey> {
+    const created = await IngressKeyModel.create(key);
+    return created.toJSON() as IngressKey;
+  }
+
+  async updateIngressKey(id: string, data: Partial<IngressKey>): Promise<IngressKey | undefined> {
+    const key = await IngressKeyModel.findByPk(id);
+    if (!key) return undefined;
+    const updateData: any = {};
+    Object.keys(data).forEach(k => {
+      if (k !== 'secret' && data[k as keyof IngressKey] !== undefined) {
+        updateData[k] = data[k as keyof IngressKey];
+      }
+    });
+    await key.update(updateData);
+    return key.toJSON() as IngressKey;
+  }
+
   // Policies
   async getPolicies(): Promise<Policy[]> {
     const policies = await PolicyModel.findAll({ order: [['createdAt', 'DESC']] });
@@ -243,6 +622,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteRule(id: string): Promise<void> {
+    await RuleHitModel.destroy({ where: { ruleId: id } });
     await WafRuleModel.destroy({ where: { id } });
   }
 
@@ -256,27 +636,79 @@ export class DatabaseStorage implements IStorage {
     return requests.map(r => r.toJSON() as Request);
   }
 
-  async getRequestsWithAnalysis(tenantId?: string): Promise<(Request & { analysis?: Analysis })[]> {
-    const requests = await RequestModel.findAll({
-      where: tenantId ? { tenantId } : {},
-      order: [['timestamp', 'DESC']],
-      limit: 500,
-    });
+  async queryRequests(query: RequestQuery): Promise<RequestPage> {
+    const conditions: WhereOptions[] = [];
+
+    if (query.tenantId) conditions.push({ tenantId: query.tenantId });
+    if (query.tenantIds) conditions.push({ tenantId: { [Op.in]: query.tenantIds } });
+    if (query.from) conditions.push({ timestamp: { [Op.gte]: query.from } });
+    if (query.to) conditions.push({ timestamp: { [Op.lte]: query.to } });
+    if (query.actions?.length) conditions.push({ actionTaken: { [Op.in]: query.actions } });
+    if (query.method) conditions.push({ method: query.method.toUpperCase() });
+    if (query.country) conditions.push({ country: query.country });
+    if (query.ip) conditions.push(columnContains("Request.clientIp", query.ip));
+    if (query.path) conditions.push(columnContains("Request.path", query.path));
+    if (query.userAgent) conditions.push(columnContains("Request.userAgent", query.userAgent));
+    if (query.search) {
+      conditions.push({
+        [Op.or]: [columnContains("Request.path", query.search), columnContains("Request.clientIp", query.search)],
+      });
+    }
 
-    const analysisMap = new Map();
-    const requestIds = requests.map(r => r.id);
-    
-    if (requestIds.length > 0) {
-      const analyses = await AnalysisModel.findAll({
-        where: { requestId: requestIds },
+    if (query.statusCodes?.length) {
+      conditions.push({
+        [Op.or]: query.statusCodes.map(code => {
+          const statusClass = code.match(/^([1-5])xx$/i);
+          if (!statusClass) return { responseCode: Number(code) };
+          const base = Number(statusClass[1]) * 100;
+          return { responseCode: { [Op.between]: [base, base + 99] } };
+        }),
       });
-      analyses.forEach(a => analysisMap.set(a.requestId, a.toJSON() as Analysis));
     }
 
-    return requests.map(r => ({
-      ...r.toJSON() as Request,
-      analysis: analysisMap.get(r.id),
-    }));
+    const filterByScore = query.scoreMin !== undefined || query.scoreMax !== undefined;
+    if (query.scoreMin !== undefined) conditions.push({ '$analysis.totalScore$': { [Op.gte]: query.scoreMin } });
+    if (query.scoreMax !== undefined) conditions.push({ '$analysis.totalScore$': { [Op.lte]: query.scoreMax } });
+
+    if (query.ruleId) conditions.push(ruleHitCondition(query.ruleId));
+    if (query.q) conditions.push(compileTrafficQuery(query.q));
+
+    // Keyset pagination: continue strictly after the cursor row, using the id to break ties
+    const sortColumn = requestSortColumn(query.sort);
+    const after = query.order === "desc" ? Op.lt : Op.gt;
+    if (query.cursor) {
+      const value = query.sort === "timestamp" ? new Date(query.cursor.value) : query.cursor.value;
+      conditions.push({
+        [Op.or]: [
+          Sequelize.where(sortColumn, after, value),
+          { [Op.and]: [Sequelize.where(sortColumn, Op.eq, value), { id: { [after]: query.cursor.id } }] },
+        ],
+      });
+    }
+
+    const direction = query.order === "desc" ? "DESC" : "ASC";
+    const rows = await RequestModel.findAll({
+      where: { [Op.and]: conditions },
+      include: [{ model: AnalysisModel, as: "analysis", required: filterByScore }],
+      order: [[sortColumn, direction], ['id', direction]],
+      limit: query.limit + 1,
+    });
+
+    const items = rows.slice(0, query.limit).map(r => {
+      const { analysis, ...request } = r.toJSON() as RequestWithAnalysis & { analysis: Analysis | null };
+      return { ...request, analysis: analysis ?? undefined };
+    });
+
+    let nextCursor: string | null = null;
+    const last = items[items.length - 1];
+    if (rows.length > query.limit && last) {
+      const value = query.sort === "score" ? last.analysis?.totalScore ?? -1
+        : query.sort === "timestamp" ? new Date(last.timestamp!).toISOString()
+        : last[query.sort] ?? -1;
+      nextCursor = encodeRequestCursor({ sort: query.sort, value, id: last.id });
+    }
+
+    return { items, nextCursor };
   }
 
   async getRequest(id: string): Promise<Request | undefined> {
@@ -289,16 +721,42 @@ export class DatabaseStorage implements IStorage {
     return created.toJSON() as Request;
   }
 
-  async getRequestWithAnalysis(id: string): Promise<Request & { analysis?: Analysis } | undefined> {
+  async updateRequest(id: string, data: Partial<Request>): Promise<Request | undefined> {
+    const request = await RequestModel.findByPk(id);
+    if (!request) return undefined;
+    const updateData: any = {};
+    Object.keys(data).forEach(key => {
+      if (data[key as keyof Request] !== undefined) {
+        updateData[key] = data[key as keyof Request];
+      }
+    });
+    await request.update(updateData);
+    return request.toJSON() as Request;
+  }
+
+  async getRequestWithAnalysis(id: string): Promise<Request & { analysis?: Analysis; overrides?: Override[] } | undefined> {
     const request = await RequestModel.findByPk(id);
     if (!request) return undefined;
 
     const analysis = await AnalysisModel.findOne({ where: { requestId: id } });
     const requestJson = request.toJSON() as Request;
+
+    // Overrides that affected this request: ones applied during analysis plus direct request overrides
+    const appliedOverrideIds: string[] = (analysis?.breakdownJson?.overrides || []).map((o: { id: string }) => o.id);
+    const overrides = await OverrideModel.findAll({
+      where: {
+        [Op.or]: [
+          { overrideType: "request", targetId: id },
+          ...(appliedOverrideIds.length > 0 ? [{ id: { [Op.in]: appliedOverrideIds } }] : []),
+        ],
+      } as any,
+      order: [['createdAt', 'DESC']],
+    });
     
     return {
       ...requestJson,
       analysis: analysis ? (analysis.toJSON() as Analysis) : undefined,
+      overrides: overrides.map(o => o.toJSON() as Override),
     };
   }
 
@@ -308,6 +766,19 @@ export class DatabaseStorage implements IStorage {
     return created.toJSON() as Analysis;
   }
 
+  async updateAnalysisByRequest(requestId: string, data: Partial<Analysis>): Promise<Analysis | undefined> {
+    const analysis = await AnalysisModel.findOne({ where: { requestId } });
+    if (!analysis) return undefined;
+    const updateData: any = {};
+    Object.keys(data).forEach(key => {
+      if (data[key as keyof Analysis] !== undefined) {
+        updateData[key] = data[key as keyof Analysis];
+      }
+    });
+    await analysis.update(updateData);
+    return analysis.toJSON() as Analysis;
+  }
+
   // Overrides
   async createOverride(override: InsertOverride): Promise<Override> {
     const created = await OverrideModel.create(override as any);
@@ -322,9 +793,26 @@ export class DatabaseStorage implements IStorage {
     return overrides.map(o => o.toJSON() as Override);
   }
 
+  async getActiveOverrides(tenantId: string): Promise<Override[]> {
+    const overrides = await OverrideModel.findAll({
+      where: {
+        [Op.and]: [
+          { isActive: true },
+          { [Op.or]: [{ tenantId }, { tenantId: null }] },
+          { [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: new Date() } }] },
+        ],
+      } as any,
+      order: [['createdAt', 'DESC']],
+    });
+    return overrides.map(o => o.toJSON() as Override);
+  }
+
   // Alerts
-  async getAlerts(): Promise<Alert[]> {
-    const alerts = await AlertModel.findAll({ order: [['createdAt', 'DESC']] });
+  async getAlerts(tenantIds?: string[]): Promise<Alert[]> {
+    const alerts = await AlertModel.findAll({
+      where: tenantIds ? { tenantId: { [Op.in]: tenantIds } } : {},
+      order: [['createdAt', 'DESC']],
+    });
     return alerts.map(a => a.toJSON() as Alert);
   }
 
@@ -351,8 +839,8 @@ export class DatabaseStorage implements IStorage {
     return alert.toJSON() as Alert;
   }
 
-  async markAllAlertsRead(): Promise<void> {
-    await AlertModel.update({ isRead: true }, { where: {} });
+  async markAllAlertsRead(tenantIds?: string[]): Promise<void> {
+    await AlertModel.update({ isRead: true }, { where: tenantIds ? { tenantId: { [Op.in]: tenantIds } } : {} });
   }
 
   // Webhooks
@@ -385,13 +873,67 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteWebhook(id: string): Promise<void> {
+    await WebhookDeliveryModel.destroy({ where: { webhookId: id } });
     await WebhookModel.destroy({ where: { id } });
   }
 
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const created = await WebhookDeliveryModel.create(delivery as any);
+    return created.toJSON() as WebhookDelivery;
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = await WebhookDeliveryModel.findByPk(id);
+    if (!delivery) return undefined;
+    const updateData: any = {};
+    Object.keys(data).forEach(key => {
+      if (data[key as keyof WebhookDelivery] !== undefined) {
+        updateData[key] = data[key as keyof WebhookDelivery];
+      }
+    });
+    await delivery.update(updateData);
+    return delivery.toJSON() as WebhookDelivery;
+  }
+
+  // Pending deliveries whose next attempt is due, oldest first
+  async getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const deliveries = await WebhookDeliveryModel.findAll({
+      where: { status: "pending", nextAttemptAt: { [Op.lte]: new Date() } },
+      order: [['nextAttemptAt', 'ASC']],
+      limit,
+    });
+    return deliveries.map(d => d.toJSON() as WebhookDelivery);
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    const deliveries = await WebhookDeliveryModel.findAll({
+      where: { webhookId },
+      order: [['createdAt', 'DESC']],
+      limit,
+    });
+    return deliveries.map(d => d.toJSON() as WebhookDelivery);
+  }
+
+  async failPendingWebhookDeliveries(webhookId: string, error: string): Promise<number> {
+    const [count] = await WebhookDeliveryModel.update(
+      { status: "failed", error, nextAttemptAt: null } as any,
+      { where: { webhookId, status: "pending" } },
+    );
+    return count;
+  }
+
+  async deleteOldWebhookDeliveries(retentionDays: number): Promise<number> {
+    const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    return WebhookDeliveryModel.destroy({
+      where: { createdAt: { [Op.lt]: cutoffDate } },
+    });
+  }
+
   // Export data
-  async getRequestsForExport(tenantId?: string, startDate?: Date, endDate?: Date): Promise<Request[]> {
+  async getRequestsForExport(tenantId?: string, startDate?: Date, endDate?: Date, tenantIds?: string[]): Promise<Request[]> {
     const where: any = {};
     if (tenantId) where.tenantId = tenantId;
+    else if (tenantIds) where.tenantId = { [Op.in]: tenantIds };
     if (startDate) where.timestamp = { [Op.gte]: startDate };
     if (endDate) where.timestamp = { ...(where.timestamp || {}), [Op.lte]: endDate };
 
@@ -445,41 +987,81 @@ export class DatabaseStorage implements IStorage {
     return anonymizedCount;
   }
 
-  // Dashboard stats
-  async getDashboardStats(): Promise<DashboardStats> {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  // Rule hits
+  async recordRuleHits(hits: Array<{ ruleId: string; tenantId: string; count: number; lastHitAt: Date }>): Promise<void> {
+    await RuleHitModel.sequelize!.transaction(async (transaction) => {
+      for (const { ruleId, tenantId, count, lastHitAt } of hits) {
+        const [ruleHit] = await RuleHitModel.findOrCreate({
+          where: { ruleId, tenantId },
+          defaults: { ruleId, tenantId, hitCount: 0 },
+          transaction,
+        });
+        await ruleHit.increment("hitCount", { by: count, transaction });
+        // Batches from other tenants or retries may carry older hits; the last hit only moves forward
+        const isNewerHit = { [Op.or]: [{ lastHitAt: null }, { lastHitAt: { [Op.lt]: lastHitAt } }] };
+        await RuleHitModel.update({ lastHitAt }, { where: { id: ruleHit.id, ...isNewerHit }, transaction });
+
+        // Totals across tenants; built-in rules have no row here
+        await WafRuleModel.increment("hitCount", { by: count, where: { id: ruleId }, silent: true, transaction });
+        await WafRuleModel.update({ lastHitAt }, { where: { id: ruleId, ...isNewerHit }, silent: true, transaction });
+      }
+    });
+  }
 
-    const requestStats = await RequestModel.count({
-      where: { timestamp: { [Op.gte]: twentyFourHoursAgo } },
+  async getRuleHits(tenantIds?: string[]): Promise<RuleHit[]> {
+    const ruleHits = await RuleHitModel.findAll({
+      where: tenantIds ? { tenantId: { [Op.in]: tenantIds } } : {},
+      order: [['hitCount', 'DESC']],
     });
-    const blocked = await RequestModel.count({
-      where: { timestamp: { [Op.gte]: twentyFourHoursAgo }, actionTaken: 'deny' },
+    return ruleHits.map(h => h.toJSON() as RuleHit);
+  }
+
+  // Saved searches
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const searches = await SavedSearchModel.findAll({
+      where: { userId },
+      order: [['name', 'ASC']],
     });
-    const flagged = await RequestModel.count({
-      where: { timestamp: { [Op.gte]: twentyFourHoursAgo }, actionTaken: 'monitor' },
+    return searches.map(s => s.toJSON() as SavedSearch);
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const search = await SavedSearchModel.findByPk(id);
+    return search?.toJSON() as SavedSearch | undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const created = await SavedSearchModel.create(search as any);
+    return created.toJSON() as SavedSearch;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await SavedSearchModel.destroy({ where: { id } });
+  }
+
+  // Dashboard stats
+  // With tenantIds, every figure covers only those tenants (plus global rules). Request figures
+  // come from the analytics aggregates instead of counting the requests table.
+  async getDashboardStats(tenantIds?: string[]): Promise<Omit<DashboardStats, keyof DashboardTraffic>> {
+    const scope = tenantIds ? { tenantId: { [Op.in]: tenantIds } } : {};
+
+    const tenantCount = await TenantModel.count({
+      where: { isActive: true, ...(tenantIds ? { id: { [Op.in]: tenantIds } } : {}) },
     });
-    const allowed = await RequestModel.count({
-      where: { timestamp: { [Op.gte]: twentyFourHoursAgo }, actionTaken: 'allow' },
+    const ruleCount = await WafRuleModel.count({
+      where: {
+        enabled: true,
+        ...(tenantIds ? { [Op.or]: [{ tenantId: null }, { tenantId: { [Op.in]: tenantIds } }] } : {}),
+      },
     });
 
-    const tenantCount = await TenantModel.count({ where: { isActive: true } });
-    const ruleCount = await WafRuleModel.count({ where: { enabled: true } });
-
     const recentAlerts = await AlertModel.findAll({
-      where: { isDismissed: false },
+      where: { ...scope, isDismissed: false },
       order: [['createdAt', 'DESC']],
       limit: 5,
     });
 
-    const total = requestStats;
-    const blockPercentage = total > 0 ? (blocked / total) * 100 : 0;
-
     return {
-      totalRequests: total,
-      blockedRequests: blocked,
-      flaggedRequests: flagged,
-      allowedRequests: allowed,
-      blockPercentage,
       activeTenants: tenantCount,
       activeRules: ruleCount,
       recentAlerts: recentAlerts.map(a => a.toJSON() as Alert),
@@ -497,23 +1079,269 @@ export class DatabaseStorage implements IStorage {
     return lists.map(l => l.toJSON() as IpList);
   }
 
-  // Settings - stored as defaults for new tenants
-  async getSettings(): Promise<any> {
-    return {
-      defaultEnforcementMode: "monitor",
-      defaultBlockThreshold: 70,
-      defaultRetentionDays: 30,
-      anonymizeIpAfterDays: 7,
-      enableWebhooks: false,
-      alertThreshold: "high",
-      emailNotifications: true,
-      slackNotifications: false,
+  async getIpLists(tenantId?: string): Promise<IpList[]> {
+    const lists = await IpListModel.findAll({
+      where: tenantId ? { tenantId } : {},
+      order: [['createdAt', 'DESC']],
+    });
+    return lists.map(l => l.toJSON() as IpList);
+  }
+
+  async getIpList(id: string): Promise<IpList | undefined> {
+    const list = await IpListModel.findByPk(id);
+    return list?.toJSON() as IpList | undefined;
+  }
+
+  // Tenant-scoped and global entries that have not expired
+  async getActiveIpLists(tenantId: string): Promise<IpList[]> {
+    const lists = await IpListModel.findAll({
+      where: {
+        [Op.and]: [
+          { [Op.or]: [{ tenantId }, { tenantId: null }] },
+          { [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: new Date() } }] },
+        ],
+      } as any,
+    });
+    return lists.map(l => l.toJSON() as IpList);
+  }
+
+  async deleteIpList(id: string): Promise<void> {
+    await IpListModel.destroy({ where: { id } });
+  }
+
+  // Settings - the latest version is current; parsing fills in keys added since it was saved
+  // Settings are read on every authenticated request, so the current version is cached until the next save
+  private settingsCache?: Promise<Settings>;
+
+  async getSettings(): Promise<Settings> {
+    this.settingsCache ??= SettingsVersionModel.findOne({ order: [['version', 'DESC']] }).then(latest => {
+      const parsed = settingsSchema.safeParse(latest?.settingsJson ?? {});
+      return parsed.success ? parsed.data : settingsSchema.parse({});
+    });
+    const cached = this.settingsCache;
+    return cached.catch(error => {
+      if (this.settingsCache === cached) this.settingsCache = undefined;
+      throw error;
+    });
+  }
+
+  async updateSettings(data: Settings, changedBy?: string | null): Promise<SettingsVersion> {
+    const created = await SettingsVersionModel.sequelize!.transaction(async (transaction) => {
+      const current = await SettingsVersionModel.max('version', { transaction }) as number | null;
+      return SettingsVersionModel.create({
+        version: (current ?? 0) + 1,
+        settingsJson: data,
+        changedBy: changedBy ?? null,
+      }, { transaction });
+    });
+    this.settingsCache = undefined;
+    return created.toJSON() as SettingsVersion;
+  }
+
+  async getSettingsHistory(limit = 50): Promise<SettingsVersion[]> {
+    const versions = await SettingsVersionModel.findAll({ order: [['version', 'DESC']], limit });
+    return versions.map(v => v.toJSON() as SettingsVersion);
+  }
+
+  async getSettingsVersion(version: number): Promise<SettingsVersion | undefined> {
+    const found = await SettingsVersionModel.findOne({ where: { version } });
+    return found?.toJSON() as SettingsVersion | undefined;
+  }
+
+  async getLatestAuditLog(): Promise<AuditLog | undefined> {
+    const entry = await AuditLogModel.findOne({ order: [['sequence', 'DESC']] });
+    return entry?.toJSON() as AuditLog | undefined;
+  }
+
+  async createAuditLog(entry: Omit<AuditLog, "id">): Promise<AuditLog> {
+    const created = await AuditLogModel.create(entry);
+    return created.toJSON() as AuditLog;
+  }
+
+  async getAuditLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+    const conditions: WhereOptions[] = [];
+    if (query.action) conditions.push({ action: query.action });
+    if (query.targetType) conditions.push({ targetType: query.targetType });
+    if (query.actorId) conditions.push({ actorId: query.actorId });
+    if (query.from) conditions.push({ createdAt: { [Op.gte]: query.from } });
+    if (query.to) conditions.push({ createdAt: { [Op.lte]: query.to } });
+    if (query.search) {
+      conditions.push({
+        [Op.or]: [
+          columnContains("actorEmail", query.search),
+          columnContains("action", query.search),
+          columnContains("targetId", query.search),
+        ],
+      });
+    }
+    const { rows, count } = await AuditLogModel.findAndCountAll({
+      where: { [Op.and]: conditions },
+      order: [['sequence', 'DESC']],
+      limit: query.limit,
+      offset: query.offset,
+    });
+    return { entries: rows.map(r => r.toJSON() as AuditLog), total: count };
+  }
+
+  async getAuditLogsFrom(sequence: number, limit: number): Promise<AuditLog[]> {
+    const entries = await AuditLogModel.findAll({
+      where: { sequence: { [Op.gte]: sequence } },
+      order: [['sequence', 'ASC']],
+      limit,
+    });
+    return entries.map(e => e.toJSON() as AuditLog);
+  }
+
+  // Analytics aggregates
+  // One aggregate per tenant that received traffic in [periodStart, periodEnd)
+  async summarizeRequests(periodType: AggregatePeriodType, periodStart: Date, periodEnd: Date): Promise<InsertAnalyticsAggregate[]> {
+    const where = { timestamp: { [Op.gte]: periodStart, [Op.lt]: periodEnd } };
+    const countBy = async (column: string) => await RequestModel.findAll({
+      attributes: ["tenantId", [Sequelize.col(column), "key"], [Sequelize.fn("COUNT", Sequelize.col("id")), "count"]],
+      where,
+      group: ["tenantId", column],
+      raw: true,
+    }) as unknown as Array<{ tenantId: string; key: string | number | null; count: number }>;
+
+    const [actions, statusCodes, methods, paths, ips] = [
+      await countBy("actionTaken"),
+      await countBy("responseCode"),
+      await countBy("method"),
+      await countBy("path"),
+      await countBy("clientIp"),
+    ];
+    const scores = await RequestModel.findAll({
+      attributes: ["tenantId", [Sequelize.fn("AVG", Sequelize.col("analysis.totalScore")), "avgScore"]],
+      include: [{ model: AnalysisModel, as: "analysis", attributes: [] }],
+      where,
+      group: ["Request.tenantId"],
+      raw: true,
+    }) as unknown as Array<{ tenantId: string; avgScore: number | null }>;
+    const withHits = await RequestModel.findAll({
+      attributes: ["tenantId", "wafHitsJson"],
+      where: {
+        [Op.and]: [where, Sequelize.where(Sequelize.fn("json_array_length", Sequelize.col("wafHitsJson")), Op.gt, 0)],
+      },
+    });
+
+    const aggregates = new Map<string, InsertAnalyticsAggregate & { ips: Map<string, AggregateTopEntry>; paths: Map<string, AggregateTopEntry>; rules: Map<string, AggregateTopEntry> }>();
+    const aggregateFor = (tenantId: string) => {
+      let aggregate = aggregates.get(tenantId);
+      if (!aggregate) {
+        aggregate = {
+          tenantId, periodType, periodStart, periodEnd,
+          totalRequests: 0, blockedRequests: 0, monitoredRequests: 0, allowedRequests: 0, challengedRequests: 0,
+          uniqueIps: 0, avgScore: 0,
+          topRulesJson: [], topIpsJson: [], topPathsJson: [], statusCodesJson: {}, methodsJson: {},
+          ips: new Map(), paths: new Map(), rules: new Map(),
+        };
+        aggregates.set(tenantId, aggregate);
+      }
+      return aggregate;
     };
+
+    for (const { tenantId, key, count } of actions) {
+      const aggregate = aggregateFor(tenantId);
+      aggregate.totalRequests! += count;
+      if (key === "deny") aggregate.blockedRequests = count;
+      else if (key === "monitor") aggregate.monitoredRequests = count;
+      else if (key === "challenge") aggregate.challengedRequests = count;
+      else aggregate.allowedRequests! += count;
+    }
+    for (const { tenantId, key, count } of statusCodes) {
+      if (key !== null) aggregateFor(tenantId).statusCodesJson![String(key)] = count;
+    }
+    for (const { tenantId, key, count } of methods) {
+      if (key !== null) aggregateFor(tenantId).methodsJson![String(key)] = count;
+    }
+    for (const { tenantId, key, count } of paths) {
+      if (key !== null) aggregateFor(tenantId).paths.set(String(key), { key: String(key), count });
+    }
+    for (const { tenantId, key, count } of ips) {
+      if (key === null) continue;
+      const aggregate = aggregateFor(tenantId);
+      aggregate.ips.set(String(key), { key: String(key), count });
+      aggregate.uniqueIps! += 1;
+    }
+    for (const { tenantId, avgScore } of scores) {
+      aggregateFor(tenantId).avgScore = avgScore ?? 0;
+    }
+    for (const request of withHits) {
+      const { rules } = aggregateFor(request.tenantId);
+      for (const hit of request.wafHitsJson as Array<{ ruleId: string; ruleName?: string }>) {
+        const entry = rules.get(hit.ruleId) ?? { key: hit.ruleId, label: hit.ruleName, count: 0 };
+        entry.count += 1;
+        rules.set(hit.ruleId, entry);
+      }
+    }
+
+    return Array.from(aggregates.values(), ({ ips, paths, rules, ...aggregate }) => ({
+      ...aggregate,
+      topIpsJson: topEntries(ips),
+      topPathsJson: topEntries(paths),
+      topRulesJson: topEntries(rules),
+    }));
+  }
+
+  // Replaces any aggregate already stored for the same tenant and period
+  async saveAnalyticsAggregates(aggregates: InsertAnalyticsAggregate[]): Promise<void> {
+    await AnalyticsAggregateModel.sequelize!.transaction(async (transaction) => {
+      for (const aggregate of aggregates) {
+        const existing = await AnalyticsAggregateModel.findOne({
+          where: { tenantId: aggregate.tenantId, periodType: aggregate.periodType, periodStart: aggregate.periodStart },
+          transaction,
+        });
+        const values: AnalyticsAggregateCreationAttributes = {
+          ...aggregate,
+          totalRequests: aggregate.totalRequests ?? 0,
+          blockedRequests: aggregate.blockedRequests ?? 0,
+          monitoredRequests: aggregate.monitoredRequests ?? 0,
+          allowedRequests: aggregate.allowedRequests ?? 0,
+          challengedRequests: aggregate.challengedRequests ?? 0,
+          uniqueIps: aggregate.uniqueIps ?? 0,
+          avgScore: aggregate.avgScore ?? 0,
+        };
+        if (existing) {
+          await existing.update(values, { transaction });
+        } else {
+          await AnalyticsAggregateModel.create(values, { transaction });
+        }
+      }
+    });
   }
 
-  async updateSettings(data: any): Promise<any> {
-    // Settings are currently stored as defaults - can be enhanced to persist to database
-    return data;
+  async getAnalyticsAggregates(query: AnalyticsAggregateQuery): Promise<AnalyticsAggregate[]> {
+    const conditions: WhereOptions[] = [
+      { periodType: query.periodType },
+      { periodStart: { [Op.gte]: query.from, [Op.lt]: query.to } },
+    ];
+    if (query.tenantId) conditions.push({ tenantId: query.tenantId });
+    if (query.tenantIds) conditions.push({ tenantId: { [Op.in]: query.tenantIds } });
+
+    const aggregates = await AnalyticsAggregateModel.findAll({
+      where: { [Op.and]: conditions },
+      order: [['periodStart', 'ASC']],
+    });
+    return aggregates.map(a => a.toJSON() as AnalyticsAggregate);
+  }
+
+  async getLatestAnalyticsAggregate(periodType: AggregatePeriodType): Promise<AnalyticsAggregate | undefined> {
+    const aggregate = await AnalyticsAggregateModel.findOne({
+      where: { periodType },
+      order: [['periodStart', 'DESC']],
+    });
+    return aggregate?.toJSON() as AnalyticsAggregate | undefined;
+  }
+
+  async getEarliestRequestTime(): Promise<Date | undefined> {
+    const earliest = await RequestModel.min("timestamp");
+    return earliest ? new Date(earliest as string | Date) : undefined;
+  }
+
+  async deleteOldAnalyticsAggregates(periodType: AggregatePeriodType, before: Date): Promise<number> {
+    return AnalyticsAggregateModel.destroy({
+      where: { periodType, periodStart: { [Op.lt]: before } },
+    });
   }
 }
 
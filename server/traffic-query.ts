@@ -0,0 +1,357 @@
+import { Op, Sequelize, type WhereOptions } from "sequelize";
+import { sequelize } from "./db";
+import { parseCidr } from "./waf/ip-lists";
+
+// Query language for searching captured traffic, compiled to Sequelize where-clauses, e.g.
+//   action:deny AND path:/admin* AND score>=80 AND NOT ip:10.0.0.0/8
+// Terms are field:value or field<op>value (>=, <=, >, <). Adjacent terms are ANDed; AND, OR,
+// NOT and parentheses combine them. A bare word matches the path or client IP.
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+type Operator = ":" | ">=" | "<=" | ">" | "<";
+
+type Token =
+  | { type: "(" | ")" | "and" | "or" | "not"; position: number }
+  | { type: "term"; field: string; operator: Operator; value: string; position: number }
+  | { type: "word"; value: string; position: number };
+
+type QueryNode =
+  | { type: "and" | "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "term"; field: string; operator: Operator; value: string; position: number }
+  | { type: "word"; value: string; position: number };
+
+type FieldKind = "text" | "number" | "time" | "ip" | "action" | "status" | "rule";
+
+interface QueryField {
+  kind: FieldKind;
+  column: string;
+}
+
+const QUERY_FIELDS: Record<string, QueryField> = {
+  action: { kind: "action", column: "Request.actionTaken" },
+  method: { kind: "text", column: "Request.method" },
+  path: { kind: "text", column: "Request.path" },
+  query: { kind: "text", column: "Request.queryString" },
+  ip: { kind: "ip", column: "Request.clientIp" },
+  country: { kind: "text", column: "Request.country" },
+  ua: { kind: "text", column: "Request.userAgent" },
+  referer: { kind: "text", column: "Request.referer" },
+  tenant: { kind: "text", column: "Request.tenantId" },
+  status: { kind: "status", column: "Request.responseCode" },
+  score: { kind: "number", column: "analysis.totalScore" },
+  duration: { kind: "number", column: "Request.responseTime" },
+  time: { kind: "time", column: "Request.timestamp" },
+  rule: { kind: "rule", column: "Request.wafHitsJson" },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  useragent: "ua",
+  "user-agent": "ua",
+  code: "status",
+  rt: "duration",
+  timestamp: "time",
+};
+
+const ACTIONS = ["allow", "monitor", "challenge", "deny"];
+const KEYWORDS: Record<string, "and" | "or" | "not"> = { and: "and", or: "or", not: "not" };
+const MAX_DEPTH = 32;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = "";
+  let i = start + 1;
+  while (i < input.length && input[i] !== '"') {
+    if (input[i] === "\\" && i + 1 < input.length) i++;
+    value += input[i++];
+  }
+  if (i >= input.length) {
+    throw new QuerySyntaxError("Unterminated quoted string", start);
+  }
+  return { value, end: i + 1 };
+}
+
+function readBare(input: string, start: number): { value: string; end: number } {
+  let i = start;
+  while (i < input.length && !/[\s()]/.test(input[i])) i++;
+  return { value: input.slice(start, i), end: i };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char, position: i });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: "word", value, position: i });
+      i = end;
+      continue;
+    }
+
+    const term = input.slice(i).match(/^([A-Za-z][\w-]*)(>=|<=|>|<|:)/);
+    if (term) {
+      const [matched, field, operator] = term;
+      const valueStart = i + matched.length;
+      const { value, end } = input[valueStart] === '"'
+        ? readQuoted(input, valueStart)
+        : readBare(input, valueStart);
+      if (value === "") {
+        throw new QuerySyntaxError(`Missing value for "${field}"`, valueStart);
+      }
+      tokens.push({ type: "term", field: field.toLowerCase(), operator: operator as Operator, value, position: i });
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readBare(input, i);
+    const keyword = KEYWORDS[value.toLowerCase()];
+    tokens.push(keyword ? { type: keyword, position: i } : { type: "word", value, position: i });
+    i = end;
+  }
+
+  return tokens;
+}
+
+// Recursive descent: or := and (OR and)*, and := unary (AND? unary)*, unary := NOT unary | primary
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private inputLength: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(extra.type === ")" ? "Unmatched closing parenthesis" : "Unexpected input", extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(depth: number): QueryNode {
+    const children = [this.parseAnd(depth)];
+    while (this.peek()?.type === "or") {
+      this.index++;
+      children.push(this.parseAnd(depth));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(depth: number): QueryNode {
+    const children = [this.parseUnary(depth)];
+    for (let next = this.peek(); next && next.type !== "or" && next.type !== ")"; next = this.peek()) {
+      if (next.type === "and") this.index++;
+      children.push(this.parseUnary(depth));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(depth: number): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError("Unexpected end of query", this.inputLength);
+    }
+    if (depth > MAX_DEPTH) {
+      throw new QuerySyntaxError("Query is nested too deeply", token.position);
+    }
+
+    this.index++;
+    switch (token.type) {
+      case "not":
+        return { type: "not", child: this.parseUnary(depth + 1) };
+      case "(": {
+        const node = this.parseOr(depth + 1);
+        if (this.peek()?.type !== ")") {
+          throw new QuerySyntaxError("Missing closing parenthesis", this.peek()?.position ?? this.inputLength);
+        }
+        this.index++;
+        return node;
+      }
+      case "term":
+      case "word":
+        return token;
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.type === ")" ? ")" : token.type.toUpperCase()}"`, token.position);
+    }
+  }
+}
+
+// Substring match that treats the value literally
+export function columnContains(column: string, value: string) {
+  return Sequelize.where(Sequelize.fn("instr", Sequelize.col(column), value), Op.gt, 0);
+}
+
+// WAF hits are stored as a JSON array of matches on the request
+export function ruleHitCondition(ruleId: string) {
+  return Sequelize.literal(
+    `EXISTS (SELECT 1 FROM json_each(\`Request\`.\`wafHitsJson\`) WHERE json_extract(json_each.value, '$.ruleId') = ${sequelize.escape(ruleId)})`
+  );
+}
+
+function textExpression(column: string) {
+  return Sequelize.fn("lower", Sequelize.fn("COALESCE", Sequelize.col(column), ""));
+}
+
+// Values containing * or ? are wildcard patterns, anything else must match exactly (case-insensitive)
+function textCondition(column: string, value: string) {
+  const needle = value.toLowerCase();
+  if (/[*?]/.test(needle)) {
+    const pattern = needle.replace(/\[/g, "[[]");
+    return Sequelize.where(Sequelize.fn("glob", pattern, textExpression(column)), 1);
+  }
+  return Sequelize.where(textExpression(column), needle);
+}
+
+// SQLite has no inet type, so IPv4 ranges are expanded into octet-prefix globs (at most 128)
+function ipCondition(column: string, value: string, position: number) {
+  if (!value.includes("/")) {
+    return textCondition(column, value);
+  }
+
+  const cidr = parseCidr(value);
+  if (!cidr) {
+    throw new QuerySyntaxError(`Invalid IP range "${value}"`, position);
+  }
+  if (cidr.version !== 4) {
+    throw new QuerySyntaxError("IPv6 ranges are not supported; use a wildcard such as ip:2001:db8:*", position);
+  }
+
+  const octets = [24, 16, 8, 0].map(shift => Number((cidr.network >> BigInt(shift)) & BigInt(255)));
+  const fullOctets = Math.floor(cidr.prefix / 8);
+  const freeBits = (8 - (cidr.prefix % 8)) % 8;
+  const prefixes = freeBits === 0
+    ? [octets.slice(0, fullOctets)]
+    : Array.from({ length: 1 << freeBits }, (_, i) => [...octets.slice(0, fullOctets), octets[fullOctets] + i]);
+
+  // IPv4-mapped IPv6 clients (::ffff:10.0.0.1) fall in the same range
+  const address = Sequelize.fn("COALESCE", Sequelize.col(column), "");
+  return {
+    [Op.or]: prefixes.flatMap(parts => {
+      if (parts.length === 4) {
+        const ip = parts.join(".");
+        return [Sequelize.where(address, ip), Sequelize.where(address, `::ffff:${ip}`)];
+      }
+      const pattern = parts.length === 0 ? "*.*.*.*" : `${parts.join(".")}.*`;
+      return [pattern, `::ffff:${pattern}`].map(glob => Sequelize.where(Sequelize.fn("glob", glob, address), 1));
+    }),
+  };
+}
+
+const COMPARISON_OPS = { ">=": Op.gte, "<=": Op.lte, ">": Op.gt, "<": Op.lt } as const;
+
+function parseNumber(field: string, value: string, position: number): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new QuerySyntaxError(`"${field}" expects a number, got "${value}"`, position);
+  }
+  return number;
+}
+
+const RELATIVE_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// Absolute dates (2024-05-01, 2024-05-01T12:00:00Z) or times relative to now (now, now-15m, now-7d)
+function parseTime(value: string, position: number): Date {
+  const relative = value.toLowerCase().match(/^now(?:-(\d+)([smhdw]))?$/);
+  if (relative) {
+    const offset = relative[1] ? Number(relative[1]) * RELATIVE_UNITS[relative[2]] : 0;
+    return new Date(Date.now() - offset);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new QuerySyntaxError(`Invalid time "${value}"; use a date such as 2024-05-01 or now-24h`, position);
+  }
+  return date;
+}
+
+function compileTerm(node: Extract<QueryNode, { type: "term" }>): WhereOptions {
+  const { operator, value, position } = node;
+  const name = FIELD_ALIASES[node.field] ?? node.field;
+  const field = QUERY_FIELDS[name];
+  if (!field) {
+    throw new QuerySyntaxError(`Unknown field "${node.field}"`, position);
+  }
+
+  const comparable = field.kind === "number" || field.kind === "time" || field.kind === "status";
+  if (operator !== ":" && !comparable) {
+    throw new QuerySyntaxError(`"${name}" does not support "${operator}"`, position);
+  }
+
+  switch (field.kind) {
+    case "action": {
+      const action = value.toLowerCase() === "block" ? "deny" : value.toLowerCase();
+      if (!ACTIONS.includes(action)) {
+        throw new QuerySyntaxError(`Unknown action "${value}"; expected one of ${ACTIONS.join(", ")}`, position);
+      }
+      return Sequelize.where(Sequelize.col(field.column), action);
+    }
+    case "ip":
+      return ipCondition(field.column, value, position);
+    case "rule":
+      return ruleHitCondition(value);
+    case "time": {
+      if (operator === ":") {
+        throw new QuerySyntaxError(`Use a comparison with "time", e.g. time>=now-1h`, position);
+      }
+      return Sequelize.where(Sequelize.col(field.column), COMPARISON_OPS[operator], parseTime(value, position));
+    }
+    case "status":
+    case "number": {
+      const column = Sequelize.fn("COALESCE", Sequelize.col(field.column), 0);
+      const statusClass = field.kind === "status" && operator === ":" && value.match(/^([1-5])xx$/i);
+      if (statusClass) {
+        const base = Number(statusClass[1]) * 100;
+        return Sequelize.where(column, Op.between, [base, base + 99]);
+      }
+      const number = parseNumber(name, value, position);
+      return Sequelize.where(column, operator === ":" ? Op.eq : COMPARISON_OPS[operator], number);
+    }
+    default:
+      return textCondition(field.column, value);
+  }
+}
+
+function compileNode(node: QueryNode): WhereOptions {
+  switch (node.type) {
+    case "and":
+      return { [Op.and]: node.children.map(compileNode) };
+    case "or":
+      return { [Op.or]: node.children.map(compileNode) };
+    case "not":
+      return { [Op.not]: { [Op.and]: [compileNode(node.child)] } };
+    case "word":
+      return {
+        [Op.or]: [
+          columnContains("Request.path", node.value),
+          columnContains("Request.clientIp", node.value),
+        ],
+      };
+    case "term":
+      return compileTerm(node);
+  }
+}
+
+// Throws QuerySyntaxError with the character position of the problem
+export function compileTrafficQuery(query: string): WhereOptions {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return {};
+  return compileNode(new QueryParser(tokens, query.length).parse());
+}
@@ -0,0 +1,355 @@
+import { defaultScoreWeights, scoreWeightsSchema, type AnomalyComponent, type IpList, type Policy, type ScoreWeights } from "@shared/schema";
+import { storage } from "../storage";
+import type { RequestData } from "./engine";
+import { cidrContains, getListDecision, parseCidr } from "./ip-lists";
+
+// Anomaly detectors that score a request 0-100 on signals the rules do not look at: IP
+// reputation from local lists and recent blocks, request rate against the client's own
+// baseline, and unusual headers, paths and bodies. The policy's score weights decide how much
+// each one adds to the total score.
+
+export interface AnomalyFinding {
+  component: AnomalyComponent;
+  score: number;
+  detail: string;
+}
+
+export interface AnomalyResult {
+  scores: Record<AnomalyComponent, number>;
+  findings: AnomalyFinding[];
+}
+
+// Collects findings for one detector; its score is their sum, capped at 100
+class Findings {
+  readonly items: AnomalyFinding[] = [];
+  constructor(readonly component: AnomalyComponent) {}
+
+  add(score: number, detail: string) {
+    this.items.push({ component: this.component, score, detail });
+  }
+
+  get score(): number {
+    return Math.min(100, this.items.reduce((total, f) => total + f.score, 0));
+  }
+}
+
+export function resolveScoreWeights(policy?: Policy): ScoreWeights {
+  const parsed = scoreWeightsSchema.safeParse(policy?.scoreWeights ?? {});
+  return parsed.success ? parsed.data : defaultScoreWeights;
+}
+
+// The anomaly part of the total score, before it is added to the weighted rule score
+export function weightedAnomalyScore({ scores }: AnomalyResult, weights: ScoreWeights): number {
+  return (Object.keys(scores) as AnomalyComponent[])
+    .reduce((total, component) => total + scores[component] * weights[component], 0);
+}
+
+// Headers
+
+const SCANNER_AGENTS = /sqlmap|nikto|nmap|masscan|zgrab|nuclei|dirbuster|gobuster|wpscan|acunetix|nessus|openvas|w3af|havij|fuzz/i;
+const TOOL_AGENTS = /^(curl|wget|python-requests|python-urllib|go-http-client|java\/|okhttp|libwww-perl|apache-httpclient|axios|node-fetch)/i;
+const MAX_HEADER_COUNT = 40;
+const MAX_HEADER_VALUE_LENGTH = 4096;
+
+function lowerCaseHeaders(headers: Record<string, any> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), String(value ?? "")]));
+}
+
+function hasBody(body: unknown): boolean {
+  if (body === undefined || body === null || body === "") return false;
+  return typeof body !== "object" || Object.keys(body).length > 0;
+}
+
+export function detectHeaderAnomalies(request: RequestData): Findings {
+  const findings = new Findings("header");
+  const headers = lowerCaseHeaders(request.headers);
+  const userAgent = headers["user-agent"]?.trim();
+
+  if (!userAgent) {
+    findings.add(35, "No User-Agent header");
+  } else if (SCANNER_AGENTS.test(userAgent)) {
+    findings.add(60, `User-Agent of a known scanner (${userAgent.substring(0, 40)})`);
+  } else if (TOOL_AGENTS.test(userAgent)) {
+    findings.add(20, `User-Agent of a scripting tool (${userAgent.substring(0, 40)})`);
+  } else if (userAgent.length < 10) {
+    findings.add(15, "Unusually short User-Agent");
+  }
+  // Browsers always send these; clients that only claim to be one often do not
+  if (!headers["accept"]) {
+    findings.add(15, "No Accept header");
+  } else if (userAgent?.startsWith("Mozilla/") && !headers["accept-language"]) {
+    findings.add(15, "Browser User-Agent without Accept-Language");
+  }
+  if (Object.keys(headers).length > MAX_HEADER_COUNT) {
+    findings.add(20, `${Object.keys(headers).length} headers`);
+  }
+  const longHeader = Object.entries(headers).find(([, value]) => value.length > MAX_HEADER_VALUE_LENGTH);
+  if (longHeader) {
+    findings.add(25, `${longHeader[0]} header is ${longHeader[1].length} characters`);
+  }
+  if (headers["content-length"] && headers["transfer-encoding"]) {
+    findings.add(30, "Both Content-Length and Transfer-Encoding (request smuggling pattern)");
+  }
+  if (hasBody(request.body) && !headers["content-type"]) {
+    findings.add(15, "Body without a Content-Type");
+  }
+  return findings;
+}
+
+// Paths
+
+const MAX_PATH_DEPTH = 8;
+const HIGH_ENTROPY_BITS = 4.2;
+const MIN_ENTROPY_SEGMENT_LENGTH = 20;
+
+// Shannon entropy in bits per character; random tokens score high, words and ids low
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+export function detectPathAnomalies(request: RequestData): Findings {
+  const findings = new Findings("path");
+  const path = (request.path || "/").split("?")[0];
+  const segments = path.split("/").filter(Boolean);
+
+  if (segments.length > MAX_PATH_DEPTH) {
+    findings.add(Math.min(40, (segments.length - MAX_PATH_DEPTH) * 8), `Path is ${segments.length} segments deep`);
+  }
+  if (path.length > 1024) {
+    findings.add(40, `Path is ${path.length} characters`);
+  } else if (path.length > 256) {
+    findings.add(20, `Path is ${path.length} characters`);
+  }
+  const encoded = path.match(/%[0-9a-f]{2}/gi)?.length ?? 0;
+  if (encoded * 3 > path.length * 0.3) {
+    findings.add(25, "Mostly percent-encoded path");
+  }
+  if (/%25[0-9a-f]{2}/i.test(path)) {
+    findings.add(30, "Double-encoded characters in path");
+  }
+  if (/%00|%0a|%0d|[\x00-\x1f]/i.test(path)) {
+    findings.add(40, "Null byte or control character in path");
+  }
+  const randomSegment = segments.find(s => s.length >= MIN_ENTROPY_SEGMENT_LENGTH && shannonEntropy(s) >= HIGH_ENTROPY_BITS);
+  if (randomSegment) {
+    findings.add(25, `High-entropy path segment (${randomSegment.substring(0, 24)}...)`);
+  }
+  return findings;
+}
+
+// Bodies
+
+const LARGE_BODY_BYTES = 100 * 1024;
+const OVERSIZED_BODY_BYTES = 1024 * 1024;
+const MAX_JSON_DEPTH = 20;
+const BINARY_CONTENT_TYPES = /^(application\/octet-stream|image\/|audio\/|video\/|multipart\/|application\/(zip|gzip|pdf))/i;
+
+// Stops counting once past the limit, so huge documents are not walked in full
+function jsonDepth(value: unknown, depth = 0): number {
+  if (depth > MAX_JSON_DEPTH || !value || typeof value !== "object") return depth;
+  let deepest = depth + 1;
+  for (const child of Object.values(value)) {
+    deepest = Math.max(deepest, jsonDepth(child, depth + 1));
+    if (deepest > MAX_JSON_DEPTH) break;
+  }
+  return deepest;
+}
+
+export function detectBodyAnomalies(request: RequestData): Findings {
+  const findings = new Findings("body");
+  if (!hasBody(request.body)) return findings;
+
+  const headers = lowerCaseHeaders(request.headers);
+  const contentType = headers["content-type"] ?? "";
+  const text = typeof request.body === "string" ? request.body : JSON.stringify(request.body);
+  const declaredLength = parseInt(headers["content-length"], 10);
+  const size = Number.isNaN(declaredLength) ? Buffer.byteLength(text) : declaredLength;
+
+  if (size > OVERSIZED_BODY_BYTES) {
+    findings.add(50, `Body is ${Math.round(size / 1024)} KB`);
+  } else if (size > LARGE_BODY_BYTES) {
+    findings.add(20, `Body is ${Math.round(size / 1024)} KB`);
+  }
+  if (["GET", "HEAD"].includes(request.method?.toUpperCase())) {
+    findings.add(20, `Body on a ${request.method.toUpperCase()} request`);
+  }
+  if (!BINARY_CONTENT_TYPES.test(contentType)) {
+    const control = text.match(/[\x00-\x08\x0e-\x1f]/g)?.length ?? 0;
+    if (text.includes("\x00") || control > text.length * 0.05) {
+      findings.add(40, "Binary content in a text body");
+    }
+  }
+
+  let parsed: unknown = typeof request.body === "object" ? request.body : undefined;
+  if (parsed === undefined && /json/i.test(contentType)) {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      findings.add(25, "Body is not valid JSON despite its Content-Type");
+    }
+  }
+  if (parsed !== undefined && jsonDepth(parsed) > MAX_JSON_DEPTH) {
+    findings.add(30, `JSON nested more than ${MAX_JSON_DEPTH} levels deep`);
+  }
+  return findings;
+}
+
+// Request rate against each client's own baseline: an exponentially weighted average of its
+// requests per minute. New clients are compared with a floor instead, so a burst from an
+// unseen IP still stands out.
+
+const BASELINE_ALPHA = 0.1;
+const MIN_BASELINE_SAMPLES = 3;
+const BASELINE_FLOOR_PER_MINUTE = 20;
+const MAX_TRACKED_CLIENTS = 50_000;
+
+interface ClientRate {
+  minute: number;
+  count: number;
+  average: number;
+  samples: number;
+}
+
+export class RateBaseline {
+  private clients = new Map<string, ClientRate>();
+
+  // Counts the request and returns how far the current minute is above the client's baseline.
+  // A dry run works out the same figures without recording the request.
+  observe(key: string, now: number = Date.now(), dryRun = false): { count: number; baseline: number; score: number } {
+    const minute = Math.floor(now / 60_000);
+    const tracked = this.clients.get(key);
+    const client: ClientRate = tracked ? { ...tracked } : { minute, count: 0, average: 0, samples: 0 };
+    if (!dryRun) {
+      if (!tracked && this.clients.size >= MAX_TRACKED_CLIENTS) this.evictIdle(minute);
+      this.clients.set(key, client);
+    }
+    if (client.minute !== minute) {
+      // Fold the finished minute in, then decay for any idle minutes since
+      client.average = client.samples === 0 ? client.count : client.average + BASELINE_ALPHA * (client.count - client.average);
+      client.average *= Math.pow(1 - BASELINE_ALPHA, Math.max(0, minute - client.minute - 1));
+      client.samples += 1;
+      client.minute = minute;
+      client.count = 0;
+    }
+    client.count += 1;
+
+    const baseline = Math.max(BASELINE_FLOOR_PER_MINUTE, client.samples >= MIN_BASELINE_SAMPLES ? client.average : 0);
+    const ratio = client.count / baseline;
+    // Nothing up to 3x the baseline, rising to 100 at 10x
+    const score = ratio <= 3 ? 0 : Math.min(100, Math.round(((ratio - 3) / 7) * 100));
+    return { count: client.count, baseline: Math.round(baseline * 10) / 10, score };
+  }
+
+  private evictIdle(minute: number) {
+    this.clients.forEach((client, key) => {
+      if (client.minute < minute - 60) this.clients.delete(key);
+    });
+    // Still full: drop the oldest half
+    if (this.clients.size >= MAX_TRACKED_CLIENTS) {
+      Array.from(this.clients.keys()).slice(0, MAX_TRACKED_CLIENTS / 2).forEach(key => this.clients.delete(key));
+    }
+  }
+}
+
+export const rateBaseline = new RateBaseline();
+
+// IP reputation from local data: deny lists of other tenants, denylist entries that have since
+// expired, and how often the WAF has recently suggested blocking the IP anywhere. Lists are
+// reloaded at most once a minute; reputation is a soft signal, so slightly stale data is fine.
+
+const DENY_LIST_TTL_MS = 60 * 1000;
+const RECENT_DENY_WINDOW_MS = 60 * 60 * 1000;
+const MAX_TRACKED_DENIED_IPS = 50_000;
+
+let denyListCache: { entries: IpList[]; loadedAt: number } | null = null;
+let denyListLoad: Promise<IpList[]> | null = null;
+const recentDenials = new Map<string, number[]>();
+
+async function getDenyListEntries(): Promise<IpList[]> {
+  if (denyListCache && Date.now() - denyListCache.loadedAt < DENY_LIST_TTL_MS) {
+    return denyListCache.entries;
+  }
+  denyListLoad ??= storage.getIpLists()
+    .then(lists => {
+      const entries = lists.filter(l => getListDecision(l.listType) === "deny");
+      denyListCache = { entries, loadedAt: Date.now() };
+      return entries;
+    })
+    .finally(() => { denyListLoad = null; });
+  return denyListLoad;
+}
+
+// Called for every request the WAF scored as a block, whether or not it was enforced
+export function recordDenial(clientIp: string, now: number = Date.now()) {
+  if (!recentDenials.has(clientIp) && recentDenials.size >= MAX_TRACKED_DENIED_IPS) {
+    recentDenials.forEach((times, ip) => {
+      if (times[times.length - 1] < now - RECENT_DENY_WINDOW_MS) recentDenials.delete(ip);
+    });
+    if (recentDenials.size >= MAX_TRACKED_DENIED_IPS) return;
+  }
+  const times = (recentDenials.get(clientIp) ?? []).filter(t => t > now - RECENT_DENY_WINDOW_MS);
+  times.push(now);
+  recentDenials.set(clientIp, times.slice(-10));
+}
+
+export async function detectIpReputation(tenantId: string, clientIp: string, now: Date = new Date()): Promise<Findings> {
+  const findings = new Findings("ipReputation");
+  const matching = (await getDenyListEntries()).filter(entry => {
+    const cidr = parseCidr(entry.ipAddress);
+    return cidr !== null && cidrContains(cidr, clientIp);
+  });
+  const isActive = (entry: IpList) => !entry.expiresAt || new Date(entry.expiresAt) > now;
+
+  const otherTenants = new Set(matching.filter(e => isActive(e) && e.tenantId && e.tenantId !== tenantId).map(e => e.tenantId));
+  if (otherTenants.size > 0) {
+    findings.add(60, `On the denylist of ${otherTenants.size} other tenant${otherTenants.size === 1 ? "" : "s"}`);
+  }
+  if (matching.some(e => !isActive(e))) {
+    findings.add(30, "Previously denylisted (entry expired)");
+  }
+
+  const denials = (recentDenials.get(clientIp) ?? []).filter(t => t > now.getTime() - RECENT_DENY_WINDOW_MS).length;
+  if (denials > 0) {
+    findings.add(Math.min(45, denials * 15), `${denials} blocked request${denials === 1 ? "" : "s"} in the last hour`);
+  }
+  return findings;
+}
+
+// Runs every detector; the rate limiter's own score counts when it is higher than the baseline's
+export async function detectAnomalies(
+  tenantId: string,
+  request: RequestData & { clientIp?: string },
+  rateLimitScore = 0,
+  dryRun = false,
+): Promise<AnomalyResult> {
+  const rate = new Findings("rate");
+  if (request.clientIp) {
+    const observed = rateBaseline.observe(`${tenantId}:${request.clientIp}`, Date.now(), dryRun);
+    if (observed.score > 0) {
+      rate.add(observed.score, `${observed.count} requests this minute against a baseline of ${observed.baseline}`);
+    }
+  }
+  if (rateLimitScore > rate.score) {
+    rate.items.length = 0;
+    rate.add(rateLimitScore, "Close to or over the policy's rate limit");
+  }
+
+  const detectors = [
+    request.clientIp ? await detectIpReputation(tenantId, request.clientIp) : new Findings("ipReputation"),
+    rate,
+    detectHeaderAnomalies(request),
+    detectPathAnomalies(request),
+    detectBodyAnomalies(request),
+  ];
+  return {
+    scores: Object.fromEntries(detectors.map(d => [d.component, d.score])) as Record<AnomalyComponent, number>,
+    findings: detectors.flatMap(d => d.items),
+  };
+}
@@ -1,13 +1,20 @@
+import { compilePattern, isDetectorPatternType } from "./patterns";
+
 interface WafRule {
   id: string;
+  name?: string;
   pattern: string;
+  patternType?: string | null;
   targetField: string;
-  severity: string;
+  severity: string | null;
   category: string;
-  enabled: boolean;
+  enabled: boolean | null;
+  score?: number | null;
+  action?: RuleAction | null;
+  forceAction?: boolean | null;
 }
 
-interface RequestData {
+export interface RequestData {
   method: string;
   path: string;
   headers: Record<string, any>;
@@ -15,83 +22,190 @@ interface RequestData {
   query?: any;
 }
 
-interface AnalysisResult {
+// Action a rule can force. As an operator override "allow" disables the rule instead.
+export type RuleAction = "allow" | "monitor" | "challenge" | "deny";
+
+const RULE_ACTION_RANK: Record<RuleAction, number> = { allow: 0, monitor: 1, challenge: 2, deny: 3 };
+
+export interface AnalysisResult {
   action: "allow" | "block" | "challenge";
   score: number;
+  riskLevel: "low" | "medium" | "high" | "critical";
   matches: Array<{
     ruleId: string;
+    ruleName: string;
+    category: string;
     field: string;
     value: string;
     severity: string;
+    score: number;
+    forcedAction?: RuleAction;
   }>;
   reason: string;
+  processingTimeMs: number;
 }
 
-interface Thresholds {
+export interface Thresholds {
   blockThreshold: number;
   challengeThreshold: number;
   monitorThreshold: number;
 }
 
-class WafEngine {
-  private customRules: WafRule[] = [];
-  
-  setCustomRules(rules: WafRule[]) {
-    this.customRules = rules.filter(r => r.enabled);
+// How the rule score combines with the anomaly detectors: rule scores are multiplied by
+// ruleWeight and the already-weighted anomaly score is added before the cap at 100
+export interface ScoreWeighting {
+  ruleWeight: number;
+  anomalyScore: number;
+}
+
+// A rule with its pattern compiled once, ready to be evaluated against many requests
+interface CompiledRule extends WafRule {
+  matches: (content: string) => boolean;
+  // Evaluated against each value in the field instead of the field as a whole
+  perValue: boolean;
+}
+
+export interface CompiledRuleSet {
+  rules: CompiledRule[];
+  ruleCount: number;
+  patternBytes: number;
+  compileTimeMs: number;
+  compiledAt: Date;
+}
+
+const DEFAULT_PATTERNS = [
+  { id: 'sql-injection', name: 'SQL Injection', pattern: /(\b(SELECT|INSERT|UPDATE|DELETE|DROP|UNION|ALTER)\b.*\b(FROM|INTO|WHERE|TABLE)\b)/i, field: 'query', severity: 'high', score: 80 },
+  { id: 'xss-basic', name: 'Cross-Site Scripting', pattern: /<script[^>]*>.*?<\/script>/i, field: 'body', severity: 'high', score: 70 },
+  { id: 'path-traversal', name: 'Path Traversal', pattern: /\.\.(\/|\\)/i, field: 'path', severity: 'medium', score: 50 },
+  { id: 'cmd-injection', name: 'Command Injection', pattern: /;|\||&|`|\$\(/i, field: 'query', severity: 'high', score: 75 },
+];
+
+// Bodies arrive as text; JSON bodies are parsed so their values can be checked one by one
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string' || !/^\s*[{[]/.test(body)) return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
   }
-  
-  analyzeRequest(request: RequestData, thresholds: Thresholds): AnalysisResult {
-    const matches: AnalysisResult['matches'] = [];
-    let totalScore = 0;
-    
-    const defaultPatterns = [
-      { id: 'sql-injection', pattern: /(\b(SELECT|INSERT|UPDATE|DELETE|DROP|UNION|ALTER)\b.*\b(FROM|INTO|WHERE|TABLE)\b)/i, field: 'query', severity: 'high', score: 80 },
-      { id: 'xss-basic', pattern: /<script[^>]*>.*?<\/script>/i, field: 'body', severity: 'high', score: 70 },
-      { id: 'path-traversal', pattern: /\.\.(\/|\\)/i, field: 'path', severity: 'medium', score: 50 },
-      { id: 'cmd-injection', pattern: /;|\||&|`|\$\(/i, field: 'query', severity: 'high', score: 75 },
-    ];
+}
+
+// Every key and scalar value in a query, body or header object, as strings
+function leafValues(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (typeof value !== 'object') return [String(value)];
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) =>
+    Array.isArray(value) ? leafValues(item) : [key, ...leafValues(item)],
+  );
+}
+
+class WafEngine {
+  // Compile the built-in patterns plus the given custom rules; disabled rules and rules
+  // with invalid patterns are left out
+  compileRuleSet(customRules: WafRule[]): CompiledRuleSet {
+    const startTime = Date.now();
     
-    const allRules = [...defaultPatterns.map(p => ({
+    const allRules: WafRule[] = [...DEFAULT_PATTERNS.map(p => ({
       id: p.id,
+      name: p.name,
       pattern: p.pattern.source,
       targetField: p.field,
       severity: p.severity,
       category: 'owasp',
-      enabled: true
-    })), ...this.customRules];
+      enabled: true,
+      score: p.score
+    })), ...customRules];
+    
+    const rules: CompiledRule[] = [];
+    for (const rule of allRules) {
+      if (!rule.enabled) continue;
+      try {
+        rules.push({
+          ...rule,
+          matches: compilePattern(rule.patternType || 'regex', rule.pattern),
+          perValue: isDetectorPatternType(rule.patternType),
+        });
+      } catch (error) {
+        console.warn(`WAF Engine: Skipping rule ${rule.id} with invalid pattern:`, (error as Error).message);
+      }
+    }
+    
+    return {
+      rules,
+      ruleCount: rules.length,
+      patternBytes: rules.reduce((total, rule) => total + (rule.pattern?.length || 0), 0),
+      compileTimeMs: Date.now() - startTime,
+      compiledAt: new Date(),
+    };
+  }
+  
+  analyzeRequest(
+    request: RequestData,
+    thresholds: Thresholds,
+    ruleSet: CompiledRuleSet,
+    ruleActions: Map<string, RuleAction> = new Map(),
+    weighting: ScoreWeighting = { ruleWeight: 1, anomalyScore: 0 },
+  ): AnalysisResult {
+    const startTime = Date.now();
+    const matches: AnalysisResult['matches'] = [];
+    let totalScore = 0;
     
     const searchableContent = {
       path: request.path,
       query: JSON.stringify(request.query || {}),
       body: JSON.stringify(request.body || {}),
       headers: JSON.stringify(request.headers || {}),
+      'user-agent': String(request.headers?.['user-agent'] || ''),
       request: JSON.stringify(request)
     };
+    const queryValues = leafValues(request.query);
+    const bodyValues = leafValues(parseBody(request.body));
+    const headerValues = leafValues(request.headers);
+    const fieldValues: Record<string, string[]> = {
+      path: [request.path],
+      query: queryValues,
+      body: bodyValues,
+      headers: headerValues,
+      'user-agent': [searchableContent['user-agent']],
+      request: [request.path, ...queryValues, ...bodyValues, ...headerValues],
+    };
     
-    for (const rule of allRules) {
-      if (!rule.enabled) continue;
+    for (const rule of ruleSet.rules) {
+      // Operator overrides take precedence over the rule's own action
+      const overrideAction = ruleActions.get(rule.id);
+      if (overrideAction === 'allow') continue;
+      const forcedAction = overrideAction ?? (rule.forceAction && rule.action ? rule.action : undefined);
       
-      const targetContent = searchableContent[rule.targetField as keyof typeof searchableContent] || '';
-      const regex = new RegExp(rule.pattern, 'i');
+      const fieldContent = searchableContent[rule.targetField as keyof typeof searchableContent] || '';
+      // The matching content, or undefined when the rule does not match
+      const targetContent = rule.perValue
+        ? (fieldValues[rule.targetField] ?? []).find(value => rule.matches(value))
+        : rule.matches(fieldContent) ? fieldContent : undefined;
       
-      if (regex.test(targetContent)) {
-        const severityScore = rule.severity === 'critical' ? 100 
-          : rule.severity === 'high' ? 75 
-          : rule.severity === 'medium' ? 50 
-          : 25;
+      if (targetContent !== undefined) {
+        const severity = rule.severity || 'medium';
+        const ruleScore = rule.score ?? (severity === 'critical' ? 100 
+          : severity === 'high' ? 75 
+          : severity === 'medium' ? 50 
+          : 25);
         
+        // Rules with a forced action decide the outcome directly instead of adding to the score
         matches.push({
           ruleId: rule.id,
+          ruleName: rule.name || rule.id,
+          category: rule.category,
           field: rule.targetField,
           value: targetContent.substring(0, 100),
-          severity: rule.severity
+          severity,
+          score: forcedAction ? 0 : ruleScore,
+          ...(forcedAction && { forcedAction })
         });
         
-        totalScore += severityScore;
+        if (!forcedAction) totalScore += ruleScore;
       }
     }
     
-    totalScore = Math.min(100, totalScore);
+    totalScore = Math.min(100, Math.round(totalScore * weighting.ruleWeight + weighting.anomalyScore));
     
     let action: AnalysisResult['action'] = 'allow';
     let reason = 'Request passed all checks';
@@ -106,11 +220,38 @@ class WafEngine {
       reason = `Threat score ${totalScore} requires monitoring`;
     }
     
+    // The most severe forced action applies; a forced allow only wins when nothing stricter is forced
+    const forced = matches
+      .filter(m => m.forcedAction)
+      .sort((a, b) => RULE_ACTION_RANK[b.forcedAction!] - RULE_ACTION_RANK[a.forcedAction!])[0];
+    const forcedReason = forced && (ruleActions.has(forced.ruleId)
+      ? `Rule ${forced.ruleName} is overridden to ${forced.forcedAction}`
+      : `Rule ${forced.ruleName} forces ${forced.forcedAction}`);
+    if (forced?.forcedAction === 'allow') {
+      action = 'allow';
+      reason = `${forcedReason} regardless of threat score ${totalScore}`;
+    } else if (forced?.forcedAction === 'deny' && action !== 'block') {
+      action = 'block';
+      reason = forcedReason!;
+    } else if (forced?.forcedAction === 'challenge' && action === 'allow') {
+      action = 'challenge';
+      reason = forcedReason!;
+    } else if (forced?.forcedAction === 'monitor' && action === 'allow' && totalScore < thresholds.monitorThreshold) {
+      reason = forcedReason!;
+    }
+    
+    const riskLevel: AnalysisResult['riskLevel'] = totalScore >= 90 ? 'critical'
+      : totalScore >= 70 ? 'high'
+      : totalScore >= 40 ? 'medium'
+      : 'low';
+    
     return {
       action,
       score: totalScore,
+      riskLevel,
       matches,
-      reason
+      reason,
+      processingTimeMs: Date.now() - startTime
     };
   }
 }
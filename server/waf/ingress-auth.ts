@@ -0,0 +1,78 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type { Request } from "express";
+import type { IngressKey } from "@shared/schema";
+import { storage } from "../storage";
+import { signPayload } from "../webhooks/delivery";
+import { getRateLimitStore } from "./rate-limit";
+
+// Ingress requests are signed the same way webhook deliveries are: X-WAF-Key-Id names one of the
+// tenant's ingress keys and X-WAF-Signature is "t=<unix seconds>,v1=<HMAC-SHA256(secret, "<t>.<raw body>")>".
+// Stale timestamps and signatures seen before are rejected, so a captured request cannot be replayed.
+
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export type IngressAuthResult =
+  | { ok: true; key: IngressKey }
+  | { ok: false; code: string; message: string };
+
+export function generateIngressSecret(): string {
+  return "wik_" + randomBytes(32).toString("base64url");
+}
+
+export function isIngressKeyUsable(key: IngressKey): boolean {
+  return !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt).getTime() > Date.now());
+}
+
+function parseSignature(header: string): { timestamp: number; signature: string } | null {
+  const parts = new Map(header.split(",").map(part => {
+    const [name, ...value] = part.trim().split("=");
+    return [name, value.join("=")] as [string, string];
+  }));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature || !/^[0-9a-f]{64}$/.test(signature)) return null;
+  return { timestamp, signature };
+}
+
+export async function verifyIngressSignature(req: Request, tenantId: string): Promise<IngressAuthResult> {
+  const keyId = req.get("x-waf-key-id");
+  const header = req.get("x-waf-signature");
+  if (!keyId || !header) {
+    return { ok: false, code: "ingress_signature_required", message: "X-WAF-Key-Id and X-WAF-Signature headers are required" };
+  }
+
+  const parsed = parseSignature(header);
+  if (!parsed) {
+    return { ok: false, code: "invalid_ingress_signature", message: "Malformed X-WAF-Signature header" };
+  }
+  if (Math.abs(Date.now() / 1000 - parsed.timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, code: "ingress_signature_expired", message: "Signature timestamp is outside the allowed window" };
+  }
+
+  const key = await storage.getIngressKey(keyId);
+  if (!key || key.tenantId !== tenantId || !isIngressKeyUsable(key)) {
+    return { ok: false, code: "invalid_ingress_key", message: "Unknown, expired or revoked ingress key" };
+  }
+
+  const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody.toString("utf8") : "";
+  const expected = signPayload(key.secret, parsed.timestamp, rawBody).split("v1=")[1];
+  if (!timingSafeEqual(Buffer.from(expected, "hex"), Buffer.from(parsed.signature, "hex"))) {
+    return { ok: false, code: "invalid_ingress_signature", message: "Signature does not match the request body" };
+  }
+
+  // A signature stays valid for the whole tolerance window, so remember it for that long
+  const { count } = await getRateLimitStore().increment(
+    `ingress-signature:${key.id}:${parsed.signature}`,
+    SIGNATURE_TOLERANCE_SECONDS * 2 * 1000,
+  );
+  if (count > 1) {
+    return { ok: false, code: "ingress_replay", message: "This signed request has already been received" };
+  }
+
+  if (!key.lastUsedAt || Date.now() - new Date(key.lastUsedAt).getTime() > LAST_USED_INTERVAL_MS) {
+    storage.updateIngressKey(key.id, { lastUsedAt: new Date() })
+      .catch(error => console.error("Error recording ingress key use:", error));
+  }
+  return { ok: true, key };
+}
@@ -0,0 +1,127 @@
+import { isIPv4, isIPv6 } from "node:net";
+import type { IpList } from "@shared/schema";
+
+// IP allow/deny list matching with CIDR support (IPv4 and IPv6)
+
+export type IpListDecision = "allow" | "deny";
+
+export interface ParsedCidr {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+export interface IpListMatch {
+  decision: IpListDecision;
+  entry: IpList;
+  scope: "tenant" | "global";
+}
+
+const ALLOW_LIST_TYPES = ["whitelist", "allowlist", "allow"];
+const DENY_LIST_TYPES = ["blacklist", "denylist", "deny"];
+
+export function getListDecision(listType: string): IpListDecision | undefined {
+  const normalized = listType.toLowerCase();
+  if (ALLOW_LIST_TYPES.includes(normalized)) return "allow";
+  if (DENY_LIST_TYPES.includes(normalized)) return "deny";
+  return undefined;
+}
+
+function parseIPv4(ip: string): bigint {
+  return ip.split(".").reduce((acc, octet) => (acc << BigInt(8)) | BigInt(parseInt(octet, 10)), BigInt(0));
+}
+
+function parseIPv6(ip: string): bigint {
+  let address = ip;
+
+  // Embedded IPv4 tail, e.g. ::ffff:10.0.0.1
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.substring(lastColon + 1);
+  if (isIPv4(tail)) {
+    const v4 = parseIPv4(tail);
+    address = `${address.substring(0, lastColon + 1)}${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const [head, rest] = address.split("::");
+  const headParts = head ? head.split(":") : [];
+  const restParts = rest !== undefined && rest !== "" ? rest.split(":") : [];
+  const missing = 8 - headParts.length - restParts.length;
+  const parts = rest !== undefined
+    ? [...headParts, ...Array(missing).fill("0"), ...restParts]
+    : headParts;
+
+  return parts.reduce((acc, part) => (acc << BigInt(16)) | BigInt(parseInt(part, 16)), BigInt(0));
+}
+
+function prefixMask(bits: number, prefix: number): bigint {
+  return prefix === 0 ? BigInt(0) : ((BigInt(1) << BigInt(prefix)) - BigInt(1)) << BigInt(bits - prefix);
+}
+
+// Parse an address into its numeric form; IPv4-mapped IPv6 addresses are treated as IPv4
+export function parseIp(ip: string): { version: 4 | 6; value: bigint } | null {
+  const trimmed = ip.trim();
+  const v4Mapped = trimmed.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (v4Mapped) return { version: 4, value: parseIPv4(v4Mapped[1]) };
+  if (isIPv4(trimmed)) return { version: 4, value: parseIPv4(trimmed) };
+  if (isIPv6(trimmed)) return { version: 6, value: parseIPv6(trimmed) };
+  return null;
+}
+
+// Parse "10.0.0.0/8", "2001:db8::/32" or a bare address (treated as a single-host range)
+export function parseCidr(entry: string): ParsedCidr | null {
+  const [address, prefixText, ...extra] = entry.trim().split("/");
+  if (extra.length > 0) return null;
+
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return null;
+
+  return { version: ip.version, network: ip.value & prefixMask(bits, prefix), prefix };
+}
+
+export function cidrContains(cidr: ParsedCidr, ip: string): boolean {
+  const parsed = parseIp(ip);
+  if (!parsed || parsed.version !== cidr.version) return false;
+
+  const bits = cidr.version === 4 ? 32 : 128;
+  return (parsed.value & prefixMask(bits, cidr.prefix)) === cidr.network;
+}
+
+export function isValidIpListEntry(entry: string): boolean {
+  return parseCidr(entry) !== null;
+}
+
+// Find the list entry that decides a client IP. Tenant-scoped entries take precedence
+// over global ones; within a scope the most specific range wins, and deny wins a tie.
+export function findIpListMatch(clientIp: string, entries: IpList[], now: Date = new Date()): IpListMatch | undefined {
+  let best: (IpListMatch & { prefix: number }) | undefined;
+
+  for (const entry of entries) {
+    if (entry.expiresAt && new Date(entry.expiresAt) <= now) continue;
+
+    const decision = getListDecision(entry.listType);
+    const cidr = parseCidr(entry.ipAddress);
+    if (!decision || !cidr || !cidrContains(cidr, clientIp)) continue;
+
+    const candidate = {
+      decision,
+      entry,
+      scope: entry.tenantId ? "tenant" as const : "global" as const,
+      prefix: cidr.prefix,
+    };
+
+    if (!best
+      || (candidate.scope === "tenant" && best.scope === "global")
+      || (candidate.scope === best.scope && candidate.prefix > best.prefix)
+      || (candidate.scope === best.scope && candidate.prefix === best.prefix && candidate.decision === "deny")) {
+      best = candidate;
+    }
+  }
+
+  if (!best) return undefined;
+  const { prefix: _prefix, ...match } = best;
+  return match;
+}
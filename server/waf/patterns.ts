@@ -0,0 +1,137 @@
+// Pattern matching for WAF rules. A rule's patternType decides how its pattern is applied
+// to the target content; "sqli" and "xss" ignore the pattern and run built-in detectors.
+
+export const PATTERN_TYPES = ["regex", "exact", "contains", "prefix", "suffix", "glob", "sqli", "xss"] as const;
+
+export type PatternType = typeof PATTERN_TYPES[number];
+
+export function isPatternType(value: string): value is PatternType {
+  return (PATTERN_TYPES as readonly string[]).includes(value);
+}
+
+// Detector pattern types do not need a pattern
+export function requiresPattern(patternType: PatternType): boolean {
+  return patternType !== "sqli" && patternType !== "xss";
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "*" matches any run of characters, "?" a single character
+export function globToRegex(glob: string): RegExp {
+  const source = glob.split("").map(char =>
+    char === "*" ? ".*" : char === "?" ? "." : escapeRegex(char)
+  ).join("");
+  return new RegExp(`^${source}$`, "is");
+}
+
+// Returns an error message if the pattern cannot be used with the given type
+export function validatePattern(patternType: string, pattern: string): string | undefined {
+  if (!isPatternType(patternType)) {
+    return `Unknown pattern type "${patternType}"`;
+  }
+  if (requiresPattern(patternType) && !pattern) {
+    return "Pattern is required";
+  }
+  if (patternType === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  return undefined;
+}
+
+// Decode URL and HTML escapes and strip inline comments so obfuscated payloads are seen as written
+function normalizeInput(input: string): string {
+  let value = input;
+  for (let i = 0; i < 2; i++) {
+    try {
+      const decoded = decodeURIComponent(value.replace(/\+/g, " "));
+      if (decoded === value) break;
+      value = decoded;
+    } catch {
+      break;
+    }
+  }
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/\\u([0-9a-f]{4})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\/\*.*?\*\//g, " ")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+const SQLI_SIGNATURES = [
+  // Tautologies: ' or 1=1, " or 'a'='a
+  /['"`)]\s*(or|and|\|\||&&)\s*['"`(]?\s*(\w+)\s*['"`)]?\s*(=|<>|!=|like)\s*['"`(]?\s*\2\b/,
+  /['"`)]\s*(or|and)\s+(true|false|\d+)\b/,
+  // Union-based and stacked queries
+  /\bunion(\s+all|\s+distinct)?\s+select\b/,
+  /;\s*(select|insert|update|delete|drop|alter|create|truncate|exec|shutdown)\b/,
+  // Quote followed by a comment terminating the statement
+  /['"`]\s*(--|#|;)/,
+  // Time-based and out-of-band probes
+  /\b(sleep|benchmark|pg_sleep)\s*\(|\bwaitfor\s+delay\b/,
+  /\b(load_file|into\s+(out|dump)file|information_schema|sys\.tables|xp_cmdshell)\b/,
+  /\bselect\b[^;]*\bfrom\b/,
+];
+
+const XSS_SIGNATURES = [
+  /<\s*script\b/,
+  /<\s*\/\s*script\s*>/,
+  /\bjavascript\s*:/,
+  /\bvbscript\s*:/,
+  /\bdata\s*:\s*text\/html/,
+  /<[^>]*\bon[a-z]+\s*=/,
+  /<\s*(iframe|frame|object|embed|svg|math|base|meta|link|style)\b/,
+  /\bsrcdoc\s*=/,
+  /\bexpression\s*\(/,
+  /\b(document\.(cookie|domain|write)|window\.location|eval\s*\(|alert\s*\(|prompt\s*\(|confirm\s*\()/,
+];
+
+// Detectors look at one value at a time rather than a serialized field, so the quotes JSON
+// wraps values in are not mistaken for an injection
+export function isDetectorPatternType(patternType: string | null | undefined): boolean {
+  return patternType === "sqli" || patternType === "xss";
+}
+
+export function detectSqlInjection(input: string): boolean {
+  const normalized = normalizeInput(input);
+  return SQLI_SIGNATURES.some(signature => signature.test(normalized));
+}
+
+export function detectXss(input: string): boolean {
+  const normalized = normalizeInput(input);
+  return XSS_SIGNATURES.some(signature => signature.test(normalized));
+}
+
+// Build a matcher once per rule; text comparisons are case-insensitive like regex rules
+export function compilePattern(patternType: string, pattern: string): (content: string) => boolean {
+  const needle = pattern.toLowerCase();
+  switch (patternType) {
+    case "exact":
+      return content => content.toLowerCase() === needle;
+    case "contains":
+      return content => content.toLowerCase().includes(needle);
+    case "prefix":
+      return content => content.toLowerCase().startsWith(needle);
+    case "suffix":
+      return content => content.toLowerCase().endsWith(needle);
+    case "glob": {
+      const regex = globToRegex(pattern);
+      return content => regex.test(content);
+    }
+    case "sqli":
+      return detectSqlInjection;
+    case "xss":
+      return detectXss;
+    default: {
+      const regex = new RegExp(pattern, "i");
+      return content => regex.test(content);
+    }
+  }
+}
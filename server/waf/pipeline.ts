@@ -0,0 +1,378 @@
+import { alertSeverities, type Tenant, type Policy, type Request, type Override, type ScoreWeights } from "@shared/schema";
+import { storage } from "../storage";
+import { wafEngine, type RequestData, type AnalysisResult, type RuleAction } from "./engine";
+import { sseServer } from "./sse";
+import { findIpListMatch, parseCidr, cidrContains, type IpListMatch } from "./ip-lists";
+import { checkRateLimit, type RateLimitResult } from "./rate-limit";
+import { ruleSetCache } from "./rule-cache";
+import { recordRuleHits } from "./rule-hits";
+import { detectAnomalies, recordDenial, resolveScoreWeights, weightedAnomalyScore, type AnomalyResult } from "./anomaly";
+import { dispatchWebhookEvent } from "../webhooks/delivery";
+
+// Shared ingress pipeline used by both /api/waf/ingress and the built-in reverse proxy
+
+export interface IngressRequest extends RequestData {
+  clientIp?: string;
+}
+
+export interface UpstreamResponse {
+  responseCode: number;
+  responseHeaders?: Record<string, any>;
+  responseTime?: number;
+}
+
+export type WafAction = "allow" | "monitor" | "challenge" | "deny";
+
+export interface TenantAnalysis {
+  policy?: Policy;
+  analysis: AnalysisResult;
+  ipListMatch?: IpListMatch;
+  appliedOverrides: Override[];
+  rateLimit?: RateLimitResult;
+  // Anomaly detector scores and the weights they were combined with; absent when an IP
+  // override or list entry decided the request
+  anomaly?: AnomalyResult;
+  scoreWeights?: ScoreWeights;
+  // What the score calls for vs. what is enforced under the policy's enforcement mode
+  suggestedAction: WafAction;
+  finalAction: WafAction;
+}
+
+// Helper function to scrub sensitive headers
+export function scrubHeaders(headers: Record<string, any>, scrubCookies: boolean, scrubAuthHeaders: boolean): Record<string, any> {
+  const scrubbed = { ...headers };
+
+  if (scrubCookies) {
+    delete scrubbed['cookie'];
+    delete scrubbed['set-cookie'];
+  }
+
+  if (scrubAuthHeaders) {
+    delete scrubbed['authorization'];
+    delete scrubbed['x-api-key'];
+    delete scrubbed['x-auth-token'];
+    delete scrubbed['x-access-token'];
+  }
+
+  return scrubbed;
+}
+
+// The engine reports "block", the database stores "deny"
+export function toStoredAction(action: AnalysisResult['action']): WafAction {
+  return action === "block" ? "deny" : action;
+}
+
+// Response code returned to the client when the WAF answers on behalf of the upstream
+export function responseCodeForAction(action: WafAction): number {
+  return action === "deny" ? 403
+    : action === "challenge" ? 429
+    : 200;
+}
+
+const ACTION_RANK: Record<WafAction, number> = { allow: 0, monitor: 1, challenge: 2, deny: 3 };
+
+// Tenants without a policy keep enforcing, as they did before policies had a mode
+export function enforcementModeOf(policy?: Policy): Policy["enforcementMode"] {
+  return policy?.enforcementMode ?? "block";
+}
+
+// In monitor mode nothing is blocked or challenged; the request is only flagged for review
+export function applyEnforcementMode(suggestedAction: WafAction, policy?: Policy): WafAction {
+  if (enforcementModeOf(policy) === "monitor" && (suggestedAction === "deny" || suggestedAction === "challenge")) {
+    return "monitor";
+  }
+  return suggestedAction;
+}
+
+// Allowlisted IPs bypass rule evaluation, denylisted IPs are blocked outright
+function ipListAnalysis(clientIp: string, { decision, entry, scope }: IpListMatch, startTime: number): AnalysisResult {
+  const listName = decision === "allow" ? "allowlist" : "denylist";
+  return {
+    action: decision === "allow" ? "allow" : "block",
+    score: 0,
+    riskLevel: "low",
+    matches: [],
+    reason: `Client IP ${clientIp} matched ${scope} ${listName} entry ${entry.ipAddress}${entry.reason ? ` (${entry.reason})` : ""}`,
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
+// An IP override forces its action for the client without evaluating rules
+function ipOverrideAnalysis(clientIp: string, override: Override, startTime: number): AnalysisResult {
+  return {
+    action: override.action === "deny" ? "block" : override.action === "challenge" ? "challenge" : "allow",
+    score: 0,
+    riskLevel: "low",
+    matches: [],
+    reason: `Client IP ${clientIp} has an operator override to ${override.action}${override.reason ? ` (${override.reason})` : ""}`,
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
+// Overrides are returned newest first, so the most recent one for a target wins
+function findIpOverride(clientIp: string, overrides: Override[]): Override | undefined {
+  return overrides.find(o => {
+    if (o.overrideType !== "ip") return false;
+    const cidr = parseCidr(o.targetId);
+    return cidr !== null && cidrContains(cidr, clientIp);
+  });
+}
+
+function getRuleOverrides(overrides: Override[]): Map<string, Override> {
+  const ruleOverrides = new Map<string, Override>();
+  for (const override of overrides) {
+    if (override.overrideType === "rule" && !ruleOverrides.has(override.targetId)) {
+      ruleOverrides.set(override.targetId, override);
+    }
+  }
+  return ruleOverrides;
+}
+
+// Load the tenant's policy and rules, then run the WAF engine against the request. A dry run
+// reads the client's rate-limit counter and rate baseline without counting the request in them.
+export async function analyzeTenantRequest(tenant: Tenant, request: IngressRequest, dryRun = false): Promise<TenantAnalysis> {
+  const startTime = Date.now();
+  const { policy, ruleSet } = await ruleSetCache.get(tenant.id);
+  const overrides = await storage.getActiveOverrides(tenant.id);
+
+  // IP overrides and IP list entries are explicit operator decisions and are enforced in either mode
+  if (request.clientIp) {
+    const ipOverride = findIpOverride(request.clientIp, overrides);
+    if (ipOverride) {
+      const analysis = ipOverrideAnalysis(request.clientIp, ipOverride, startTime);
+      return {
+        policy,
+        analysis,
+        appliedOverrides: [ipOverride],
+        suggestedAction: ipOverride.action,
+        finalAction: ipOverride.action,
+      };
+    }
+
+    const ipListMatch = findIpListMatch(request.clientIp, await storage.getActiveIpLists(tenant.id));
+    if (ipListMatch) {
+      const analysis = ipListAnalysis(request.clientIp, ipListMatch, startTime);
+      const action = toStoredAction(analysis.action);
+      return { policy, ipListMatch, analysis, appliedOverrides: [], suggestedAction: action, finalAction: action };
+    }
+  }
+
+  const thresholds = {
+    blockThreshold: policy?.blockThreshold ?? 70,
+    challengeThreshold: policy?.challengeThreshold ?? 50,
+    monitorThreshold: policy?.monitorThreshold ?? 30,
+  };
+
+  // Count the request against the policy's per-client limit; a limit of 0 disables it
+  const limit = policy?.rateLimit ?? 100;
+  const rateLimit = request.clientIp && limit > 0
+    ? await checkRateLimit(tenant.id, request.clientIp, limit, policy?.rateLimitWindow || 60, dryRun)
+    : undefined;
+
+  const ruleOverrides = getRuleOverrides(overrides);
+  const ruleActions = new Map<string, RuleAction>(
+    Array.from(ruleOverrides, ([ruleId, override]) => [ruleId, override.action]),
+  );
+
+  const scoreWeights = resolveScoreWeights(policy);
+  const anomaly = await detectAnomalies(tenant.id, request, rateLimit?.anomalyScore ?? 0, dryRun);
+  let analysis = wafEngine.analyzeRequest(request, thresholds, ruleSet, ruleActions, {
+    ruleWeight: scoreWeights.rules,
+    anomalyScore: weightedAnomalyScore(anomaly, scoreWeights),
+  });
+  const appliedOverrides = analysis.matches
+    .filter(m => m.forcedAction && ruleOverrides.has(m.ruleId))
+    .map(m => ruleOverrides.get(m.ruleId)!);
+
+  let suggestedAction = toStoredAction(analysis.action);
+  if (suggestedAction === "allow" && analysis.matches.some(m => m.forcedAction === "monitor")) {
+    suggestedAction = "monitor";
+  }
+
+  // Over-limit clients are challenged or blocked as configured, unless the rules already call for more
+  if (rateLimit?.exceeded) {
+    const rateLimitAction = policy?.rateLimitAction === "block" ? "deny" : "challenge";
+    if (ACTION_RANK[rateLimitAction] > ACTION_RANK[suggestedAction]) {
+      suggestedAction = rateLimitAction;
+      analysis = {
+        ...analysis,
+        action: rateLimitAction === "deny" ? "block" : "challenge",
+        reason: `Client exceeded rate limit of ${rateLimit.limit} requests per ${rateLimit.windowSeconds}s`,
+      };
+    }
+  }
+
+  return {
+    policy,
+    analysis,
+    appliedOverrides,
+    rateLimit,
+    anomaly,
+    scoreWeights,
+    suggestedAction,
+    finalAction: applyEnforcementMode(suggestedAction, policy),
+  };
+}
+
+async function meetsAlertThreshold(riskLevel: AnalysisResult['riskLevel']): Promise<boolean> {
+  const { alertThreshold } = await storage.getSettings();
+  return alertSeverities.indexOf(riskLevel) >= alertSeverities.indexOf(alertThreshold);
+}
+
+// Persist the request and its analysis, broadcast it and raise an alert for high-risk traffic
+export async function recordTenantRequest(
+  tenant: Tenant,
+  request: IngressRequest,
+  { policy, analysis, ipListMatch, appliedOverrides, rateLimit, anomaly, scoreWeights, suggestedAction, finalAction }: TenantAnalysis,
+  response: UpstreamResponse,
+): Promise<Request> {
+  const scrubCookies = tenant.scrubCookies ?? false;
+  const scrubAuthHeaders = tenant.scrubAuthHeaders ?? false;
+
+  // Apply privacy settings: scrub sensitive headers
+  let headersToStore = request.headers || {};
+  let responseHeadersToStore = response.responseHeaders;
+  if (scrubCookies || scrubAuthHeaders) {
+    headersToStore = scrubHeaders(headersToStore, scrubCookies, scrubAuthHeaders);
+    if (responseHeadersToStore) {
+      responseHeadersToStore = scrubHeaders(responseHeadersToStore, scrubCookies, scrubAuthHeaders);
+    }
+  }
+
+  const body = typeof request.body === "string" ? request.body
+    : request.body ? JSON.stringify(request.body)
+    : undefined;
+  const contentLength = parseInt(request.headers?.["content-length"], 10);
+
+  const storedRequest = await storage.createRequest({
+    tenantId: tenant.id,
+    timestamp: new Date(),
+    method: request.method,
+    path: request.path,
+    clientIp: request.clientIp,
+    userAgent: request.headers?.["user-agent"],
+    referer: request.headers?.["referer"] || null,
+    contentType: request.headers?.["content-type"] || null,
+    contentLength: Number.isNaN(contentLength) ? null : contentLength,
+    responseCode: response.responseCode,
+    responseHeadersJson: responseHeadersToStore || null,
+    responseTime: response.responseTime ?? null,
+    actionTaken: finalAction,
+    headersJson: headersToStore,
+    bodyPreview: body?.substring(0, 500) || null,
+    queryString: Object.entries(request.query || {})
+      .map(([k, v]) => `${k}=${v}`).join("&") || null,
+    wafHitsJson: analysis.matches,
+  });
+
+  // Store analysis record
+  await storage.createAnalysis({
+    requestId: storedRequest.id,
+    matchedRulesJson: analysis.matches,
+    totalScore: analysis.score,
+    ipReputationScore: anomaly?.scores.ipReputation ?? 0,
+    rateAnomalyScore: anomaly?.scores.rate ?? rateLimit?.anomalyScore ?? 0,
+    headerAnomalyScore: anomaly?.scores.header ?? 0,
+    pathAnomalyScore: anomaly?.scores.path ?? 0,
+    bodyAnomalyScore: anomaly?.scores.body ?? 0,
+    suggestedAction,
+    finalAction,
+    processingTimeMs: analysis.processingTimeMs,
+    explanationText: finalAction !== suggestedAction
+      ? `${analysis.reason} (monitor mode: ${suggestedAction} not enforced)`
+      : analysis.reason,
+    breakdownJson: {
+      riskLevel: analysis.riskLevel,
+      matchCount: analysis.matches.length,
+      enforcementMode: enforcementModeOf(policy),
+      ...(appliedOverrides.length > 0 && {
+        overrides: appliedOverrides.map(o => ({
+          id: o.id,
+          type: o.overrideType,
+          targetId: o.targetId,
+          action: o.action,
+        })),
+      }),
+      ...(rateLimit && {
+        rateLimit: {
+          count: rateLimit.count,
+          limit: rateLimit.limit,
+          windowSeconds: rateLimit.windowSeconds,
+          exceeded: rateLimit.exceeded,
+        },
+      }),
+      ...(anomaly && {
+        ruleScore: analysis.matches.reduce((total, m) => total + m.score, 0),
+        scoreWeights,
+        anomalies: anomaly.findings,
+      }),
+      ...(ipListMatch && {
+        ipList: {
+          decision: ipListMatch.decision,
+          scope: ipListMatch.scope,
+          entryId: ipListMatch.entry.id,
+          range: ipListMatch.entry.ipAddress,
+        },
+      }),
+    },
+  });
+
+  recordRuleHits(tenant.id, analysis.matches);
+  // Feeds IP reputation; list and override decisions are left out so they do not count twice
+  if (anomaly && suggestedAction === "deny" && request.clientIp) {
+    recordDenial(request.clientIp);
+  }
+
+  // Broadcast to SSE clients
+  sseServer.broadcastRequest(storedRequest);
+
+  // Webhook events carry the same request details whether they report an alert or a block
+  const eventDetails = {
+    tenant: { id: tenant.id, name: tenant.name, domain: tenant.domain },
+    request: {
+      id: storedRequest.id,
+      timestamp: storedRequest.timestamp,
+      method: storedRequest.method,
+      path: storedRequest.path,
+      clientIp: storedRequest.clientIp,
+      userAgent: storedRequest.userAgent,
+      action: finalAction,
+    },
+    analysis: {
+      score: analysis.score,
+      riskLevel: analysis.riskLevel,
+      reason: analysis.reason,
+      matchedRules: analysis.matches.map(m => m.ruleId),
+    },
+  };
+  if (finalAction === "deny") {
+    dispatchWebhookEvent("request.blocked", tenant.id, eventDetails)
+      .catch(error => console.error("Error queueing webhook event:", error));
+  }
+
+  // Create an alert when the risk level reaches the configured alert threshold
+  if (analysis.score > 0 && await meetsAlertThreshold(analysis.riskLevel)) {
+    const riskLabel = analysis.riskLevel.charAt(0).toUpperCase() + analysis.riskLevel.slice(1);
+    const alert = await storage.createAlert({
+      tenantId: tenant.id,
+      severity: analysis.riskLevel,
+      type: analysis.matches[0]?.category || (anomaly?.findings.length ? "anomaly" : "unknown"),
+      title: `${riskLabel}-risk request detected (Score: ${analysis.score})`,
+      message: analysis.matches.length > 0 || !anomaly?.findings.length
+        ? `Detected ${analysis.matches.length} rule matches: ${analysis.matches.slice(0, 3).map(m => m.ruleName).join(", ")}${analysis.matches.length > 3 ? '...' : ''}`
+        : `Anomalous request: ${anomaly.findings.slice(0, 3).map(f => f.detail).join("; ")}${anomaly.findings.length > 3 ? '...' : ''}`,
+    });
+
+    sseServer.broadcastAlert({
+      id: alert.id,
+      severity: alert.severity,
+      message: alert.title,
+      tenantId: tenant.id,
+    });
+
+    dispatchWebhookEvent("alert.created", tenant.id, { ...eventDetails, alert })
+      .catch(error => console.error("Error queueing webhook event:", error));
+  }
+
+  return storedRequest;
+}
@@ -1,6 +1,266 @@
-export async function startWafProxy() {
-  console.log('WAF Proxy: Not implemented in this environment');
-  console.log('WAF Proxy: Demo mode - using ingress API endpoint instead');
-  console.log('WAF Proxy: For production use, configure an external reverse proxy');
-  console.log('WAF Proxy: to forward traffic to the /api/waf/ingress endpoint');
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import https from "node:https";
+import type { Tenant } from "@shared/schema";
+import { storage } from "../storage";
+import { cidrContains, parseCidr, type ParsedCidr } from "./ip-lists";
+import { analyzeTenantRequest, recordTenantRequest, type IngressRequest, type TenantAnalysis } from "./pipeline";
+
+// Requests with larger bodies are rejected before analysis
+const MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+
+// Headers that only apply to a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+function stripHopByHopHeaders(headers: Record<string, any>): Record<string, any> {
+  const stripped = { ...headers };
+  for (const header of HOP_BY_HOP_HEADERS) {
+    delete stripped[header];
+  }
+  return stripped;
+}
+
+function getHostname(req: IncomingMessage): string {
+  const host = req.headers.host || "";
+  // Strip port, keeping IPv6 literals intact
+  return (host.startsWith("[") ? host.slice(0, host.indexOf("]") + 1) : host.split(":")[0]).toLowerCase();
+}
+
+// Proxies in front of this one whose X-Forwarded-For is believed, from WAF_TRUSTED_PROXIES
+// (comma-separated addresses or CIDR ranges); set when the proxy starts
+let trustedProxies: ParsedCidr[] = [];
+
+function parseTrustedProxies(value: string | undefined): ParsedCidr[] {
+  const proxies: ParsedCidr[] = [];
+  for (const entry of (value || "").split(",").map(e => e.trim()).filter(Boolean)) {
+    const cidr = parseCidr(entry);
+    if (cidr) {
+      proxies.push(cidr);
+    } else {
+      console.warn(`WAF Proxy: Ignoring invalid WAF_TRUSTED_PROXIES entry "${entry}"`);
+    }
+  }
+  return proxies;
+}
+
+function isTrustedProxy(ip: string): boolean {
+  return trustedProxies.some(cidr => cidrContains(cidr, ip));
+}
+
+// The connecting address, unless it is a trusted proxy: then the nearest X-Forwarded-For hop
+// that is not itself a trusted proxy, since hops further left are whatever the client sent
+function getClientIp(req: IncomingMessage): string | undefined {
+  const socketIp = req.socket.remoteAddress;
+  if (!socketIp || !isTrustedProxy(socketIp)) return socketIp || undefined;
+
+  const forwardedFor = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(",") : forwardedFor || "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(hops[i])) return hops[i];
+  }
+  return hops[0] || socketIp;
+}
+
+// Resolves an origin-form request target ("/path?query") under the tenant's upstream URL,
+// keeping its base path. Other forms (absolute URLs, "//host/...", "*") are refused so the
+// proxy never forwards to a host other than the upstream, and so are targets whose dot
+// segments ("/../", "/%2e%2e/") would climb out of the base path.
+function getUpstreamTarget(tenant: Tenant, requestTarget: string): URL | null {
+  if (!requestTarget.startsWith("/") || requestTarget.startsWith("//")) return null;
+
+  const upstream = new URL(tenant.upstreamUrl);
+  const basePath = upstream.pathname.replace(/\/+$/, "");
+  const target = new URL(`${upstream.origin}${basePath}${requestTarget}`);
+  if (target.origin !== upstream.origin) return null;
+  if (basePath && target.pathname !== basePath && !target.pathname.startsWith(`${basePath}/`)) return null;
+  return target;
+}
+
+// The path as the client sent it, percent-decoded but with dot segments left in place so
+// traversal attempts reach the rules and the stored request
+function rawRequestPath(requestTarget: string): string {
+  const queryStart = requestTarget.indexOf("?");
+  const path = queryStart === -1 ? requestTarget : requestTarget.slice(0, queryStart);
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(null);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: Record<string, any>, headers: Record<string, string> = {}) {
+  res.writeHead(statusCode, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function recordSafely(tenant: Tenant, request: IngressRequest, result: TenantAnalysis, response: Parameters<typeof recordTenantRequest>[3]) {
+  try {
+    await recordTenantRequest(tenant, request, result, response);
+  } catch (error) {
+    console.error("WAF Proxy: Failed to record request:", error);
+  }
+}
+
+function forwardRequest(
+  tenant: Tenant,
+  target: URL,
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: Buffer,
+): Promise<{ responseCode: number; responseHeaders?: Record<string, any> }> {
+  return new Promise((resolve) => {
+    const transport = target.protocol === "https:" ? https : http;
+
+    const headers = stripHopByHopHeaders(req.headers);
+    const clientIp = req.socket.remoteAddress;
+    headers["host"] = target.host;
+    headers["content-length"] = String(body.length);
+    headers["x-forwarded-for"] = req.headers["x-forwarded-for"]
+      ? `${req.headers["x-forwarded-for"]}, ${clientIp}`
+      : clientIp;
+    headers["x-forwarded-host"] = req.headers.host;
+    headers["x-forwarded-proto"] = "http";
+
+    const upstreamReq = transport.request(target, { method: req.method, headers }, (upstreamRes) => {
+      const responseCode = upstreamRes.statusCode || 502;
+      const responseHeaders = stripHopByHopHeaders(upstreamRes.headers);
+      res.writeHead(responseCode, responseHeaders);
+      upstreamRes.pipe(res);
+      upstreamRes.on("end", () => resolve({ responseCode, responseHeaders }));
+      upstreamRes.on("error", () => resolve({ responseCode, responseHeaders }));
+    });
+
+    upstreamReq.on("error", (error) => {
+      console.error(`WAF Proxy: Upstream ${tenant.upstreamUrl} unreachable:`, error.message);
+      if (!res.headersSent) {
+        sendJson(res, 502, { message: "Bad gateway" });
+      } else {
+        res.destroy();
+      }
+      resolve({ responseCode: 502 });
+    });
+
+    upstreamReq.end(body);
+  });
+}
+
+async function handleProxyRequest(req: IncomingMessage, res: ServerResponse) {
+  const startTime = Date.now();
+
+  try {
+    // Route by Host header to the matching tenant
+    const tenant = await storage.getTenantByDomain(getHostname(req));
+    if (!tenant || !tenant.isActive) {
+      return sendJson(res, 404, { message: "Unknown host" });
+    }
+
+    const target = getUpstreamTarget(tenant, req.url || "/");
+    if (!target) {
+      return sendJson(res, 400, { message: "Invalid request target" });
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      return sendJson(res, 413, { message: "Request body too large" });
+    }
+
+    const incomingRequest: IngressRequest = {
+      method: req.method || "GET",
+      path: rawRequestPath(req.url || "/"),
+      query: Object.fromEntries(target.searchParams),
+      headers: req.headers,
+      body: body.length > 0 ? body.toString("utf8") : undefined,
+      clientIp: getClientIp(req),
+    };
+
+    const result = await analyzeTenantRequest(tenant, incomingRequest);
+    const { analysis, finalAction } = result;
+
+    // In monitor mode finalAction is never deny/challenge, so flagged traffic is still forwarded
+    if (finalAction === "deny") {
+      sendJson(res, 403, { message: "Request blocked by WAF", reason: analysis.reason });
+      await recordSafely(tenant, incomingRequest, result, {
+        responseCode: 403,
+        responseTime: Date.now() - startTime,
+      });
+      return;
+    }
+
+    if (finalAction === "challenge") {
+      const retryAfter = result.rateLimit?.exceeded
+        ? Math.max(1, Math.ceil((result.rateLimit.resetTime - Date.now()) / 1000))
+        : 60;
+      sendJson(res, 429, { message: "Request challenged by WAF", reason: analysis.reason }, { "Retry-After": String(retryAfter) });
+      await recordSafely(tenant, incomingRequest, result, {
+        responseCode: 429,
+        responseTime: Date.now() - startTime,
+      });
+      return;
+    }
+
+    const upstream = await forwardRequest(tenant, target, req, res, body);
+    await recordSafely(tenant, incomingRequest, result, {
+      ...upstream,
+      responseTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("WAF Proxy: Error handling request:", error);
+    if (!res.headersSent) {
+      sendJson(res, 500, { message: "WAF processing error" });
+    }
+  }
+}
+
+// Built-in reverse proxy: set WAF_PROXY_PORT to serve protected sites in-process
+export async function startWafProxy(): Promise<http.Server | undefined> {
+  const port = process.env.WAF_PROXY_PORT;
+  if (!port) {
+    console.log('WAF Proxy: Disabled - set WAF_PROXY_PORT to enable the built-in reverse proxy');
+    console.log('WAF Proxy: Traffic can still be submitted to the /api/waf/ingress endpoint');
+    return undefined;
+  }
+
+  trustedProxies = parseTrustedProxies(process.env.WAF_TRUSTED_PROXIES);
+
+  const server = http.createServer((req, res) => {
+    handleProxyRequest(req, res);
+  });
+
+  const host = process.env.WAF_PROXY_HOST || (process.platform === 'win32' ? '127.0.0.1' : '0.0.0.0');
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(parseInt(port, 10), host, () => resolve());
+  });
+  console.log(`WAF Proxy: Listening on ${host}:${port}, routing by Host header to tenant upstreams`);
+
+  return server;
 }
@@ -0,0 +1,101 @@
+// Fixed-window rate limiting for ingress traffic. Counters live behind a pluggable
+// store so several instances can share them (e.g. a Redis-backed store).
+
+export interface RateLimitCounter {
+  count: number;
+  resetTime: number;
+}
+
+export interface RateLimitStore {
+  // Count a hit for the key and return the counter for the current window
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // The counter for the current window without counting a hit; undefined when the window is empty
+  get(key: string): Promise<RateLimitCounter | undefined>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+
+    if (counter && counter.resetTime > now) {
+      counter.count++;
+      return { ...counter };
+    }
+
+    // Cleanup old entries periodically
+    if (Math.random() < 0.01) {
+      const entries = Array.from(this.counters.entries());
+      for (const [k, v] of entries) {
+        if (v.resetTime <= now) {
+          this.counters.delete(k);
+        }
+      }
+    }
+
+    const fresh = { count: 1, resetTime: now + windowMs };
+    this.counters.set(key, fresh);
+    return { ...fresh };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | undefined> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetTime > Date.now() ? { ...counter } : undefined;
+  }
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return rateLimitStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+}
+
+export interface RateLimitResult {
+  count: number;
+  limit: number;
+  windowSeconds: number;
+  resetTime: number;
+  exceeded: boolean;
+  anomalyScore: number;
+}
+
+// 0 until the client uses half its allowance, rising to 100 at the limit
+export function rateAnomalyScore(count: number, limit: number): number {
+  const usage = count / limit;
+  if (usage <= 0.5) return 0;
+  return Math.min(100, Math.round((usage - 0.5) * 200));
+}
+
+export async function checkRateLimit(
+  tenantId: string,
+  clientIp: string,
+  limit: number,
+  windowSeconds: number,
+  dryRun = false,
+): Promise<RateLimitResult> {
+  const key = `ingress:${tenantId}:${clientIp}`;
+  const windowMs = windowSeconds * 1000;
+  let counter: RateLimitCounter;
+  if (dryRun) {
+    // What this request would count as, leaving the client's counter alone
+    const current = await rateLimitStore.get(key);
+    counter = current ? { count: current.count + 1, resetTime: current.resetTime } : { count: 1, resetTime: Date.now() + windowMs };
+  } else {
+    counter = await rateLimitStore.increment(key, windowMs);
+  }
+  const { count, resetTime } = counter;
+  return {
+    count,
+    limit,
+    windowSeconds,
+    resetTime,
+    exceeded: count > limit,
+    anomalyScore: rateAnomalyScore(count, limit),
+  };
+}
@@ -0,0 +1,89 @@
+import type { Policy } from "@shared/schema";
+import { storage } from "../storage";
+import { wafEngine, type CompiledRuleSet } from "./engine";
+
+// Per-tenant cache of the policy and compiled rule set used by the ingress pipeline.
+// Entries are dropped by the tenant, policy and rule routes whenever those change.
+
+export interface TenantRuleSet {
+  policy?: Policy;
+  ruleSet: CompiledRuleSet;
+}
+
+export interface RuleSetCacheStats {
+  tenantId: string;
+  ruleCount: number;
+  patternBytes: number;
+  compileTimeMs: number;
+  compiledAt: Date;
+  hits: number;
+}
+
+class RuleSetCache {
+  private entries = new Map<string, { value: TenantRuleSet; hits: number }>();
+  private pending = new Map<string, Promise<TenantRuleSet>>();
+  // Bumped on every invalidation so a compile that started earlier is not cached
+  private generation = 0;
+
+  async get(tenantId: string): Promise<TenantRuleSet> {
+    const entry = this.entries.get(tenantId);
+    if (entry) {
+      entry.hits++;
+      return entry.value;
+    }
+
+    // Concurrent requests for the same tenant share one compile
+    let pending = this.pending.get(tenantId);
+    if (!pending) {
+      const load: Promise<TenantRuleSet> = this.load(tenantId).finally(() => {
+        // An invalidation may have replaced this load with a newer one by now
+        if (this.pending.get(tenantId) === load) this.pending.delete(tenantId);
+      });
+      pending = load;
+      this.pending.set(tenantId, pending);
+    }
+    return pending;
+  }
+
+  private async load(tenantId: string): Promise<TenantRuleSet> {
+    const generation = this.generation;
+    const [policy, globalRules, tenantRules] = await Promise.all([
+      storage.getPolicyByTenant(tenantId),
+      storage.getRulesByTenant(null),
+      storage.getRulesByTenant(tenantId),
+    ]);
+
+    const value = { policy, ruleSet: wafEngine.compileRuleSet([...globalRules, ...tenantRules]) };
+    console.log(`WAF Engine: Compiled ${value.ruleSet.ruleCount} rules for tenant ${tenantId} in ${value.ruleSet.compileTimeMs}ms`);
+
+    if (generation === this.generation) {
+      this.entries.set(tenantId, { value, hits: 0 });
+    }
+    return value;
+  }
+
+  // A null tenant means a global rule changed, which affects every tenant
+  invalidate(tenantId?: string | null) {
+    this.generation++;
+    if (tenantId) {
+      this.entries.delete(tenantId);
+      this.pending.delete(tenantId);
+    } else {
+      this.entries.clear();
+      this.pending.clear();
+    }
+  }
+
+  stats(): RuleSetCacheStats[] {
+    return Array.from(this.entries, ([tenantId, { value, hits }]) => ({
+      tenantId,
+      ruleCount: value.ruleSet.ruleCount,
+      patternBytes: value.ruleSet.patternBytes,
+      compileTimeMs: value.ruleSet.compileTimeMs,
+      compiledAt: value.ruleSet.compiledAt,
+      hits,
+    }));
+  }
+}
+
+export const ruleSetCache = new RuleSetCache();
@@ -0,0 +1,49 @@
+import type { AnalysisResult } from "./engine";
+import { storage } from "../storage";
+
+// Rule hits are counted in memory and written in batches so ingress does not
+// update rule rows on every request. startRuleHitFlushJob writes them out.
+
+interface PendingRuleHit {
+  ruleId: string;
+  tenantId: string;
+  count: number;
+  lastHitAt: Date;
+}
+
+const pendingHits = new Map<string, PendingRuleHit>();
+
+function addHit(ruleId: string, tenantId: string, count: number, lastHitAt: Date) {
+  const key = `${tenantId}:${ruleId}`;
+  const pending = pendingHits.get(key);
+  if (pending) {
+    pending.count += count;
+    if (lastHitAt > pending.lastHitAt) pending.lastHitAt = lastHitAt;
+  } else {
+    pendingHits.set(key, { ruleId, tenantId, count, lastHitAt });
+  }
+}
+
+export function recordRuleHits(tenantId: string, matches: AnalysisResult['matches'], timestamp: Date = new Date()) {
+  for (const match of matches) {
+    addHit(match.ruleId, tenantId, 1, timestamp);
+  }
+}
+
+// Write buffered hits; on failure they are kept for the next flush
+export async function flushRuleHits(): Promise<number> {
+  if (pendingHits.size === 0) return 0;
+
+  const batch = Array.from(pendingHits.values());
+  pendingHits.clear();
+
+  try {
+    await storage.recordRuleHits(batch);
+  } catch (error) {
+    for (const hit of batch) {
+      addHit(hit.ruleId, hit.tenantId, hit.count, hit.lastHitAt);
+    }
+    throw error;
+  }
+  return batch.length;
+}
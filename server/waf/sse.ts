@@ -1,10 +1,16 @@
 import type { Response } from 'express';
 
+interface SSEClient {
+  res: Response;
+  // Tenants whose events this client receives; undefined for all (admins). Fixed at connect time
+  tenantIds?: string[];
+}
+
 class SSEServer {
-  private clients: Map<string, Response> = new Map();
+  private clients: Map<string, SSEClient> = new Map();
   private clientCounter = 0;
   
-  registerClient(res: Response): string {
+  registerClient(res: Response, tenantIds?: string[]): string {
     const clientId = `client-${++this.clientCounter}`;
     
     res.setHeader('Content-Type', 'text/event-stream');
@@ -17,7 +23,7 @@ class SSEServer {
     
     res.write(`: SSE connection established\n\n`);
     
-    this.clients.set(clientId, res);
+    this.clients.set(clientId, { res, tenantIds });
     
     res.on('close', () => {
       this.clients.delete(clientId);
@@ -40,12 +46,14 @@ class SSEServer {
     return clientId;
   }
   
-  broadcast(event: string, data: any) {
+  // Tenant events only reach clients allowed to see that tenant; events without one reach admins only
+  broadcast(event: string, data: any, tenantId?: string | null) {
     const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
     
     this.clients.forEach((client, clientId) => {
+      if (client.tenantIds && (!tenantId || !client.tenantIds.includes(tenantId))) return;
       try {
-        client.write(message);
+        client.res.write(message);
       } catch (error) {
         console.error(`[SSE] Error broadcasting to ${clientId}:`, error);
         this.clients.delete(clientId);
@@ -53,6 +61,14 @@ class SSEServer {
     });
   }
   
+  broadcastRequest(request: any) {
+    this.broadcast('request', request, request.tenantId);
+  }
+
+  broadcastAlert(alert: { id: string; severity: string; message: string; tenantId?: string | null }) {
+    this.broadcast('alert', alert, alert.tenantId);
+  }
+
   getClientCount(): number {
     return this.clients.size;
   }
@@ -0,0 +1,207 @@
+import { createHmac } from "node:crypto";
+import type { Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+import { storage } from "../storage";
+import { renderWebhookPayload, sampleAlertEvent } from "./templates";
+
+// Webhook delivery: events are queued as delivery rows, sent with an HMAC signature and
+// retried with exponential backoff. Webhooks that keep failing are disabled.
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Consecutive failed attempts (across deliveries) before a webhook is disabled
+const MAX_CONSECUTIVE_FAILURES = 20;
+const BATCH_SIZE = 20;
+
+// Webhooks created before event filtering existed only ever received alerts
+export function subscribedEvents(webhook: Webhook): string[] {
+  return webhook.events && webhook.events.length > 0 ? webhook.events : ["alert.created"];
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Receivers recompute HMAC-SHA256(secret, "<t>.<body>") and compare it with v1
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Render the delivery with the webhook's payload template
+function buildBody(webhook: Webhook, delivery: WebhookDelivery): string {
+  const envelope = {
+    id: delivery.id,
+    event: delivery.event,
+    tenantId: delivery.tenantId,
+    createdAt: delivery.createdAt,
+    data: delivery.payloadJson as Record<string, any>,
+  };
+  return JSON.stringify(renderWebhookPayload(webhook.format, envelope, { routingKey: webhook.routingKey }));
+}
+
+// Queue an event for every active webhook subscribed to it; global webhooks receive every tenant's events
+export async function dispatchWebhookEvent(event: WebhookEvent, tenantId: string | null, data: Record<string, any>) {
+  const webhooks = (await storage.getWebhooks()).filter(w =>
+    w.isActive &&
+    (!w.tenantId || w.tenantId === tenantId) &&
+    subscribedEvents(w).includes(event)
+  );
+  if (webhooks.length === 0) return;
+
+  for (const webhook of webhooks) {
+    await storage.createWebhookDelivery({
+      webhookId: webhook.id,
+      tenantId,
+      event,
+      payloadJson: data,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+  }
+
+  processWebhookDeliveries().catch(error => {
+    console.error("Webhook delivery failed:", error);
+  });
+}
+
+async function recordFailure(webhook: Webhook, delivery: WebhookDelivery, attempts: number, error: string, responseCode?: number) {
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    responseCode: responseCode ?? null,
+    error,
+    nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)),
+  });
+
+  const failureCount = (webhook.failureCount ?? 0) + 1;
+  if (failureCount >= MAX_CONSECUTIVE_FAILURES) {
+    await storage.updateWebhook(webhook.id, { failureCount, isActive: false });
+    await storage.failPendingWebhookDeliveries(webhook.id, `Webhook disabled after ${failureCount} consecutive failures`);
+    console.warn(`Webhook ${webhook.name} (${webhook.id}) disabled after ${failureCount} consecutive failures`);
+  } else {
+    await storage.updateWebhook(webhook.id, { failureCount });
+  }
+}
+
+interface SendResult {
+  ok: boolean;
+  responseCode?: number;
+  error?: string;
+}
+
+async function sendDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<SendResult> {
+  const body = buildBody(webhook, delivery);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "WAF-Admin-Webhooks/1.0",
+    "X-Webhook-Event": delivery.event,
+    "X-Webhook-Delivery": delivery.id,
+  };
+  if (webhook.secret) {
+    headers["X-Webhook-Signature"] = signPayload(webhook.secret, Math.floor(Date.now() / 1000), body);
+  }
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      return { ok: true, responseCode: response.status };
+    }
+    const text = await response.text().catch(() => "");
+    return {
+      ok: false,
+      responseCode: response.status,
+      error: `HTTP ${response.status}${text ? `: ${text.substring(0, 200)}` : ""}`,
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function attemptDelivery(webhook: Webhook, delivery: WebhookDelivery) {
+  const attempts = (delivery.attempts ?? 0) + 1;
+  const result = await sendDelivery(webhook, delivery);
+
+  if (!result.ok) {
+    await recordFailure(webhook, delivery, attempts, result.error!, result.responseCode);
+    return;
+  }
+
+  const now = new Date();
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: "success",
+    attempts,
+    responseCode: result.responseCode,
+    error: null,
+    nextAttemptAt: null,
+    deliveredAt: now,
+  });
+  await storage.updateWebhook(webhook.id, { lastTriggeredAt: now, failureCount: 0 });
+}
+
+// Send a sample alert once, without retries, so the template and endpoint can be checked.
+// Test results are logged but do not count towards auto-disabling.
+export async function sendTestWebhook(webhook: Webhook) {
+  const tenant = webhook.tenantId ? await storage.getTenant(webhook.tenantId) : undefined;
+  const sample = sampleAlertEvent(tenant && { id: tenant.id, name: tenant.name, domain: tenant.domain });
+  const delivery = await storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    tenantId: sample.tenantId,
+    event: "webhook.test",
+    payloadJson: sample.data,
+    status: "pending",
+    attempts: 0,
+  });
+
+  const result = await sendDelivery(webhook, { ...delivery, event: sample.event });
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: result.ok ? "success" : "failed",
+    attempts: 1,
+    responseCode: result.responseCode ?? null,
+    error: result.error ?? null,
+    deliveredAt: result.ok ? new Date() : null,
+  });
+
+  return {
+    ...result,
+    delivery: updated ?? delivery,
+    payload: JSON.parse(buildBody(webhook, { ...delivery, event: sample.event })),
+  };
+}
+
+let processing = false;
+
+// Send every due delivery; runs after each dispatch and periodically for retries
+export async function processWebhookDeliveries() {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let due: WebhookDelivery[];
+    do {
+      due = await storage.getDueWebhookDeliveries(BATCH_SIZE);
+      for (const delivery of due) {
+        const webhook = await storage.getWebhook(delivery.webhookId);
+        if (!webhook || !webhook.isActive) {
+          await storage.updateWebhookDelivery(delivery.id, {
+            status: "failed",
+            error: "Webhook is disabled",
+            nextAttemptAt: null,
+          });
+          continue;
+        }
+        await attemptDelivery(webhook, delivery);
+      }
+    } while (due.length > 0);
+  } finally {
+    processing = false;
+  }
+}
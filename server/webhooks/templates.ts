@@ -0,0 +1,212 @@
+import type { WebhookFormat } from "@shared/schema";
+
+// Payload templates: the generic format sends the event envelope as-is, the others render a
+// summary of the event into the shape Slack, Microsoft Teams or PagerDuty expect.
+
+export interface WebhookEnvelope {
+  id: string;
+  event: string;
+  tenantId: string | null;
+  createdAt: Date | string | null;
+  data: Record<string, any>;
+}
+
+interface EventSummary {
+  title: string;
+  text: string;
+  severity: string;
+  fields: Array<{ label: string; value: string }>;
+  dedupKey: string;
+  timestamp: string;
+}
+
+const SEVERITY_EMOJI: Record<string, string> = {
+  critical: ":rotating_light:",
+  high: ":red_circle:",
+  medium: ":large_orange_circle:",
+  low: ":large_blue_circle:",
+};
+
+const TEAMS_SEVERITY_COLOR: Record<string, string> = {
+  critical: "Attention",
+  high: "Attention",
+  medium: "Warning",
+  low: "Accent",
+};
+
+const PAGERDUTY_SEVERITY: Record<string, string> = {
+  critical: "critical",
+  high: "error",
+  medium: "warning",
+  low: "info",
+};
+
+function summarize(envelope: WebhookEnvelope): EventSummary {
+  const { data } = envelope;
+  const site = data.tenant ? `${data.tenant.name} (${data.tenant.domain})` : "All sites";
+  const request = data.request;
+  const requestLine = request ? `${request.method} ${request.path}` : undefined;
+  const timestamp = new Date(envelope.createdAt ?? Date.now()).toISOString();
+
+  const fields = [
+    { label: "Site", value: site },
+    ...(requestLine ? [{ label: "Request", value: requestLine }] : []),
+    ...(request?.clientIp ? [{ label: "Client IP", value: request.clientIp }] : []),
+    ...(data.analysis ? [{ label: "Score", value: String(data.analysis.score) }] : []),
+  ];
+
+  if (envelope.event === "request.blocked") {
+    return {
+      title: `Request blocked on ${data.tenant?.name ?? "site"}`,
+      text: data.analysis?.reason ?? "Request was blocked by the WAF",
+      severity: data.analysis?.riskLevel ?? "medium",
+      fields,
+      dedupKey: `request-${request?.id ?? envelope.id}`,
+      timestamp,
+    };
+  }
+
+  const alert = data.alert ?? {};
+  return {
+    title: alert.title ?? "WAF alert",
+    text: alert.message ?? "",
+    severity: alert.severity ?? "medium",
+    fields: [...fields, { label: "Type", value: alert.type ?? "unknown" }],
+    dedupKey: `alert-${alert.id ?? envelope.id}`,
+    timestamp,
+  };
+}
+
+// Slack mrkdwn treats &, < and > as control characters
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function slackPayload(summary: EventSummary) {
+  const emoji = SEVERITY_EMOJI[summary.severity] ?? SEVERITY_EMOJI.medium;
+  return {
+    text: `${emoji} ${summary.title}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: summary.title.substring(0, 150), emoji: true },
+      },
+      ...(summary.text ? [{ type: "section", text: { type: "mrkdwn", text: escapeSlack(summary.text) } }] : []),
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Severity*\n${emoji} ${summary.severity}` },
+          ...summary.fields.map(f => ({ type: "mrkdwn", text: `*${f.label}*\n${escapeSlack(f.value)}` })),
+        ].slice(0, 10),
+      },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `WAF Admin • ${summary.timestamp}` }],
+      },
+    ],
+  };
+}
+
+function teamsPayload(summary: EventSummary) {
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              text: summary.title,
+              weight: "Bolder",
+              size: "Medium",
+              wrap: true,
+              color: TEAMS_SEVERITY_COLOR[summary.severity] ?? "Default",
+            },
+            ...(summary.text ? [{ type: "TextBlock", text: summary.text, wrap: true }] : []),
+            {
+              type: "FactSet",
+              facts: [
+                { title: "Severity", value: summary.severity },
+                ...summary.fields.map(f => ({ title: f.label, value: f.value })),
+                { title: "Time", value: summary.timestamp },
+              ],
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+function pagerDutyPayload(summary: EventSummary, envelope: WebhookEnvelope, routingKey: string) {
+  return {
+    routing_key: routingKey,
+    event_action: "trigger",
+    dedup_key: summary.dedupKey,
+    payload: {
+      summary: `${summary.title}${summary.text ? `: ${summary.text}` : ""}`.substring(0, 1024),
+      source: envelope.data.tenant?.domain ?? "waf-admin",
+      severity: PAGERDUTY_SEVERITY[summary.severity] ?? "warning",
+      timestamp: summary.timestamp,
+      component: envelope.data.tenant?.name,
+      class: envelope.event,
+      custom_details: envelope.data,
+    },
+  };
+}
+
+export function renderWebhookPayload(
+  format: WebhookFormat | string | null | undefined,
+  envelope: WebhookEnvelope,
+  options: { routingKey?: string | null } = {},
+): Record<string, any> {
+  switch (format) {
+    case "slack":
+      return slackPayload(summarize(envelope));
+    case "teams":
+      return teamsPayload(summarize(envelope));
+    case "pagerduty":
+      return pagerDutyPayload(summarize(envelope), envelope, options.routingKey ?? "");
+    default:
+      return envelope;
+  }
+}
+
+// Sample alert used by the "send test event" button
+export function sampleAlertEvent(tenant?: { id: string; name: string; domain: string } | null): Omit<WebhookEnvelope, "id"> {
+  const now = new Date();
+  return {
+    event: "alert.created",
+    tenantId: tenant?.id ?? null,
+    createdAt: now,
+    data: {
+      test: true,
+      tenant: tenant ?? { id: "sample", name: "Example Site", domain: "example.com" },
+      alert: {
+        id: "sample-alert",
+        severity: "high",
+        type: "sql-injection",
+        title: "High-risk request detected (Score: 85)",
+        message: "Detected 2 rule matches: SQL Injection, Suspicious User Agent",
+        createdAt: now,
+      },
+      request: {
+        id: "sample-request",
+        method: "GET",
+        path: "/products?id=1' OR '1'='1",
+        clientIp: "203.0.113.42",
+        userAgent: "sqlmap/1.7",
+      },
+      analysis: {
+        score: 85,
+        riskLevel: "high",
+        reason: "Score 85 exceeds block threshold 70",
+        matchedRules: ["sql-injection", "suspicious-ua"],
+      },
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { sql } from "drizzle-orm";
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -18,8 +19,18 @@ import { relations } from "drizzle-orm";
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["admin", "operator", "viewer"]);
 export const enforcementModeEnum = pgEnum("enforcement_mode", ["monitor", "block"]);
+export const rateLimitActionEnum = pgEnum("rate_limit_action", ["challenge", "block"]);
 export const actionTakenEnum = pgEnum("action_taken", ["allow", "monitor", "challenge", "deny"]);
 export const overrideTypeEnum = pgEnum("override_type", ["request", "rule", "ip"]);
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "success", "failed"]);
+
+// Event types a webhook can subscribe to
+export const webhookEvents = ["alert.created", "request.blocked"] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+// Payload templates a webhook can use
+export const webhookFormats = ["generic", "slack", "teams", "pagerduty"] as const;
+export type WebhookFormat = typeof webhookFormats[number];
 
 // Session storage table - Required for Replit Auth
 export const sessions = pgTable(
@@ -28,8 +39,16 @@ export const sessions = pgTable(
     sid: varchar("sid").primaryKey(),
     sess: jsonb("sess").notNull(),
     expire: timestamp("expire").notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+    userAgent: varchar("user_agent", { length: 500 }),
+    ipAddress: varchar("ip_address", { length: 64 }),
+    createdAt: timestamp("created_at").defaultNow(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow(),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)],
+  (table) => [
+    index("IDX_session_expire").on(table.expire),
+    index("IDX_session_user").on(table.userId),
+  ],
 );
 
 // Users table - Extended for WAF with roles and tenant access
@@ -41,10 +60,58 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: userRoleEnum("role").default("viewer").notNull(),
   tenantIds: text("tenant_ids").array().default(sql`ARRAY[]::text[]`),
+  passwordSetAt: timestamp("password_set_at"),
+  failedLoginCount: integer("failed_login_count").default(0),
+  lockedUntil: timestamp("locked_until"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // An invited user has not accepted until passwordSetAt is set
+  invitedAt: timestamp("invited_at"),
+  invitedBy: varchar("invited_by"),
+  deactivatedAt: timestamp("deactivated_at"),
+  lastLoginAt: timestamp("last_login_at"),
+  lastLoginIp: varchar("last_login_ip", { length: 64 }),
+  // Issuer and subject ("iss|sub") of the single sign-on identity linked to this account
+  oidcSubject: varchar("oidc_subject", { length: 512 }).unique(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// User credentials table - Secrets kept apart from users so they are never serialized with a user
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash", { length: 255 }),
+  resetTokenHash: varchar("reset_token_hash", { length: 64 }).unique(),
+  resetTokenExpiresAt: timestamp("reset_token_expires_at"),
+  totpSecret: varchar("totp_secret", { length: 64 }),
+  totpPendingSecret: varchar("totp_pending_secret", { length: 64 }),
+  totpLastCounter: integer("totp_last_counter"),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// API tokens table - Bearer tokens for automation; only a hash of the token is stored
+export const apiTokenKinds = ["personal", "service"] as const;
+export type ApiTokenKind = typeof apiTokenKinds[number];
+export const apiTokenScopes = ["traffic:read", "rules:write", "tenants:write", "ingress"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  kind: varchar("kind", { length: 20 }).$type<ApiTokenKind>().notNull(),
+  // Owner for personal tokens, creator for service tokens; requests run with this user's role
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // First characters of the token, shown so users can tell tokens apart
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 64 }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Tenants table - Each tenant represents a protected website
 export const tenants = pgTable("tenants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -63,7 +130,35 @@ export const tenants = pgTable("tenants", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Ingress keys table - HMAC secrets that sign a tenant's /api/waf/ingress requests.
+// The secret is needed to verify signatures, so it is stored but only returned on creation
+export const ingressKeys = pgTable("ingress_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 128 }).notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  // Set on the previous key when rotating, so senders can switch over before it stops working
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Policies table - Enforcement policies per tenant
+// Multipliers for the rule score and each anomaly detector's 0-100 score; the weighted sum is the
+// request's total score (capped at 100)
+export const scoreWeightsSchema = z.object({
+  rules: z.number().min(0).max(2).default(1),
+  ipReputation: z.number().min(0).max(2).default(0.3),
+  rate: z.number().min(0).max(2).default(0.2),
+  header: z.number().min(0).max(2).default(0.2),
+  path: z.number().min(0).max(2).default(0.2),
+  body: z.number().min(0).max(2).default(0.2),
+});
+export type ScoreWeights = z.infer<typeof scoreWeightsSchema>;
+export const defaultScoreWeights: ScoreWeights = scoreWeightsSchema.parse({});
+export type AnomalyComponent = Exclude<keyof ScoreWeights, "rules">;
+
 export const policies = pgTable("policies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
@@ -74,6 +169,9 @@ export const policies = pgTable("policies", {
   monitorThreshold: real("monitor_threshold").default(30),
   rateLimit: integer("rate_limit").default(100),
   rateLimitWindow: integer("rate_limit_window").default(60),
+  rateLimitAction: rateLimitActionEnum("rate_limit_action").default("challenge"),
+  // Missing weights fall back to defaultScoreWeights
+  scoreWeights: jsonb("score_weights").$type<Partial<ScoreWeights>>(),
   isDefault: boolean("is_default").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -91,10 +189,13 @@ export const wafRules = pgTable("waf_rules", {
   patternType: varchar("pattern_type", { length: 50 }).default("regex"),
   targetField: varchar("target_field", { length: 100 }).notNull(),
   action: actionTakenEnum("action").default("deny"),
+  // When set, a match applies the rule's action regardless of the total score
+  forceAction: boolean("force_action").default(false),
   score: integer("score").default(10),
   enabled: boolean("enabled").default(true),
   isBuiltIn: boolean("is_built_in").default(false),
   hitCount: integer("hit_count").default(0),
+  lastHitAt: timestamp("last_hit_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -187,6 +288,9 @@ export const webhooks = pgTable("webhooks", {
   url: varchar("url", { length: 500 }).notNull(),
   secret: varchar("secret", { length: 255 }),
   events: text("events").array().default(sql`ARRAY[]::text[]`),
+  format: varchar("format", { length: 20 }).default("generic"),
+  // PagerDuty Events v2 integration key, only used by the pagerduty format
+  routingKey: varchar("routing_key", { length: 255 }),
   isActive: boolean("is_active").default(true),
   lastTriggeredAt: timestamp("last_triggered_at"),
   failureCount: integer("failure_count").default(0),
@@ -205,6 +309,89 @@ export const ipLists = pgTable("ip_lists", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Rule hits table - Match counters per rule and tenant (built-in rule ids included)
+export const ruleHits = pgTable(
+  "rule_hits",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    ruleId: varchar("rule_id", { length: 255 }).notNull(),
+    tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    hitCount: integer("hit_count").default(0),
+    lastHitAt: timestamp("last_hit_at"),
+  },
+  (table) => [uniqueIndex("IDX_rule_hits_rule_tenant").on(table.ruleId, table.tenantId)],
+);
+
+// Webhook deliveries table - One row per event sent to a webhook, retried until it succeeds or gives up
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+    tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 50 }).notNull(),
+    payloadJson: jsonb("payload_json").notNull(),
+    status: webhookDeliveryStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0),
+    responseCode: integer("response_code"),
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt)],
+);
+
+// Saved searches table - Named traffic queries per user
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  query: text("query").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Settings versions table - Every save of the global settings adds a row; the highest version is current
+export const settingsVersions = pgTable("settings_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  settingsJson: jsonb("settings_json").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit log - append-only record of administrative actions. Each entry's hash covers the previous
+// entry's hash, so editing or removing a row breaks the chain from that point on
+export const auditTargetTypes = [
+  "tenant", "ingress_key", "policy", "rule", "override", "ip_list", "alert", "webhook",
+  "user", "session", "api_token", "saved_search", "settings", "audit_log",
+] as const;
+export type AuditTargetType = typeof auditTargetTypes[number];
+
+// Changed fields only; a created record has no `before`, a deleted one no `after`
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: integer("sequence").notNull().unique(),
+  // Actor details are copied so entries stay readable after the user is deleted
+  actorId: varchar("actor_id"),
+  actorEmail: varchar("actor_email"),
+  apiTokenId: varchar("api_token_id"),
+  action: varchar("action", { length: 100 }).notNull(),
+  targetType: varchar("target_type", { length: 50 }).notNull(),
+  targetId: varchar("target_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: varchar("user_agent", { length: 500 }),
+  prevHash: varchar("prev_hash", { length: 64 }).notNull(),
+  hash: varchar("hash", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_logs_created").on(table.createdAt),
+  index("IDX_audit_logs_target").on(table.targetType, table.targetId),
+]);
+
 // Audit Files table - References to stored bodies
 export const auditFiles = pgTable("audit_files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -218,6 +405,12 @@ export const auditFiles = pgTable("audit_files", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Most frequent values in an aggregate period, highest count first
+export type AggregateTopEntry = { key: string; label?: string; count: number };
+
+export const aggregatePeriodTypes = ["minute", "hour", "day"] as const;
+export type AggregatePeriodType = typeof aggregatePeriodTypes[number];
+
 // Analytics aggregates table - Pre-computed metrics
 export const analyticsAggregates = pgTable("analytics_aggregates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -232,16 +425,22 @@ export const analyticsAggregates = pgTable("analytics_aggregates", {
   challengedRequests: integer("challenged_requests").default(0),
   uniqueIps: integer("unique_ips").default(0),
   avgScore: real("avg_score").default(0),
-  topRulesJson: jsonb("top_rules_json"),
-  topIpsJson: jsonb("top_ips_json"),
-  topPathsJson: jsonb("top_paths_json"),
+  topRulesJson: jsonb("top_rules_json").$type<AggregateTopEntry[]>(),
+  topIpsJson: jsonb("top_ips_json").$type<AggregateTopEntry[]>(),
+  topPathsJson: jsonb("top_paths_json").$type<AggregateTopEntry[]>(),
+  // Request counts keyed by response code and by method
+  statusCodesJson: jsonb("status_codes_json").$type<Record<string, number>>(),
+  methodsJson: jsonb("methods_json").$type<Record<string, number>>(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_analytics_aggregates_period").on(table.tenantId, table.periodType, table.periodStart),
+]);
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   overrides: many(overrides),
   ipLists: many(ipLists),
+  savedSearches: many(savedSearches),
 }));
 
 export const tenantsRelations = relations(tenants, ({ many }) => ({
@@ -251,6 +450,7 @@ export const tenantsRelations = relations(tenants, ({ many }) => ({
   alerts: many(alerts),
   webhooks: many(webhooks),
   ipLists: many(ipLists),
+  ingressKeys: many(ingressKeys),
   auditFiles: many(auditFiles),
   analyticsAggregates: many(analyticsAggregates),
 }));
@@ -300,19 +500,31 @@ export const overridesRelations = relations(overrides, ({ one }) => ({
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertTenantSchema = createInsertSchema(tenants).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertPolicySchema = createInsertSchema(policies).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertWafRuleSchema = createInsertSchema(wafRules).omit({ id: true, createdAt: true, updatedAt: true, hitCount: true });
+export const insertWafRuleSchema = createInsertSchema(wafRules).omit({ id: true, createdAt: true, updatedAt: true, hitCount: true, lastHitAt: true });
 export const insertRequestSchema = createInsertSchema(requests).omit({ id: true, createdAt: true });
 export const insertAnalysisSchema = createInsertSchema(analysis).omit({ id: true, createdAt: true });
 export const insertOverrideSchema = createInsertSchema(overrides).omit({ id: true, createdAt: true });
 export const insertAlertSchema = createInsertSchema(alerts).omit({ id: true, createdAt: true });
 export const insertWebhookSchema = createInsertSchema(webhooks).omit({ id: true, createdAt: true });
 export const insertIpListSchema = createInsertSchema(ipLists).omit({ id: true, createdAt: true });
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({ id: true, createdAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+// Admin-created users sign in once they open their invite link and choose a password
+export const inviteUserSchema = z.object({
+  email: z.string().trim().email().max(255),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  role: z.enum(userRoleEnum.enumValues).default("viewer"),
+  tenantIds: z.array(z.string()).default([]),
+});
+export type InviteUser = z.infer<typeof inviteUserSchema>;
+
 export type Tenant = typeof tenants.$inferSelect;
 export type InsertTenant = z.infer<typeof insertTenantSchema>;
 
@@ -340,10 +552,198 @@ export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
 export type IpList = typeof ipLists.$inferSelect;
 export type InsertIpList = z.infer<typeof insertIpListSchema>;
 
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+
+export type SettingsVersion = typeof settingsVersions.$inferSelect;
+export type UserCredentials = typeof userCredentials.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type IngressKey = typeof ingressKeys.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+export type RuleHit = typeof ruleHits.$inferSelect;
+
 export type AuditFile = typeof auditFiles.$inferSelect;
 export type AnalyticsAggregate = typeof analyticsAggregates.$inferSelect;
+export type InsertAnalyticsAggregate = Omit<AnalyticsAggregate, "id" | "createdAt">;
+
+// Global settings - missing keys fall back to the defaults, so older versions stay readable
+export const alertSeverities = ["low", "medium", "high", "critical"] as const;
+export type AlertSeverity = typeof alertSeverities[number];
+
+// A claim value and what it grants when a single sign-on user presents it
+export const oidcRoleMappingSchema = z.object({
+  value: z.string().trim().min(1).max(255),
+  role: z.enum(userRoleEnum.enumValues),
+});
+export type OidcRoleMapping = z.infer<typeof oidcRoleMappingSchema>;
+
+export const oidcTenantMappingSchema = z.object({
+  value: z.string().trim().min(1).max(255),
+  tenantIds: z.array(z.string()).max(100),
+});
+export type OidcTenantMapping = z.infer<typeof oidcTenantMappingSchema>;
+
+export const settingsSchema = z.object({
+  defaultEnforcementMode: z.enum(["monitor", "block"]).default("monitor"),
+  defaultBlockThreshold: z.number().int().min(1).max(100).default(70),
+  defaultRetentionDays: z.number().int().min(1).max(365).default(30),
+  anonymizeIpAfterDays: z.number().int().min(1).max(365).default(7),
+  alertThreshold: z.enum(alertSeverities).default("high"),
+  // Alerts when a tenant's traffic departs from its learned baseline; higher sensitivity alerts on smaller deviations
+  trafficAnomalyAlerts: z.boolean().default(true),
+  trafficAnomalySensitivity: z.enum(["low", "medium", "high"]).default("medium"),
+  enforceHttps: z.boolean().default(true),
+  blockBadIps: z.boolean().default(true),
+  rateLimiting: z.boolean().default(true),
+  passwordMinLength: z.number().int().min(8).max(128).default(12),
+  passwordRequireMixedCase: z.boolean().default(true),
+  passwordRequireNumber: z.boolean().default(true),
+  passwordRequireSymbol: z.boolean().default(false),
+  maxFailedLogins: z.number().int().min(1).max(50).default(5),
+  lockoutMinutes: z.number().int().min(1).max(1440).default(15),
+  twoFactorRequiredRoles: z.array(z.enum(userRoleEnum.enumValues)).default([]),
+  inviteExpiryDays: z.number().int().min(1).max(30).default(7),
+  // OpenID Connect single sign-on; the client secret is read from OIDC_CLIENT_SECRET, never stored here
+  oidcEnabled: z.boolean().default(false),
+  oidcDisplayName: z.string().trim().min(1).max(60).default("Single Sign-On"),
+  oidcIssuerUrl: z.union([z.literal(""), z.string().trim().url().max(500)]).default(""),
+  oidcClientId: z.string().trim().max(255).default(""),
+  oidcScopes: z.string().trim().min(1).max(500).default("openid email profile"),
+  oidcAutoCreateUsers: z.boolean().default(true),
+  oidcRoleClaim: z.string().trim().max(100).default("groups"),
+  oidcRoleMappings: z.array(oidcRoleMappingSchema).max(50).default([]),
+  // Role for new accounts when no mapping matches; "none" refuses them
+  oidcDefaultRole: z.enum([...userRoleEnum.enumValues, "none"]).default("viewer"),
+  oidcTenantClaim: z.string().trim().max(100).default("groups"),
+  oidcTenantMappings: z.array(oidcTenantMappingSchema).max(50).default([]),
+});
+export type Settings = z.infer<typeof settingsSchema>;
+export const defaultSettings: Settings = settingsSchema.parse({});
+
+export type PasswordPolicy = Pick<Settings,
+  "passwordMinLength" | "passwordRequireMixedCase" | "passwordRequireNumber" | "passwordRequireSymbol">;
+
+// Requirements the password does not meet; shared so the forms can show them before submitting
+export function passwordPolicyErrors(password: string, policy: PasswordPolicy): string[] {
+  const errors: string[] = [];
+  if (password.length < policy.passwordMinLength) {
+    errors.push(`At least ${policy.passwordMinLength} characters`);
+  }
+  if (password.length > 256) {
+    errors.push("At most 256 characters");
+  }
+  if (policy.passwordRequireMixedCase && !(/[a-z]/.test(password) && /[A-Z]/.test(password))) {
+    errors.push("Upper and lower case letters");
+  }
+  if (policy.passwordRequireNumber && !/[0-9]/.test(password)) {
+    errors.push("At least one number");
+  }
+  if (policy.passwordRequireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("At least one symbol");
+  }
+  return errors;
+}
+
+// A signed-in session as listed to its owner; id is a hash of the session id, never the id itself
+export type SessionInfo = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | string | null;
+  lastSeenAt: Date | string | null;
+  expiresAt: Date | string;
+  current: boolean;
+};
+
+// API token as listed to users; the hash stays on the server
+export type ApiTokenInfo = Omit<ApiToken, "tokenHash"> & { ownerName: string | null };
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(apiTokenKinds).default("personal"),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1),
+  // Omitted or null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+// Ingress key as listed on the tenant page; the secret is only in the creation response
+export type IngressKeyInfo = Omit<IngressKey, "secret">;
+
+export const createIngressKeySchema = z.object({
+  // Hours the tenant's current keys keep working; 0 revokes them immediately, omitted keeps them
+  rotateGraceHours: z.number().int().min(0).max(720).optional(),
+});
+
+// One page of /api/audit-log, newest first
+export type AuditLogPage = {
+  entries: AuditLog[];
+  total: number;
+};
+
+// Result of walking the audit chain; brokenAt is the first sequence number that fails.
+// headHash can be compared with an earlier export to spot entries removed from the end.
+export type AuditChainStatus = {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null;
+  reason: string | null;
+  headSequence: number;
+  headHash: string | null;
+};
 
 // Dashboard stats type
+// Time ranges the analytics charts offer and the bucket size each uses unless another is asked for
+export const analyticsRanges = ["1h", "6h", "24h", "7d", "30d", "90d"] as const;
+export type AnalyticsRange = typeof analyticsRanges[number];
+export const analyticsRangeMs: Record<AnalyticsRange, number> = {
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "90d": 90 * 24 * 60 * 60 * 1000,
+};
+export const defaultAnalyticsGranularity: Record<AnalyticsRange, AggregatePeriodType> = {
+  "1h": "minute",
+  "6h": "minute",
+  "24h": "hour",
+  "7d": "hour",
+  "30d": "day",
+  "90d": "day",
+};
+
+export type AnalyticsCounts = {
+  totalRequests: number;
+  blockedRequests: number;
+  monitoredRequests: number;
+  challengedRequests: number;
+  allowedRequests: number;
+  avgScore: number;
+};
+
+export type AnalyticsPoint = AnalyticsCounts & { periodStart: string };
+
+// Buckets from `from` up to now, oldest first; buckets without traffic are included with zero counts.
+// The top lists are merged from each bucket's own top entries, so they are close but not exact.
+export type AnalyticsTimeseries = {
+  range: AnalyticsRange;
+  granularity: AggregatePeriodType;
+  from: string;
+  to: string;
+  points: AnalyticsPoint[];
+  totals: AnalyticsCounts;
+  statusCodes: Record<string, number>;
+  methods: Record<string, number>;
+  topPaths: AggregateTopEntry[];
+  topIps: AggregateTopEntry[];
+  topRules: AggregateTopEntry[];
+};
+
 export type DashboardStats = {
   totalRequests: number;
   blockedRequests: number;
@@ -354,8 +754,18 @@ export type DashboardStats = {
   activeRules: number;
   recentAlerts: Alert[];
 };
+// The request figures, which come from the analytics aggregates
+export type DashboardTraffic = Pick<DashboardStats,
+  "totalRequests" | "blockedRequests" | "flaggedRequests" | "allowedRequests" | "blockPercentage">;
 
 // Request with analysis type
 export type RequestWithAnalysis = Request & {
   analysis?: Analysis;
+  overrides?: Override[];
+};
+
+// One page of /api/requests; pass nextCursor back as `cursor` to fetch the next page
+export type RequestPage = {
+  items: RequestWithAnalysis[];
+  nextCursor: string | null;
 };